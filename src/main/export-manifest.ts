@@ -0,0 +1,118 @@
+import { createHash } from 'node:crypto';
+import { createReadStream } from 'node:fs';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { EXPORT_MANIFEST_FILE } from '../shared/export-naming';
+import { DEFAULT_OUTPUT_FORMAT_SETTINGS } from '../shared/export-settings';
+import type { ExportSettings, ExportSizeSpec, StampMeta, StampTemplate } from '../types/project';
+
+export const EXPORT_MANIFEST_VERSION = 1;
+
+export type ExportManifestItem = {
+  relativePath: string;
+  // 原图内容的 SHA-1；大小与修改时间未变时沿用上次的结果，避免重复读取
+  sourceHash: string;
+  sourceSize: number;
+  sourceMtimeMs: number;
+  meta: StampMeta;
+  // 相对导出目录，以 / 分隔
+  outputPath: string;
+  // 原图、文字、尺寸、模板与输出设置的摘要，任一变化都需要重新渲染
+  renderKey: string;
+};
+
+export type ExportManifest = {
+  version: number;
+  createdAt: string;
+  updatedAt: string;
+  baseDir: string;
+  size: ExportSizeSpec;
+  template: StampTemplate;
+  settings: ExportSettings;
+  items: ExportManifestItem[];
+};
+
+// 成品在导出目录中的位置；清单文件可能被改动过，超出导出目录（../、绝对路径）时返回 null
+export function resolveOutputPath(outputDir: string, outputPath: unknown): string | null {
+  if (typeof outputPath !== 'string' || outputPath === '' || path.isAbsolute(outputPath)) {
+    return null;
+  }
+  const resolved = path.resolve(outputDir, ...outputPath.split('/'));
+  const relative = path.relative(path.resolve(outputDir), resolved);
+  if (relative === '' || path.isAbsolute(relative) || relative.split(path.sep)[0] === '..') {
+    return null;
+  }
+  return resolved;
+}
+
+// 位置不合法的条目直接丢弃，对应的照片按新增重新导出
+export async function readExportManifest(outputDir: string): Promise<ExportManifest | null> {
+  try {
+    const raw = await fs.readFile(path.join(outputDir, EXPORT_MANIFEST_FILE), 'utf-8');
+    const parsed = JSON.parse(raw) as ExportManifest;
+    if (parsed?.version !== EXPORT_MANIFEST_VERSION || !Array.isArray(parsed.items)) {
+      return null;
+    }
+    return {
+      ...parsed,
+      items: parsed.items.filter((item) => resolveOutputPath(outputDir, item?.outputPath) !== null),
+    };
+  } catch {
+    return null;
+  }
+}
+
+function hashFile(filePath: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const hash = createHash('sha1');
+    createReadStream(filePath)
+      .on('data', (chunk) => hash.update(chunk))
+      .on('error', reject)
+      .on('end', () => resolve(hash.digest('hex')));
+  });
+}
+
+export async function readSourceFingerprint(
+  sourcePath: string,
+  previous?: ExportManifestItem,
+): Promise<Pick<ExportManifestItem, 'sourceHash' | 'sourceSize' | 'sourceMtimeMs'>> {
+  const stat = await fs.stat(sourcePath);
+  if (previous && previous.sourceSize === stat.size && previous.sourceMtimeMs === stat.mtimeMs) {
+    const { sourceHash, sourceSize, sourceMtimeMs } = previous;
+    return { sourceHash, sourceSize, sourceMtimeMs };
+  }
+  return {
+    sourceHash: await hashFile(sourcePath),
+    sourceSize: stat.size,
+    sourceMtimeMs: stat.mtimeMs,
+  };
+}
+
+// 文件名模板与分组只影响输出位置，不参与摘要：它们变化时移动文件即可
+export function computeRenderKey(input: {
+  sourceHash: string;
+  meta: StampMeta;
+  size: ExportSizeSpec;
+  template: StampTemplate;
+  settings: ExportSettings;
+}): string {
+  const { colorProfile, iccProfilePath, embedMetadata, embedLocation, output, resolution } =
+    input.settings;
+  // 编码设置为默认值时不参与摘要，加入格式选项之前的清单仍然有效；不放大小图同理
+  const encoding = {
+    ...(JSON.stringify(output) === JSON.stringify(DEFAULT_OUTPUT_FORMAT_SETTINGS) ? {} : { output }),
+    ...(resolution.upscale ? {} : { upscale: false }),
+    ...(embedMetadata && embedLocation ? { embedLocation: true } : {}),
+  };
+  return createHash('sha1')
+    .update(
+      JSON.stringify([
+        input.sourceHash,
+        input.meta,
+        input.size,
+        input.template,
+        { colorProfile, iccProfilePath, embedMetadata, ...encoding },
+      ]),
+    )
+    .digest('hex');
+}
@@ -0,0 +1,215 @@
+import os from 'node:os';
+import path from 'node:path';
+import { Worker } from 'node:worker_threads';
+import type { EncodeOptions } from './image-processor';
+import type { SheetLayout } from '../shared/print-sheet';
+import type { OutputFormat, StampMeta, StampTemplate } from '../types/project';
+
+// 交给导出 worker 渲染的任务，结果为编码好的图片数据
+export type ExportJob =
+  | {
+      kind: 'single';
+      sourcePath: string;
+      meta: StampMeta;
+      size: { width: number; height: number };
+      format: OutputFormat;
+      encode: EncodeOptions;
+      template: StampTemplate;
+      iccProfile: string;
+      density: number;
+      embedMetadata: boolean;
+      embedLocation: boolean;
+      // false 时原图小于照片区域也不放大
+      upscale: boolean;
+    }
+  | {
+      kind: 'sheet-photo';
+      sourcePath: string;
+      meta: StampMeta;
+      box: SheetLayout['box'];
+      template: StampTemplate;
+      upscale: boolean;
+    };
+
+export type ExportWorkerData = { fontRoots: string[]; threads: number };
+export type ExportJobMessage = { id: number; job: ExportJob };
+// 失败时带回错误码（如 ENOENT），主进程据此归类失败原因
+export type ExportJobReply = { id: number; buffer?: Uint8Array; error?: string; code?: string };
+
+export type ExportPool = {
+  run: (job: ExportJob) => Promise<Buffer>;
+  destroy: () => Promise<void>;
+};
+
+type PendingJob = {
+  id: number;
+  job: ExportJob;
+  resolve: (buffer: Buffer) => void;
+  reject: (error: Error) => void;
+};
+
+type PoolWorker = { worker: Worker; current: PendingJob | null };
+
+// 同时渲染的数量：留一个核心给主进程，最多 4 个（每个 worker 各自加载一份字体）
+export function resolveExportConcurrency(): number {
+  return Math.min(4, Math.max(1, os.availableParallelism() - 1));
+}
+
+export function createExportPool(size: number, fontRoots: string[]): ExportPool {
+  const workerData: ExportWorkerData = {
+    fontRoots,
+    // 各 worker 平分 libvips 线程，避免总线程数远超核心数
+    threads: Math.max(1, Math.floor(os.availableParallelism() / size)),
+  };
+  const workers: PoolWorker[] = [];
+  const queue: PendingJob[] = [];
+  let nextId = 1;
+  let destroyed = false;
+
+  const dispatch = () => {
+    for (const entry of workers) {
+      if (!entry.current && queue.length > 0) {
+        entry.current = queue.shift()!;
+        entry.worker.postMessage({
+          id: entry.current.id,
+          job: entry.current.job,
+        } satisfies ExportJobMessage);
+      }
+    }
+  };
+
+  const spawn = (): PoolWorker => {
+    const entry: PoolWorker = {
+      worker: new Worker(path.join(__dirname, 'export-worker.js'), { workerData }),
+      current: null,
+    };
+    entry.worker.on('message', (reply: ExportJobReply) => {
+      const pending = entry.current;
+      if (!pending || pending.id !== reply.id) {
+        return;
+      }
+      entry.current = null;
+      if (reply.buffer) {
+        const { buffer } = reply;
+        pending.resolve(Buffer.from(buffer.buffer, buffer.byteOffset, buffer.byteLength));
+      } else {
+        pending.reject(Object.assign(new Error(reply.error ?? '渲染失败'), { code: reply.code }));
+      }
+      dispatch();
+    });
+    // worker 异常退出（如内存不足）时当前任务记为失败，换一个新的 worker 继续
+    entry.worker.on('error', (error: Error) => {
+      entry.current?.reject(error);
+      entry.current = null;
+    });
+    entry.worker.on('exit', () => {
+      entry.current?.reject(new Error('导出进程意外退出'));
+      entry.current = null;
+      const index = workers.indexOf(entry);
+      if (index >= 0) {
+        workers.splice(index, 1);
+      }
+      if (!destroyed) {
+        workers.push(spawn());
+        dispatch();
+      }
+    });
+    return entry;
+  };
+
+  for (let index = 0; index < size; index += 1) {
+    workers.push(spawn());
+  }
+
+  return {
+    run: (job) =>
+      new Promise<Buffer>((resolve, reject) => {
+        if (destroyed) {
+          reject(new Error('导出已结束'));
+          return;
+        }
+        queue.push({ id: nextId, job, resolve, reject });
+        nextId += 1;
+        dispatch();
+      }),
+    destroy: async () => {
+      destroyed = true;
+      queue.splice(0).forEach((pending) => pending.reject(new Error('导出已结束')));
+      await Promise.all(workers.map((entry) => entry.worker.terminate()));
+    },
+  };
+}
+
+// 导出任务的暂停与取消：只影响尚未开始的照片，正在渲染的照片会完成并写入
+export type ExportControl = {
+  readonly cancelled: boolean;
+  readonly paused: boolean;
+  pause: () => void;
+  resume: () => void;
+  cancel: () => void;
+  // 暂停期间挂起，恢复后返回 true；已取消时返回 false
+  proceed: () => Promise<boolean>;
+};
+
+export function createExportControl(): ExportControl {
+  let cancelled = false;
+  let paused = false;
+  let waiters: Array<() => void> = [];
+
+  const release = () => {
+    const pending = waiters;
+    waiters = [];
+    pending.forEach((resolve) => resolve());
+  };
+
+  return {
+    get cancelled() {
+      return cancelled;
+    },
+    get paused() {
+      return paused;
+    },
+    pause: () => {
+      if (!cancelled) {
+        paused = true;
+      }
+    },
+    resume: () => {
+      paused = false;
+      release();
+    },
+    cancel: () => {
+      cancelled = true;
+      paused = false;
+      release();
+    },
+    proceed: async () => {
+      while (paused && !cancelled) {
+        await new Promise<void>((resolve) => waiters.push(resolve));
+      }
+      return !cancelled;
+    },
+  };
+}
+
+// 以 concurrency 路并发依次处理 0..count-1，返回已开始处理的数量（取消后其余的不再处理）
+export async function runExportQueue(
+  count: number,
+  concurrency: number,
+  control: ExportControl,
+  handler: (index: number) => Promise<void>,
+): Promise<number> {
+  let next = 0;
+  const lane = async () => {
+    while (next < count && (await control.proceed())) {
+      if (next >= count) {
+        break;
+      }
+      const index = next;
+      next += 1;
+      await handler(index);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(concurrency, count) }, lane));
+  return next;
+}
@@ -0,0 +1,87 @@
+import { EXPORT_FAILURE_LABELS, EXPORT_REPORT_BASENAME } from '../shared/export-report';
+import type { ExportFailureReason } from '../types/project';
+
+export type ExportReportStatus = 'exported' | 'unchanged' | 'renamed' | 'failed' | 'skipped';
+
+export type ExportReportItem = {
+  relativePath: string;
+  filename: string;
+  status: ExportReportStatus;
+  // 相对导出目录，以 / 分隔；拼版时为所在页的文件名
+  outputPath?: string;
+  reason?: ExportFailureReason;
+  message?: string;
+};
+
+export type ExportReport = {
+  createdAt: string;
+  total: number;
+  exported: number;
+  failed: number;
+  cancelled: boolean;
+  items: ExportReportItem[];
+};
+
+const STATUS_LABELS: Record<ExportReportStatus, string> = {
+  exported: '已导出',
+  unchanged: '未变',
+  renamed: '已移动',
+  failed: '失败',
+  skipped: '未处理',
+};
+
+// sharp / libvips 解码失败时的报错特征
+const UNREADABLE_PATTERN =
+  /input file|unsupported image format|vips|corrupt|premature end|bad seek|not a known file format|heif|内嵌预览/i;
+
+export function getErrorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+// stage 区分失败发生在读取渲染原图时还是写入成品时
+export function classifyExportError(error: unknown, stage: 'read' | 'write'): ExportFailureReason {
+  const code = (error as NodeJS.ErrnoException | null)?.code;
+  if (code === 'ENOSPC' || code === 'EDQUOT') {
+    return 'disk-full';
+  }
+  if (code === 'EACCES' || code === 'EPERM' || code === 'EROFS' || code === 'EBUSY') {
+    return 'permission';
+  }
+  if (stage === 'read' && (code === 'ENOENT' || code === 'EISDIR')) {
+    return 'unreadable';
+  }
+  if (stage === 'read' && UNREADABLE_PATTERN.test(getErrorMessage(error))) {
+    return 'unreadable';
+  }
+  return 'unknown';
+}
+
+const escapeCsv = (value: string) =>
+  /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+// CSV 带 BOM，Excel 直接打开不乱码
+function buildReportCsv(report: ExportReport): string {
+  const rows = [
+    ['文件', '原图路径', '状态', '输出文件', '失败原因', '错误信息'],
+    ...report.items.map((item) => [
+      item.filename,
+      item.relativePath,
+      STATUS_LABELS[item.status],
+      item.outputPath ?? '',
+      item.reason ? EXPORT_FAILURE_LABELS[item.reason] : '',
+      item.message ?? '',
+    ]),
+  ];
+  return `\ufeff${rows.map((row) => row.map(escapeCsv).join(',')).join('\r\n')}\r\n`;
+}
+
+// 报告文件：同名的 .json 与 .csv，由调用方写入输出目录或压缩包
+export function buildExportReportFiles(report: ExportReport): Array<{ name: string; data: Buffer }> {
+  return [
+    {
+      name: `${EXPORT_REPORT_BASENAME}.json`,
+      data: Buffer.from(JSON.stringify(report, null, 2), 'utf-8'),
+    },
+    { name: `${EXPORT_REPORT_BASENAME}.csv`, data: Buffer.from(buildReportCsv(report), 'utf-8') },
+  ];
+}
@@ -0,0 +1,59 @@
+// 导出 worker：在独立线程中渲染成品图，主进程只负责调度与写文件
+import { parentPort, workerData } from 'node:worker_threads';
+import sharp from 'sharp';
+import { buildSheetPhoto, buildStampedImage } from './image-processor';
+import { getErrorMessage } from './export-report';
+import { buildXmp, embedPhotoMetadata, readCaptureExif } from './photo-metadata';
+import { setFontRoots } from './stamp-text';
+import type { ExportJob, ExportJobMessage, ExportJobReply, ExportWorkerData } from './export-pool';
+
+const { fontRoots, threads } = workerData as ExportWorkerData;
+setFontRoots(fontRoots);
+sharp.concurrency(threads);
+
+async function renderJob(job: ExportJob): Promise<Buffer> {
+  if (job.kind === 'sheet-photo') {
+    return buildSheetPhoto(
+      job.sourcePath,
+      job.meta,
+      job.box,
+      job.template,
+      job.upscale ? undefined : 1,
+    );
+  }
+  const exif = job.embedMetadata ? await readCaptureExif(job.sourcePath) : null;
+  // 未选择写入位置时丢弃 GPS，成品交给冲印店也不会带出拍摄地点
+  const capture = exif && !job.embedLocation ? { ...exif, gps: [] } : exif;
+  const { format } = job;
+  const encodeXmp = job.embedMetadata && (format === 'avif' || format === 'tiff');
+  const buffer = await buildStampedImage(job.sourcePath, job.meta, job.size, {
+    includeText: true,
+    format,
+    encode: encodeXmp ? { ...job.encode, xmp: buildXmp(job.meta, capture) } : job.encode,
+    template: job.template,
+    iccProfile: job.iccProfile,
+    density: job.density,
+    maxScale: job.upscale ? undefined : 1,
+  });
+  if (!job.embedMetadata || format === 'avif' || format === 'tiff') {
+    return buffer;
+  }
+  return embedPhotoMetadata(buffer, format, {
+    caption: job.meta,
+    capture,
+    density: job.density,
+  });
+}
+
+parentPort?.on('message', ({ id, job }: ExportJobMessage) => {
+  renderJob(job).then(
+    (buffer) => parentPort?.postMessage({ id, buffer } satisfies ExportJobReply),
+    (error: unknown) => {
+      parentPort?.postMessage({
+        id,
+        error: getErrorMessage(error),
+        code: (error as NodeJS.ErrnoException | null)?.code,
+      } satisfies ExportJobReply);
+    },
+  );
+});
@@ -0,0 +1,119 @@
+import { watch, type FSWatcher } from 'node:fs';
+import type { DirectoryScan, FolderChange, ScannedPhoto } from '../types/project';
+
+// 实时监视照片目录：文件变化平息后整体重新扫描，与上一次结果比较得出新增、删除与内容变化
+// 扫描只按修改时间重新计算指纹，一次拷入很多照片也只触发少数几次；导出进行中时推迟
+
+// 渲染进程已载入的照片，第一次扫描与它比较，载入之后到开始监视之间的变化也会推送
+export type KnownPhoto = Pick<ScannedPhoto, 'relativePath' | 'fingerprint'>;
+
+export type FolderWatcher = {
+  // 开始监视新的目录，之前的监视随之停止
+  start: (baseDir: string, known: KnownPhoto[], send: (change: FolderChange) => void) => void;
+  stop: () => void;
+};
+
+// 最后一次文件事件之后等待的时间，拷贝大文件时会持续产生事件
+const SETTLE_DELAY = 800;
+const YIELD_POLL_INTERVAL = 1000;
+
+function diffScans(
+  previous: Map<string, KnownPhoto>,
+  next: Map<string, ScannedPhoto>,
+): Pick<FolderChange, 'added' | 'changed' | 'removed'> {
+  const added: ScannedPhoto[] = [];
+  const changed: ScannedPhoto[] = [];
+  for (const [relativePath, item] of next) {
+    const before = previous.get(relativePath);
+    if (!before) {
+      added.push(item);
+    } else if (before.fingerprint !== item.fingerprint) {
+      changed.push(item);
+    }
+  }
+  const removed = [...previous.keys()].filter((relativePath) => !next.has(relativePath));
+  return { added, changed, removed };
+}
+
+export function createFolderWatcher(handlers: {
+  scan: (baseDir: string) => Promise<DirectoryScan>;
+  // 为 true 时推迟扫描（如导出进行中）
+  shouldYield: () => boolean;
+}): FolderWatcher {
+  let generation = 0;
+  let watcher: FSWatcher | null = null;
+  let timer: NodeJS.Timeout | null = null;
+
+  const stop = () => {
+    generation += 1;
+    watcher?.close();
+    watcher = null;
+    if (timer) {
+      clearTimeout(timer);
+      timer = null;
+    }
+  };
+
+  const start = (
+    baseDir: string,
+    initial: KnownPhoto[],
+    send: (change: FolderChange) => void,
+  ) => {
+    stop();
+    const current = generation;
+    let known = new Map<string, KnownPhoto>(initial.map((item) => [item.relativePath, item]));
+    let scanning = false;
+
+    const schedule = (delay: number) => {
+      if (current !== generation) {
+        return;
+      }
+      if (timer) {
+        clearTimeout(timer);
+      }
+      timer = setTimeout(() => void rescan(), delay);
+    };
+
+    const rescan = async () => {
+      timer = null;
+      if (scanning || handlers.shouldYield()) {
+        schedule(YIELD_POLL_INTERVAL);
+        return;
+      }
+      scanning = true;
+      try {
+        const result = await handlers.scan(baseDir);
+        if (current !== generation) {
+          return;
+        }
+        const next = new Map(result.photos.map((item) => [item.relativePath, item]));
+        const change = diffScans(known, next);
+        if (change.added.length + change.changed.length + change.removed.length > 0) {
+          send({ baseDir, ...change, skipped: result.skipped });
+        }
+        known = next;
+      } catch (error) {
+        // 目录暂时无法访问时保留上次结果，等下一次变化
+        console.error('扫描照片目录失败', error);
+      } finally {
+        scanning = false;
+      }
+    };
+
+    try {
+      watcher = watch(baseDir, { recursive: true }, () => schedule(SETTLE_DELAY));
+      watcher.on('error', (error) => {
+        console.error('监视照片目录失败', error);
+        if (current === generation) {
+          stop();
+        }
+      });
+    } catch (error) {
+      console.error('监视照片目录失败', error);
+      return;
+    }
+    void rescan();
+  };
+
+  return { start, stop };
+}
@@ -0,0 +1,25 @@
+// HEIC 解码 worker：libheif（WASM）同步解码，放在独立线程中，避免主进程卡住
+import fs from 'node:fs/promises';
+import { parentPort } from 'node:worker_threads';
+import decodeHeic from 'heic-decode';
+import { getErrorMessage } from './export-report';
+
+export type HeicDecodeMessage = { id: number; sourcePath: string };
+export type HeicDecodeReply = {
+  id: number;
+  image?: { width: number; height: number; data: Uint8ClampedArray };
+  error?: string;
+};
+
+parentPort?.on('message', ({ id, sourcePath }: HeicDecodeMessage) => {
+  fs.readFile(sourcePath)
+    .then((buffer) => decodeHeic({ buffer }))
+    .then(
+      (image) =>
+        parentPort?.postMessage({ id, image } satisfies HeicDecodeReply, [
+          image.data.buffer as ArrayBuffer,
+        ]),
+      (error: unknown) =>
+        parentPort?.postMessage({ id, error: getErrorMessage(error) } satisfies HeicDecodeReply),
+    );
+});
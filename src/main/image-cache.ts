@@ -0,0 +1,303 @@
+import { app, protocol } from 'electron';
+import { createReadStream } from 'node:fs';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { Readable } from 'node:stream';
+import type { ImageCacheUsage } from '../types/project';
+
+// 缩略图与预览写入 userData 下的缓存目录，渲染进程通过 imgstamp:// 协议按文件名读取
+// imgstamp://thumb/<key>.jpg、imgstamp://preview/<key>.jpg；文件名为内容摘要，内容变化时换新文件名
+// 索引记录每个文件所属的照片目录、大小与最近使用时间，超出容量上限时删除最久未用的文件
+
+export const IMAGE_PROTOCOL = 'imgstamp';
+
+export type ImageCacheKind = 'thumb' | 'preview';
+
+type CacheEntry = {
+  kind: ImageCacheKind;
+  fileName: string;
+  // 生成该文件的照片目录，旧版缓存没有记录时为 null
+  baseDir: string | null;
+  size: number;
+  lastUsed: number;
+};
+
+type CacheIndexFile = {
+  version: 1;
+  limitBytes: number;
+  entries: CacheEntry[];
+};
+
+// 预览随文字编辑频繁变化，只保留最近生成的若干张
+const PREVIEW_CACHE_LIMIT = 100;
+const DEFAULT_LIMIT_BYTES = 1024 * 1024 * 1024;
+const MIN_LIMIT_BYTES = 64 * 1024 * 1024;
+const INDEX_FILE = 'index.json';
+const INDEX_SAVE_DELAY = 2000;
+
+const CACHE_FILE_PATTERN = /^[0-9a-f]{40}\.jpg$/;
+
+let cacheIndex: Promise<{ limitBytes: number; entries: Map<string, CacheEntry> }> | null = null;
+let saveTimer: NodeJS.Timeout | null = null;
+let saveQueue: Promise<void> = Promise.resolve();
+let tempSequence = 0;
+
+function getCacheRoot(): string {
+  return path.join(app.getPath('userData'), 'imgstamp-cache');
+}
+
+function getImageCacheDir(kind: ImageCacheKind): string {
+  const root = getCacheRoot();
+  return kind === 'thumb' ? root : path.join(root, 'previews');
+}
+
+function getImageCachePath(kind: ImageCacheKind, fileName: string): string {
+  return path.join(getImageCacheDir(kind), fileName);
+}
+
+const toEntryKey = (kind: ImageCacheKind, fileName: string) => `${kind}/${fileName}`;
+
+export function getImageCacheUrl(kind: ImageCacheKind, fileName: string): string {
+  return `${IMAGE_PROTOCOL}://${kind}/${fileName}`;
+}
+
+async function listCacheFiles(kind: ImageCacheKind): Promise<string[]> {
+  const names = await fs.readdir(getImageCacheDir(kind)).catch(() => [] as string[]);
+  return names.filter((name) => CACHE_FILE_PATTERN.test(name));
+}
+
+// 以磁盘上的文件为准：索引中已不存在的文件丢弃，索引外的文件（旧版缓存）补记为无归属
+async function loadIndex() {
+  let saved: Partial<CacheIndexFile> | null = null;
+  try {
+    saved = JSON.parse(await fs.readFile(path.join(getCacheRoot(), INDEX_FILE), 'utf-8'));
+  } catch {
+    saved = null;
+  }
+  const savedEntries = new Map(
+    (Array.isArray(saved?.entries) ? saved.entries : []).map((entry) => [
+      toEntryKey(entry.kind, entry.fileName),
+      entry,
+    ]),
+  );
+  const entries = new Map<string, CacheEntry>();
+  for (const kind of ['thumb', 'preview'] as const) {
+    for (const fileName of await listCacheFiles(kind)) {
+      const key = toEntryKey(kind, fileName);
+      const known = savedEntries.get(key);
+      if (known) {
+        entries.set(key, known);
+        continue;
+      }
+      const stat = await fs.stat(getImageCachePath(kind, fileName)).catch(() => null);
+      if (stat) {
+        entries.set(key, { kind, fileName, baseDir: null, size: stat.size, lastUsed: stat.mtimeMs });
+      }
+    }
+  }
+  const limitBytes =
+    typeof saved?.limitBytes === 'number' && saved.limitBytes >= MIN_LIMIT_BYTES
+      ? saved.limitBytes
+      : DEFAULT_LIMIT_BYTES;
+  return { limitBytes, entries };
+}
+
+function getIndex() {
+  if (!cacheIndex) {
+    cacheIndex = loadIndex();
+  }
+  return cacheIndex;
+}
+
+function scheduleSave(): void {
+  if (saveTimer) {
+    return;
+  }
+  saveTimer = setTimeout(() => {
+    saveTimer = null;
+    saveQueue = saveQueue.then(async () => {
+      const index = await getIndex();
+      const data: CacheIndexFile = {
+        version: 1,
+        limitBytes: index.limitBytes,
+        entries: [...index.entries.values()],
+      };
+      const filePath = path.join(getCacheRoot(), INDEX_FILE);
+      const tempPath = `${filePath}.tmp`;
+      try {
+        await fs.mkdir(getCacheRoot(), { recursive: true });
+        await fs.writeFile(tempPath, JSON.stringify(data));
+        await fs.rename(tempPath, filePath);
+      } catch (error) {
+        console.error('写入缓存索引失败', error);
+      }
+    });
+  }, INDEX_SAVE_DELAY);
+}
+
+async function removeEntries(entries: CacheEntry[]): Promise<number> {
+  const index = await getIndex();
+  let freed = 0;
+  for (const entry of entries) {
+    index.entries.delete(toEntryKey(entry.kind, entry.fileName));
+    await fs.rm(getImageCachePath(entry.kind, entry.fileName), { force: true });
+    freed += entry.size;
+  }
+  if (entries.length > 0) {
+    scheduleSave();
+  }
+  return freed;
+}
+
+// 先按数量裁剪预览，再按总容量从最久未用的文件开始删除；未超出时不排序
+async function enforceLimit(): Promise<void> {
+  const index = await getIndex();
+  const entries = [...index.entries.values()];
+  const byAge = (list: CacheEntry[]) => [...list].sort((a, b) => a.lastUsed - b.lastUsed);
+  const previews = entries.filter((entry) => entry.kind === 'preview');
+  const evicted = new Set(
+    previews.length > PREVIEW_CACHE_LIMIT
+      ? byAge(previews).slice(0, previews.length - PREVIEW_CACHE_LIMIT)
+      : [],
+  );
+  let total = entries.reduce((sum, entry) => (evicted.has(entry) ? sum : sum + entry.size), 0);
+  if (total > index.limitBytes) {
+    for (const entry of byAge(entries)) {
+      if (total <= index.limitBytes) {
+        break;
+      }
+      if (!evicted.has(entry)) {
+        evicted.add(entry);
+        total -= entry.size;
+      }
+    }
+  }
+  await removeEntries([...evicted]);
+}
+
+// 缓存命中时返回 true 并记录使用时间
+export async function touchCachedImage(kind: ImageCacheKind, fileName: string): Promise<boolean> {
+  const index = await getIndex();
+  const entry = index.entries.get(toEntryKey(kind, fileName));
+  if (!entry) {
+    return false;
+  }
+  try {
+    await fs.access(getImageCachePath(kind, fileName));
+  } catch {
+    index.entries.delete(toEntryKey(kind, fileName));
+    scheduleSave();
+    return false;
+  }
+  entry.lastUsed = Date.now();
+  scheduleSave();
+  return true;
+}
+
+export async function storeCachedImage(
+  kind: ImageCacheKind,
+  fileName: string,
+  data: Buffer,
+  baseDir: string,
+): Promise<void> {
+  const filePath = getImageCachePath(kind, fileName);
+  tempSequence += 1;
+  // 同一张图可能被并发请求，临时文件各自独立
+  const tempPath = `${filePath}.${tempSequence}.tmp`;
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.writeFile(tempPath, data);
+  await fs.rename(tempPath, filePath);
+  const index = await getIndex();
+  index.entries.set(toEntryKey(kind, fileName), {
+    kind,
+    fileName,
+    baseDir,
+    size: data.length,
+    lastUsed: Date.now(),
+  });
+  await enforceLimit();
+  scheduleSave();
+}
+
+export async function getImageCacheUsage(): Promise<ImageCacheUsage> {
+  const index = await getIndex();
+  const entries = [...index.entries.values()];
+  return {
+    totalBytes: entries.reduce((sum, entry) => sum + entry.size, 0),
+    limitBytes: index.limitBytes,
+    thumbnails: entries.filter((entry) => entry.kind === 'thumb').length,
+    previews: entries.filter((entry) => entry.kind === 'preview').length,
+    folders: new Set(entries.flatMap((entry) => (entry.baseDir ? [entry.baseDir] : []))).size,
+  };
+}
+
+export async function setImageCacheLimit(limitBytes: number): Promise<void> {
+  const index = await getIndex();
+  index.limitBytes = Math.max(MIN_LIMIT_BYTES, Math.floor(limitBytes) || DEFAULT_LIMIT_BYTES);
+  await enforceLimit();
+  scheduleSave();
+}
+
+export async function clearImageCache(): Promise<number> {
+  const index = await getIndex();
+  return removeEntries([...index.entries.values()]);
+}
+
+// 删除照片目录已不存在（项目已删除或移走）的缓存，以及没有归属记录的旧版缓存，返回释放的字节数
+// 未连接的外接硬盘、网络位置同样访问不到，所以只在用户确认后执行
+export async function removeStaleCacheEntries(): Promise<number> {
+  const index = await getIndex();
+  const folders = new Map<string | null, CacheEntry[]>();
+  for (const entry of index.entries.values()) {
+    folders.set(entry.baseDir, [...(folders.get(entry.baseDir) ?? []), entry]);
+  }
+  const stale: CacheEntry[] = [];
+  for (const [baseDir, entries] of folders) {
+    const exists = baseDir
+      ? await fs
+          .access(baseDir)
+          .then(() => true)
+          .catch(() => false)
+      : false;
+    if (!exists) {
+      stale.push(...entries);
+    }
+  }
+  return removeEntries(stale);
+}
+
+// 必须在 app ready 之前调用
+export function registerImageProtocolScheme(): void {
+  protocol.registerSchemesAsPrivileged([
+    {
+      scheme: IMAGE_PROTOCOL,
+      privileges: { standard: true, secure: true, supportFetchAPI: true, stream: true },
+    },
+  ]);
+}
+
+export function registerImageProtocol(): void {
+  protocol.handle(IMAGE_PROTOCOL, async (request) => {
+    const url = new URL(request.url);
+    const kind = url.hostname;
+    const fileName = decodeURIComponent(url.pathname.replace(/^\//, ''));
+    if ((kind !== 'thumb' && kind !== 'preview') || !CACHE_FILE_PATTERN.test(fileName)) {
+      return new Response(null, { status: 404 });
+    }
+    const filePath = getImageCachePath(kind, fileName);
+    try {
+      const stat = await fs.stat(filePath);
+      const stream = Readable.toWeb(createReadStream(filePath)) as ReadableStream<Uint8Array>;
+      return new Response(stream, {
+        headers: {
+          'Content-Type': 'image/jpeg',
+          'Content-Length': String(stat.size),
+          // 文件名随内容变化，同一地址的内容不会改变
+          'Cache-Control': 'public, max-age=31536000, immutable',
+        },
+      });
+    } catch {
+      return new Response(null, { status: 404 });
+    }
+  });
+}
@@ -1 +1,870 @@
-// 图片处理核心逻辑（后续实现）
+// 图片处理核心逻辑：排版、文字与成品图合成；不依赖 electron，可在导出 worker 中运行
+import sharp from 'sharp';
+import { openImageSource, readImageSourceSize } from './image-source';
+import { formatStampDate } from './stamp-date';
+import {
+  breakText,
+  buildTextPath,
+  findMissingGlyphs,
+  loadStampFonts,
+  measureText,
+  truncateText,
+  type StampFontSet,
+} from './stamp-text';
+import { mmToPixels } from '../shared/export-sizes';
+import { normalizePhotoCrop } from '../shared/photo-crop';
+import type { SheetLayout } from '../shared/print-sheet';
+import type {
+  CaptionFitStatus,
+  ChromaSubsampling,
+  OutputFormat,
+  PhotoCrop,
+  PhotoTransform,
+  StampField,
+  StampMeta,
+  StampTemplate,
+  TiffCompression,
+} from '../types/project';
+
+const LAYOUT_RATIOS = {
+  nonText: 0,
+} as const;
+const TYPOGRAPHY_RATIOS = {
+  paddingX: 0,
+  paddingY: 0,
+} as const;
+const TEXT_ASCENT_RATIO = 0.8;
+const TEXT_IMAGE_GAP_MIN_RATIO = 0.3;
+// 文字过长时先缩小到该比例，再换行，最后截断
+const CAPTION_MIN_FONT_RATIO = 0.75;
+const CAPTION_LINE_HEIGHT_RATIO = 1.25;
+
+type LayoutMode = 'bottom' | 'right';
+type Layout = {
+  mode: LayoutMode;
+  margins: { top: number; right: number; bottom: number; left: number };
+  imageArea: { x: number; y: number; width: number; height: number };
+  textArea: { x: number; y: number; width: number; height: number };
+};
+type SourceInfo = { width: number; height: number };
+type Typography = { fontSize: number; paddingX: number; paddingY: number };
+type Bounds = { x: number; y: number; width: number; height: number };
+type CaptionFit = {
+  status: CaptionFitStatus;
+  fontSize: number;
+  // 左侧字段行，换行时为两行（第一行可能为空）
+  leftLines: string[];
+  rightLine: string;
+  // 字体中没有字形的字符，渲染为方框
+  missingGlyphs: string[];
+};
+// 未指定时与旧版输出一致：JPEG 画质 90、4:2:0
+export type EncodeOptions = {
+  quality?: number;
+  chromaSubsampling?: ChromaSubsampling;
+  tiffCompression?: TiffCompression;
+  // AVIF / TIFF 无法在编码后插入元数据段，XMP 在编码时写入
+  xmp?: string;
+};
+
+type StampGeometry = {
+  canvasSize: { width: number; height: number };
+  layout: Layout;
+  imageRect: Bounds;
+  caption: CaptionFit | null;
+};
+
+export function resolveTransform(input?: Partial<PhotoTransform> | null): PhotoTransform {
+  const rotation = Number(input?.rotation ?? 0);
+  const normalized = ((Math.round(rotation / 90) * 90) % 360 + 360) % 360;
+  return {
+    rotation: normalized as PhotoTransform['rotation'],
+    mirrored: Boolean(input?.mirrored),
+  };
+}
+
+// 先按 EXIF Orientation 摆正，再叠加手动旋转/镜像；extract 在摆正之后执行，坐标与裁切框一致
+export async function openOrientedImage(
+  sourcePath: string,
+  transform: PhotoTransform,
+  region?: Bounds | null,
+) {
+  const image = await openImageSource(sourcePath, { autoOrient: true });
+  if (transform.rotation) {
+    image.rotate(transform.rotation);
+  }
+  if (transform.mirrored) {
+    image.flop();
+  }
+  if (region) {
+    image.extract({
+      left: region.x,
+      top: region.y,
+      width: region.width,
+      height: region.height,
+    });
+  }
+  return image;
+}
+
+export function resolveCropRegion(sourceInfo: SourceInfo | null, crop: PhotoCrop | null): Bounds | null {
+  if (!sourceInfo || !crop) {
+    return null;
+  }
+  const x = Math.min(Math.round(crop.x * sourceInfo.width), sourceInfo.width - 1);
+  const y = Math.min(Math.round(crop.y * sourceInfo.height), sourceInfo.height - 1);
+  return {
+    x,
+    y,
+    width: Math.max(1, Math.min(Math.round(crop.width * sourceInfo.width), sourceInfo.width - x)),
+    height: Math.max(
+      1,
+      Math.min(Math.round(crop.height * sourceInfo.height), sourceInfo.height - y),
+    ),
+  };
+}
+
+export async function readSourceInfo(
+  sourcePath: string,
+  transform: PhotoTransform,
+): Promise<SourceInfo | null> {
+  try {
+    const size = await readImageSourceSize(sourcePath);
+    if (size) {
+      const swapped = transform.rotation === 90 || transform.rotation === 270;
+      return swapped ? { width: size.height, height: size.width } : size;
+    }
+  } catch {
+    // ignore metadata errors
+  }
+  return null;
+}
+
+function resolveCanvasSize(
+  baseSize: { width: number; height: number },
+  sourceInfo: SourceInfo | null,
+): { width: number; height: number } {
+  if (!sourceInfo) {
+    return baseSize;
+  }
+  if (sourceInfo.height > sourceInfo.width) {
+    return { width: baseSize.height, height: baseSize.width };
+  }
+  return baseSize;
+}
+
+function resolveLayoutMode(includeText: boolean, sourceInfo: SourceInfo | null): LayoutMode {
+  if (!includeText || !sourceInfo) {
+    return 'bottom';
+  }
+  const ratio = sourceInfo.height / sourceInfo.width;
+  return ratio >= 1.8 ? 'right' : 'bottom';
+}
+
+// extraBorder 为文字换行后多出的行高
+function getTextBorder(fontSize: number, template: StampTemplate, extraBorder = 0): number {
+  const requiredBorderRatio = Math.max(
+    template.textBorderRatio,
+    TEXT_IMAGE_GAP_MIN_RATIO + 1 + template.edgeSafeRatio,
+  );
+  return Math.ceil(fontSize * requiredBorderRatio) + extraBorder;
+}
+
+function resolveImageRect(
+  sourceInfo: SourceInfo,
+  layout: Layout,
+  fontSize: number,
+  template: StampTemplate,
+  extraBorder = 0,
+): Bounds {
+  const textBorder = getTextBorder(fontSize, template, extraBorder);
+  const canvasWidth = layout.imageArea.width;
+  const canvasHeight = layout.imageArea.height;
+  const maxWidth =
+    layout.mode === 'right' ? Math.max(1, canvasWidth - textBorder) : canvasWidth;
+  const maxHeight =
+    layout.mode === 'bottom' ? Math.max(1, canvasHeight - textBorder) : canvasHeight;
+  const scale = Math.min(maxWidth / sourceInfo.width, maxHeight / sourceInfo.height);
+  const width = Math.round(sourceInfo.width * scale);
+  const height = Math.round(sourceInfo.height * scale);
+  let x = Math.round((canvasWidth - width) / 2);
+  let y = Math.round((canvasHeight - height) / 2);
+
+  if (layout.mode === 'bottom') {
+    const bottomMargin = canvasHeight - (y + height);
+    if (bottomMargin < textBorder) {
+      y -= textBorder - bottomMargin;
+    }
+  }
+
+  if (layout.mode === 'right') {
+    const rightMargin = canvasWidth - (x + width);
+    if (rightMargin < textBorder) {
+      x -= textBorder - rightMargin;
+    }
+  }
+
+  return {
+    x: layout.imageArea.x + x,
+    y: layout.imageArea.y + y,
+    width,
+    height,
+  };
+}
+
+export function getTypography(
+  canvas: { width: number; height: number },
+  template: StampTemplate,
+): Typography {
+  return {
+    fontSize: Math.round(canvas.height * template.fontSizeRatio),
+    paddingX: Math.round(canvas.width * TYPOGRAPHY_RATIOS.paddingX),
+    paddingY: Math.round(canvas.height * TYPOGRAPHY_RATIOS.paddingY),
+  };
+}
+
+function buildFieldLine(fields: StampField[], meta: StampMeta, template: StampTemplate): string {
+  return fields
+    .map((field) =>
+      field === 'date' ? formatStampDate(meta.date, template.dateFormat) : meta[field] ?? '',
+    )
+    .filter(Boolean)
+    .join(template.separator);
+}
+
+async function detectContentBounds(
+  buffer: Buffer,
+  width: number,
+  height: number,
+): Promise<Bounds | null> {
+  const maxSample = 320;
+  const scale = Math.min(1, maxSample / Math.max(width, height));
+  const sampleWidth = Math.max(1, Math.round(width * scale));
+  const sampleHeight = Math.max(1, Math.round(height * scale));
+
+  const { data, info } = await sharp(buffer)
+    .removeAlpha()
+    .resize(sampleWidth, sampleHeight, { fit: 'fill' })
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  const channels = info.channels;
+  const readPixel = (x: number, y: number) => {
+    const idx = (y * sampleWidth + x) * channels;
+    return [data[idx], data[idx + 1], data[idx + 2]];
+  };
+
+  const corners = [
+    readPixel(0, 0),
+    readPixel(sampleWidth - 1, 0),
+    readPixel(0, sampleHeight - 1),
+    readPixel(sampleWidth - 1, sampleHeight - 1),
+  ];
+  const avg = corners.reduce(
+    (acc, color) => [acc[0] + color[0], acc[1] + color[1], acc[2] + color[2]],
+    [0, 0, 0],
+  );
+  const bg = [avg[0] / corners.length, avg[1] / corners.length, avg[2] / corners.length];
+  const brightness = (bg[0] + bg[1] + bg[2]) / 3;
+  const variance =
+    corners.reduce(
+      (acc, color) =>
+        acc + Math.abs(color[0] - bg[0]) + Math.abs(color[1] - bg[1]) + Math.abs(color[2] - bg[2]),
+      0,
+    ) / corners.length;
+
+  if (brightness < 230 || variance > 12) {
+    return null;
+  }
+
+  const threshold = 60;
+  let minX = sampleWidth;
+  let minY = sampleHeight;
+  let maxX = -1;
+  let maxY = -1;
+
+  for (let y = 0; y < sampleHeight; y += 1) {
+    for (let x = 0; x < sampleWidth; x += 1) {
+      const idx = (y * sampleWidth + x) * channels;
+      const diff =
+        Math.abs(data[idx] - bg[0]) +
+        Math.abs(data[idx + 1] - bg[1]) +
+        Math.abs(data[idx + 2] - bg[2]);
+      if (diff > threshold) {
+        if (x < minX) minX = x;
+        if (y < minY) minY = y;
+        if (x > maxX) maxX = x;
+        if (y > maxY) maxY = y;
+      }
+    }
+  }
+
+  if (maxX < minX || maxY < minY) {
+    return null;
+  }
+
+  const scaleX = width / sampleWidth;
+  const scaleY = height / sampleHeight;
+  const x = Math.max(0, Math.floor(minX * scaleX));
+  const y = Math.max(0, Math.floor(minY * scaleY));
+  const w = Math.min(width, Math.ceil((maxX - minX + 1) * scaleX));
+  const h = Math.min(height, Math.ceil((maxY - minY + 1) * scaleY));
+
+  const marginLeft = x;
+  const marginRight = width - (x + w);
+  const marginTop = y;
+  const marginBottom = height - (y + h);
+  const minInset = 0.02;
+  const hasInset =
+    marginLeft > width * minInset ||
+    marginRight > width * minInset ||
+    marginTop > height * minInset ||
+    marginBottom > height * minInset;
+
+  if (!hasInset) {
+    return null;
+  }
+
+  return { x, y, width: w, height: h };
+}
+
+function buildLayout(
+  canvas: { width: number; height: number },
+  options: { includeText: boolean; mode: LayoutMode; extraBorder?: number },
+  template: StampTemplate,
+): Layout {
+  const typography = getTypography(canvas, template);
+  const textBorder = getTextBorder(typography.fontSize, template, options.extraBorder);
+  const shortSide = Math.min(canvas.width, canvas.height);
+  const margins = {
+    top: Math.round(shortSide * template.border.top),
+    right: Math.round(shortSide * template.border.right),
+    bottom: Math.round(shortSide * template.border.bottom),
+    left: Math.round(shortSide * template.border.left),
+  };
+  const imageArea = {
+    x: margins.left,
+    y: margins.top,
+    width: Math.max(1, canvas.width - margins.left - margins.right),
+    height: Math.max(1, canvas.height - margins.top - margins.bottom),
+  };
+  const textArea = options.includeText
+    ? options.mode === 'bottom'
+      ? {
+          x: imageArea.x,
+          y: imageArea.y + imageArea.height - textBorder,
+          width: imageArea.width,
+          height: textBorder,
+        }
+      : {
+          x: imageArea.x + imageArea.width - textBorder,
+          y: imageArea.y,
+          width: textBorder,
+          height: imageArea.height,
+        }
+    : { x: 0, y: 0, width: 0, height: 0 };
+
+  return {
+    mode: options.mode,
+    margins,
+    imageArea,
+    textArea,
+  };
+}
+
+// 左右字段同一行时，两者之间至少留一个字号的间隔
+function measureCaptionRow(
+  leftLine: string,
+  rightLine: string,
+  fonts: StampFontSet,
+  fontSize: number,
+): number {
+  const gap = leftLine && rightLine ? fontSize : 0;
+  return (
+    measureText(leftLine, fonts, fontSize) + measureText(rightLine, fonts, fontSize) + gap
+  );
+}
+
+// 文字过长时依次：缩小字号（不低于 CAPTION_MIN_FONT_RATIO）→ 左侧字段换为两行 → 截断补省略号
+function fitCaption(
+  leftLine: string,
+  rightLine: string,
+  baseFontSize: number,
+  available: number,
+  fonts: StampFontSet,
+): CaptionFit {
+  const missingGlyphs = findMissingGlyphs(leftLine + rightLine, fonts);
+  const baseWidth = measureCaptionRow(leftLine, rightLine, fonts, baseFontSize);
+  if (baseWidth <= available) {
+    return {
+      status: 'fit',
+      fontSize: baseFontSize,
+      leftLines: [leftLine],
+      rightLine,
+      missingGlyphs,
+    };
+  }
+  const minFontSize = Math.max(1, Math.round(baseFontSize * CAPTION_MIN_FONT_RATIO));
+  // 宽度与字号近似成正比，按比例估算后再校验一次
+  let fontSize = Math.floor((baseFontSize * available) / baseWidth);
+  while (fontSize >= minFontSize) {
+    if (measureCaptionRow(leftLine, rightLine, fonts, fontSize) <= available) {
+      return { status: 'shrunk', fontSize, leftLines: [leftLine], rightLine, missingGlyphs };
+    }
+    fontSize -= 1;
+  }
+
+  fontSize = minFontSize;
+  const right = truncateText(rightLine, fonts, fontSize, available);
+  if (!leftLine) {
+    return { status: 'truncated', fontSize, leftLines: [''], rightLine: right, missingGlyphs };
+  }
+  const rightWidth = right ? measureText(right, fonts, fontSize) + fontSize : 0;
+  const [head, tail] = breakText(leftLine, fonts, fontSize, Math.max(0, available - rightWidth));
+  if (!tail) {
+    const status = right !== rightLine ? 'truncated' : 'shrunk';
+    return { status, fontSize, leftLines: [head], rightLine: right, missingGlyphs };
+  }
+  const rest = truncateText(tail, fonts, fontSize, available);
+  return {
+    status: rest !== tail || right !== rightLine ? 'truncated' : 'wrapped',
+    fontSize,
+    leftLines: [head, rest],
+    rightLine: right,
+    missingGlyphs,
+  };
+}
+
+// 文字可用长度：底部排版为照片宽度（不超出安全边距），右侧排版为画布高度
+function getCaptionSpace(
+  layout: Layout,
+  canvas: { width: number; height: number },
+  imageRect: Bounds,
+  fontSize: number,
+  template: StampTemplate,
+): number {
+  const edgeSafe = Math.ceil(fontSize * template.edgeSafeRatio);
+  if (layout.mode === 'right') {
+    return Math.max(0, canvas.height - edgeSafe * 2);
+  }
+  const span =
+    Math.min(imageRect.x + imageRect.width, canvas.width - edgeSafe) -
+    Math.max(imageRect.x, edgeSafe);
+  return span > 0 ? span : Math.max(0, canvas.width - edgeSafe * 2);
+}
+
+// 先按单行排版，文字需要换行时加高文字侧白边后重新排版
+export function resolveStampGeometry(
+  sourceInfo: SourceInfo | null,
+  size: { width: number; height: number },
+  options: {
+    includeText: boolean;
+    template: StampTemplate;
+    meta: StampMeta;
+    fonts: StampFontSet | null;
+  },
+): StampGeometry {
+  const { includeText, template, meta, fonts } = options;
+  const canvasSize = resolveCanvasSize(size, sourceInfo);
+  const mode = resolveLayoutMode(includeText, sourceInfo);
+  const fontSize = getTypography(canvasSize, template).fontSize;
+  const leftLine = buildFieldLine(template.leftFields, meta, template);
+  const rightLine = buildFieldLine(template.rightFields, meta, template);
+  const place = (extraBorder: number): StampGeometry => {
+    const layout = buildLayout(canvasSize, { includeText, mode, extraBorder }, template);
+    const imageRect = sourceInfo
+      ? resolveImageRect(sourceInfo, layout, fontSize, template, extraBorder)
+      : layout.imageArea;
+    const caption =
+      includeText && fonts
+        ? fitCaption(
+            leftLine,
+            rightLine,
+            fontSize,
+            getCaptionSpace(layout, canvasSize, imageRect, fontSize, template),
+            fonts,
+          )
+        : null;
+    return { canvasSize, layout, imageRect, caption };
+  };
+  const geometry = place(0);
+  if (!geometry.caption || geometry.caption.leftLines.length < 2) {
+    return geometry;
+  }
+  return place(Math.ceil(geometry.caption.fontSize * CAPTION_LINE_HEIGHT_RATIO));
+}
+
+function buildPreviewSvg(
+  caption: CaptionFit,
+  layout: Layout,
+  canvas: { width: number; height: number },
+  template: StampTemplate,
+  fonts: StampFontSet,
+  imageRect?: Bounds,
+  contentRect?: Bounds,
+) {
+  const typography = getTypography(canvas, template);
+  const fontSize = caption.fontSize;
+  const isRight = layout.mode === 'right';
+  const ascent = Math.round(fontSize * TEXT_ASCENT_RATIO);
+  const descent = Math.max(1, fontSize - ascent);
+  const lineHeight = Math.round(fontSize * CAPTION_LINE_HEIGHT_RATIO);
+  const extraLines = caption.leftLines.length - 1;
+  // 间距与安全边距按模板字号计算，缩小字号时不改变留白
+  const minGap = Math.ceil(typography.fontSize * TEXT_IMAGE_GAP_MIN_RATIO);
+  const edgeSafe = Math.ceil(typography.fontSize * template.edgeSafeRatio);
+  const imageBase = imageRect ?? {
+    x: layout.imageArea.x,
+    y: layout.imageArea.y,
+    width: layout.imageArea.width,
+    height: layout.imageArea.height,
+  };
+  const contentBase = contentRect ?? imageBase;
+  const [leftLine, ...leftRest] = caption.leftLines;
+  const rightLine = caption.rightLine;
+  // 文字以路径输出，位置按字形真实宽度计算；竖排时先横向排好再绕锚点逆时针旋转 90°
+  const toPath = (text: string, x: number, baseline: number, transform = '') => {
+    const data = text ? buildTextPath(text, fonts, fontSize, x, baseline) : '';
+    return data
+      ? `<path d="${data}" fill="${template.textColor}"${transform ? ` transform="${transform}"` : ''} />`
+      : '';
+  };
+  const wrapSvg = (content: string) =>
+    `<?xml version="1.0" encoding="UTF-8"?>\n<svg xmlns="http://www.w3.org/2000/svg" width="${canvas.width}" height="${canvas.height}">\n  ${content}\n</svg>`;
+
+  if (isRight) {
+    const maxAnchorX = canvas.width - edgeSafe - descent - extraLines * lineHeight;
+    const anchorX = Math.min(
+      imageBase.x + imageBase.width + minGap + ascent,
+      maxAnchorX,
+    );
+    const edgePadding = edgeSafe;
+    const minTop = edgePadding;
+    const maxBottom = canvas.height - edgePadding;
+    const dateLine = rightLine;
+    const metaLine = leftLine;
+    const dateLength = measureText(dateLine, fonts, fontSize);
+    const metaLength = measureText(metaLine, fonts, fontSize);
+    const metaSpan = Math.max(
+      metaLength,
+      ...leftRest.map((line) => measureText(line, fonts, fontSize)),
+    );
+    const clamp = (value: number, min: number, max: number) =>
+      Math.min(Math.max(value, min), Math.max(min, max));
+    const topMax = Math.max(minTop, maxBottom - dateLength);
+    const bottomMin = Math.min(maxBottom, minTop + metaSpan);
+    let topY = clamp(contentBase.y + edgePadding, minTop, topMax);
+    let bottomY = clamp(
+      contentBase.y + contentBase.height - edgePadding,
+      bottomMin,
+      maxBottom,
+    );
+    if (dateLine && metaLine) {
+      const minGapBetween = fontSize;
+      const gap = bottomY - metaLength - (topY + dateLength);
+      if (gap < minGapBetween) {
+        topY = clamp(minTop, minTop, topMax);
+        bottomY = clamp(maxBottom, bottomMin, maxBottom);
+      }
+    }
+    // 旋转前文字在锚点处垂直居中
+    const middleOffset = (ascent - descent) / 2;
+    const dateSvg = toPath(
+      dateLine,
+      anchorX - dateLength,
+      topY + middleOffset,
+      `rotate(-90 ${anchorX} ${topY})`,
+    );
+    // 换行后的列依次排在右侧，与第一列底端对齐
+    const metaSvg = [metaLine, ...leftRest].map((line, index) => {
+      const columnX = anchorX + index * lineHeight;
+      return toPath(line, columnX, bottomY + middleOffset, `rotate(-90 ${columnX} ${bottomY})`);
+    });
+    return wrapSvg([dateSvg, ...metaSvg].filter(Boolean).join('\n  '));
+  }
+
+  const rightLength = measureText(rightLine, fonts, fontSize);
+  const rowWidth = Math.max(
+    measureCaptionRow(leftLine, rightLine, fonts, fontSize),
+    ...leftRest.map((line) => measureText(line, fonts, fontSize)),
+  );
+  // 内容区过窄放不下时退回照片宽度，再退回整幅画布
+  const spans = [contentBase, imageBase].map((bounds) => ({
+    left: Math.max(bounds.x, edgeSafe),
+    right: Math.min(bounds.x + bounds.width, canvas.width - edgeSafe),
+  }));
+  const span = spans.find((item) => item.right - item.left >= rowWidth) ?? {
+    left: edgeSafe,
+    right: canvas.width - edgeSafe,
+  };
+  const desiredTop = imageBase.y + imageBase.height + minGap;
+  const minBaseline = desiredTop + ascent;
+  const maxBaseline = canvas.height - edgeSafe - descent - extraLines * lineHeight;
+  const textY = Math.min(minBaseline, maxBaseline);
+
+  const leftSvg = [leftLine, ...leftRest].map((line, index) =>
+    toPath(line, span.left, textY + index * lineHeight),
+  );
+  return wrapSvg(
+    [...leftSvg, toPath(rightLine, span.right - rightLength, textY)].filter(Boolean).join('\n  '),
+  );
+}
+
+// TIFF 转为 16 位输出：合成仍为 8 位，但色彩配置文件转换按 16 位进行，供冲印店使用
+function encodeImage(output: sharp.Sharp, format: OutputFormat, options: EncodeOptions = {}) {
+  const quality = options.quality ?? 90;
+  // 画布是不透明的白底，叠加文字层后 libvips 会带上 alpha 通道，输出前去掉
+  output.removeAlpha();
+  if (options.xmp) {
+    output.withXmp(options.xmp);
+  }
+  switch (format) {
+    case 'png':
+      return output.png().toBuffer();
+    case 'webp':
+      return output.webp({ quality }).toBuffer();
+    case 'avif':
+      return output
+        .avif({ quality, chromaSubsampling: options.chromaSubsampling ?? '4:2:0' })
+        .toBuffer();
+    case 'tiff':
+      return output
+        .toColourspace('rgb16')
+        .tiff({
+          compression: options.tiffCompression ?? 'lzw',
+          predictor: options.tiffCompression === 'none' ? 'none' : 'horizontal',
+        })
+        .toBuffer();
+    default:
+      return output
+        .jpeg({ quality, chromaSubsampling: options.chromaSubsampling ?? '4:2:0' })
+        .toBuffer();
+  }
+}
+
+export async function buildStampedImage(
+  sourcePath: string,
+  meta: StampMeta,
+  size: { width: number; height: number },
+  options: {
+    includeText: boolean;
+    format: OutputFormat;
+    encode?: EncodeOptions;
+    template: StampTemplate;
+    iccProfile: string;
+    density?: number;
+    // 原图缩放到照片区域的倍数上限：不放大小图时为 1，预览按预览尺寸换算；不限制时照片填满区域
+    maxScale?: number;
+  },
+) {
+  const transform = resolveTransform(meta);
+  const orientedInfo = await readSourceInfo(sourcePath, transform);
+  // 裁切后的区域作为新的“原图”参与画布方向判断与排版
+  const region = resolveCropRegion(orientedInfo, normalizePhotoCrop(meta.crop));
+  const sourceInfo = region ? { width: region.width, height: region.height } : orientedInfo;
+  const fonts = options.includeText ? await loadStampFonts(options.template.fontFamily) : null;
+  const { canvasSize, layout, imageRect, caption } = resolveStampGeometry(sourceInfo, size, {
+    includeText: options.includeText,
+    template: options.template,
+    meta,
+    fonts,
+  });
+
+  const base = sharp({
+    create: {
+      width: canvasSize.width,
+      height: canvasSize.height,
+      channels: 3,
+      background: '#ffffff',
+    },
+  });
+
+  let resized: Buffer;
+  if (sourceInfo) {
+    const scale = Math.min(
+      imageRect.width / sourceInfo.width,
+      imageRect.height / sourceInfo.height,
+    );
+    if (options.maxScale !== undefined && scale > options.maxScale) {
+      // 照片按上限缩放后居中，四周补白；文字仍按补白前的区域排版，与照片内容边缘对齐
+      const width = Math.max(1, Math.round(sourceInfo.width * options.maxScale));
+      const height = Math.max(1, Math.round(sourceInfo.height * options.maxScale));
+      const left = Math.floor((imageRect.width - width) / 2);
+      const top = Math.floor((imageRect.height - height) / 2);
+      resized = await (await openOrientedImage(sourcePath, transform, region))
+        .resize(width, height, { fit: 'fill' })
+        .extend({
+          top,
+          bottom: imageRect.height - height - top,
+          left,
+          right: imageRect.width - width - left,
+          background: '#ffffff',
+        })
+        .toBuffer();
+    } else {
+      resized = await (await openOrientedImage(sourcePath, transform, region))
+        .resize(imageRect.width, imageRect.height, {
+          fit: 'fill',
+        })
+        .toBuffer();
+    }
+  } else {
+    resized = await (await openOrientedImage(sourcePath, transform))
+      .resize(layout.imageArea.width, layout.imageArea.height, {
+        fit: 'contain',
+        background: '#ffffff',
+      })
+      .toBuffer();
+  }
+
+  const overlays = [{ input: resized, top: imageRect.y, left: imageRect.x }];
+  if (caption && fonts) {
+    let contentRect: Bounds | null = null;
+    try {
+      const contentBounds = await detectContentBounds(
+        resized,
+        imageRect.width,
+        imageRect.height,
+      );
+      if (contentBounds) {
+        contentRect = {
+          x: imageRect.x + contentBounds.x,
+          y: imageRect.y + contentBounds.y,
+          width: contentBounds.width,
+          height: contentBounds.height,
+        };
+      }
+    } catch {
+      // ignore detection errors
+    }
+    const svg = buildPreviewSvg(
+      caption,
+      layout,
+      canvasSize,
+      options.template,
+      fonts,
+      imageRect,
+      contentRect ?? undefined,
+    );
+    overlays.push({ input: Buffer.from(svg), top: 0, left: 0 });
+  }
+
+  // 合成在 sRGB 下进行（sharp 读取时已按嵌入配置文件/CMYK 转换），输出时再转换到目标配置文件并嵌入
+  const output = base.composite(overlays);
+  if (options.density) {
+    output.withMetadata({ density: options.density });
+  }
+  output.withIccProfile(options.iccProfile);
+  return encodeImage(output, options.format, options.encode);
+}
+
+// 生成放进拼版格子的单张成品图，方向与格子不一致时旋转 90°
+export async function buildSheetPhoto(
+  sourcePath: string,
+  meta: StampMeta,
+  box: SheetLayout['box'],
+  template: StampTemplate,
+  maxScale?: number,
+) {
+  const buffer = await buildStampedImage(
+    sourcePath,
+    meta,
+    { width: Math.max(box.width, box.height), height: Math.min(box.width, box.height) },
+    { includeText: true, format: 'png', template, iccProfile: 'srgb', maxScale },
+  );
+  const info = await sharp(buffer).metadata();
+  const isPortrait = (info.height ?? 0) > (info.width ?? 0);
+  if (box.width === box.height || isPortrait === box.height > box.width) {
+    return buffer;
+  }
+  return sharp(buffer).rotate(90).png().toBuffer();
+}
+
+// 裁切线沿每张照片的边缘贯穿整张纸，压在照片下方，只在间距与边距中可见
+function buildCutLinesSvg(layout: SheetLayout, strokeWidth: number) {
+  const { canvas, box, slots } = layout;
+  const xs = new Set<number>();
+  const ys = new Set<number>();
+  slots.forEach((slot) => {
+    xs.add(slot.left);
+    xs.add(slot.left + box.width);
+    ys.add(slot.top);
+    ys.add(slot.top + box.height);
+  });
+  const lines = [
+    ...Array.from(xs).map((x) => `<line x1="${x}" y1="0" x2="${x}" y2="${canvas.height}" />`),
+    ...Array.from(ys).map((y) => `<line x1="0" y1="${y}" x2="${canvas.width}" y2="${y}" />`),
+  ];
+  return `<?xml version="1.0" encoding="UTF-8"?>\n<svg xmlns="http://www.w3.org/2000/svg" width="${canvas.width}" height="${canvas.height}">\n  <g stroke="#9ca3af" stroke-width="${strokeWidth}">${lines.join('')}</g>\n</svg>`;
+}
+
+export async function buildSheetImage(
+  layout: SheetLayout,
+  photos: Buffer[],
+  options: {
+    cutLines: boolean;
+    iccProfile: string;
+    density: number;
+    format: OutputFormat;
+    encode?: EncodeOptions;
+  },
+) {
+  const overlays: sharp.OverlayOptions[] = [];
+  if (options.cutLines) {
+    const strokeWidth = Math.max(1, mmToPixels(0.2, options.density));
+    overlays.push({ input: Buffer.from(buildCutLinesSvg(layout, strokeWidth)), top: 0, left: 0 });
+  }
+  photos.forEach((input, index) => {
+    overlays.push({ input, top: layout.slots[index].top, left: layout.slots[index].left });
+  });
+  const output = sharp({
+    create: {
+      width: layout.canvas.width,
+      height: layout.canvas.height,
+      channels: 3,
+      background: '#ffffff',
+    },
+  }).composite(overlays);
+  output.withMetadata({ density: options.density });
+  output.withIccProfile(options.iccProfile);
+  return encodeImage(output, options.format, options.encode);
+}
+
+// 相册封面：标题与副标题居中，字体取样式模板；标题过长时缩小到页面宽度内
+export async function buildPhotobookCover(
+  canvas: { width: number; height: number },
+  options: {
+    title: string;
+    subtitle: string;
+    template: StampTemplate;
+    iccProfile: string;
+    density: number;
+  },
+) {
+  const fonts = await loadStampFonts(options.template.fontFamily);
+  const maxWidth = canvas.width * 0.8;
+  const fitSize = (text: string, preferred: number) => {
+    const width = measureText(text, fonts, preferred);
+    return width > maxWidth ? (preferred * maxWidth) / width : preferred;
+  };
+  const centered = (text: string, fontSize: number, baseline: number, color: string) => {
+    const x = (canvas.width - measureText(text, fonts, fontSize)) / 2;
+    const data = text ? buildTextPath(text, fonts, fontSize, x, baseline) : '';
+    return data ? `<path d="${data}" fill="${color}" />` : '';
+  };
+  const titleSize = fitSize(options.title, Math.min(canvas.width, canvas.height) * 0.08);
+  const subtitleSize = fitSize(options.subtitle, titleSize * 0.4);
+  const titleBaseline = canvas.height * 0.42;
+  const svg = `<?xml version="1.0" encoding="UTF-8"?>\n<svg xmlns="http://www.w3.org/2000/svg" width="${canvas.width}" height="${canvas.height}">\n  ${[
+    centered(options.title, titleSize, titleBaseline, options.template.textColor),
+    centered(options.subtitle, subtitleSize, titleBaseline + titleSize * 1.2, '#6b7280'),
+  ]
+    .filter(Boolean)
+    .join('\n  ')}\n</svg>`;
+  const output = sharp({
+    create: { width: canvas.width, height: canvas.height, channels: 3, background: '#ffffff' },
+  }).composite([{ input: Buffer.from(svg), top: 0, left: 0 }]);
+  output.withMetadata({ density: options.density });
+  output.withIccProfile(options.iccProfile);
+  return output.jpeg({ quality: 90 }).toBuffer();
+}
@@ -0,0 +1,371 @@
+import exifr from 'exifr';
+import decodeHeic from 'heic-decode';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { isMainThread, Worker } from 'node:worker_threads';
+import sharp from 'sharp';
+import type { HeicDecodeMessage, HeicDecodeReply } from './heic-worker';
+
+// 原图读取：sharp 能直接解码的格式按路径读取（GIF、多页 TIFF 只取第一帧）
+// HEIC/HEIF 由 libheif（WASM）解码为像素，主进程中交给 heic-worker 线程
+// RAW 不做显影，取文件内嵌的最大一张 JPEG 预览
+// 只需要尺寸时读取文件头，不解码像素
+// 不依赖 electron，预览与导出 worker 共用
+
+export type ImageSourceKind = 'sharp' | 'heic' | 'raw';
+
+const SOURCE_KINDS: Record<string, ImageSourceKind> = {
+  '.jpg': 'sharp',
+  '.jpeg': 'sharp',
+  '.png': 'sharp',
+  '.webp': 'sharp',
+  '.avif': 'sharp',
+  '.tif': 'sharp',
+  '.tiff': 'sharp',
+  '.gif': 'sharp',
+  '.heic': 'heic',
+  '.heif': 'heic',
+  '.dng': 'raw',
+  '.cr2': 'raw',
+  '.cr3': 'raw',
+  '.nef': 'raw',
+  '.nrw': 'raw',
+  '.arw': 'raw',
+  '.raf': 'raw',
+  '.orf': 'raw',
+  '.rw2': 'raw',
+  '.pef': 'raw',
+  '.srw': 'raw',
+};
+
+// 按扩展名判断，不支持的格式返回 null
+export function getImageSourceKind(filePath: string): ImageSourceKind | null {
+  return SOURCE_KINDS[path.extname(filePath).toLowerCase()] ?? null;
+}
+
+type SourceInput = {
+  input: string | Buffer;
+  options?: sharp.SharpOptions;
+  // RAW 内嵌预览自带的 EXIF，用于导出时复制拍摄信息
+  exif?: Buffer;
+};
+
+// 解码结果较大（HEIC 为 RGBA 像素），只保留最近用到的几张；同一张照片的预览与导出会连续读取多次
+const DECODED_CACHE_LIMIT = 2;
+const decodedCache = new Map<string, Promise<SourceInput>>();
+
+const JPEG_SOI = Buffer.from([0xff, 0xd8, 0xff]);
+const JPEG_EOI = Buffer.from([0xff, 0xd9]);
+// 基线 / 扩展 / 渐进式 JPEG；RAW 的原始数据常以无损 JPEG（SOF3）存储，需要排除
+const PREVIEW_FRAME_MARKERS = new Set([0xc0, 0xc1, 0xc2]);
+const isFrameMarker = (marker: number) =>
+  marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc;
+
+// EXIF 方向对应的旋转与镜像（先旋转再水平镜像）
+const ORIENTATION_STEPS: Record<number, { rotate: number; flop: boolean }> = {
+  2: { rotate: 0, flop: true },
+  3: { rotate: 180, flop: false },
+  4: { rotate: 180, flop: true },
+  5: { rotate: 90, flop: true },
+  6: { rotate: 90, flop: false },
+  7: { rotate: 270, flop: true },
+  8: { rotate: 270, flop: false },
+};
+
+// 按段长度跳过文件头，到扫描数据后找结束标记；不是可用的预览时返回 null
+function findJpegEnd(file: Buffer, start: number): number | null {
+  let offset = start + 2;
+  let hasFrame = false;
+  while (offset + 4 <= file.length) {
+    if (file[offset] !== 0xff) {
+      return null;
+    }
+    const marker = file[offset + 1];
+    if (marker === 0xff) {
+      offset += 1;
+      continue;
+    }
+    const length = file.readUInt16BE(offset + 2);
+    if (isFrameMarker(marker)) {
+      if (!PREVIEW_FRAME_MARKERS.has(marker)) {
+        return null;
+      }
+      hasFrame = true;
+    }
+    if (marker === 0xda) {
+      if (!hasFrame) {
+        return null;
+      }
+      const end = file.indexOf(JPEG_EOI, offset + 2 + length);
+      return end < 0 ? null : end + 2;
+    }
+    offset += 2 + length;
+  }
+  return null;
+}
+
+function findLargestJpeg(file: Buffer): Buffer | null {
+  let best: { start: number; end: number } | null = null;
+  let offset = file.indexOf(JPEG_SOI);
+  while (offset >= 0) {
+    const end = findJpegEnd(file, offset);
+    if (end !== null && (!best || end - offset > best.end - best.start)) {
+      best = { start: offset, end };
+    }
+    offset = file.indexOf(JPEG_SOI, end ?? offset + JPEG_SOI.length);
+  }
+  // 复制出来，不让缓存持有整个 RAW 文件
+  return best ? Buffer.from(file.subarray(best.start, best.end)) : null;
+}
+
+async function extractRawPreview(sourcePath: string): Promise<SourceInput> {
+  const preview = findLargestJpeg(await fs.readFile(sourcePath));
+  if (!preview) {
+    throw new Error('RAW 文件中没有可用的内嵌预览');
+  }
+  const metadata = await sharp(preview).metadata();
+  // 内嵌预览通常不带方向标记，方向记录在 RAW 本身（CR3 等无法读取时按原样）
+  const orientation = metadata.orientation
+    ? undefined
+    : await exifr.orientation(sourcePath).catch(() => undefined);
+  const steps = orientation ? ORIENTATION_STEPS[orientation] : undefined;
+  if (!steps) {
+    return { input: preview, exif: metadata.exif };
+  }
+  const image = sharp(preview).rotate(steps.rotate);
+  if (steps.flop) {
+    image.flop();
+  }
+  const { data, info } = await image.raw().toBuffer({ resolveWithObject: true });
+  return {
+    input: data,
+    options: { raw: { width: info.width, height: info.height, channels: info.channels } },
+    exif: metadata.exif,
+  };
+}
+
+type HeicImage = { width: number; height: number; data: Uint8ClampedArray };
+
+// 主进程中共用一个解码线程，空闲时不阻止退出
+let heicWorker: Worker | null = null;
+let nextHeicJobId = 1;
+const heicJobs = new Map<
+  number,
+  { resolve: (image: HeicImage) => void; reject: (error: Error) => void }
+>();
+
+function decodeHeicInWorker(sourcePath: string): Promise<HeicImage> {
+  if (!heicWorker) {
+    const worker = new Worker(path.join(__dirname, 'heic-worker.js'));
+    worker.unref();
+    worker.on('message', ({ id, image, error }: HeicDecodeReply) => {
+      const job = heicJobs.get(id);
+      heicJobs.delete(id);
+      if (image) {
+        job?.resolve(image);
+      } else {
+        job?.reject(new Error(error ?? 'HEIC 解码失败'));
+      }
+    });
+    worker.on('error', (error) => console.error('HEIC 解码线程出错', error));
+    worker.on('exit', () => {
+      heicWorker = null;
+      heicJobs.forEach((job) => job.reject(new Error('HEIC 解码线程意外退出')));
+      heicJobs.clear();
+    });
+    heicWorker = worker;
+  }
+  const id = nextHeicJobId;
+  nextHeicJobId += 1;
+  const worker = heicWorker;
+  return new Promise((resolve, reject) => {
+    heicJobs.set(id, { resolve, reject });
+    worker.postMessage({ id, sourcePath } satisfies HeicDecodeMessage);
+  });
+}
+
+async function decodeHeicSource(sourcePath: string): Promise<SourceInput> {
+  try {
+    // libheif 解码时已按容器中的旋转/镜像摆正；导出 worker 本身不在主线程，直接解码
+    const { width, height, data } = isMainThread
+      ? await decodeHeicInWorker(sourcePath)
+      : await decodeHeic({ buffer: await fs.readFile(sourcePath) });
+    return {
+      input: Buffer.from(data.buffer, data.byteOffset, data.byteLength),
+      options: { raw: { width, height, channels: 4 } },
+    };
+  } catch {
+    // 不是 HEVC 编码（如扩展名为 .heif 的 AVIF），交给 sharp
+    return { input: sourcePath };
+  }
+}
+
+export async function resolveImageSource(sourcePath: string): Promise<SourceInput> {
+  const kind = getImageSourceKind(sourcePath);
+  if (kind !== 'heic' && kind !== 'raw') {
+    return { input: sourcePath };
+  }
+  const stat = await fs.stat(sourcePath);
+  const key = `${sourcePath}|${stat.size}|${stat.mtimeMs}`;
+  let pending = decodedCache.get(key);
+  if (pending) {
+    decodedCache.delete(key);
+  } else {
+    pending = kind === 'heic' ? decodeHeicSource(sourcePath) : extractRawPreview(sourcePath);
+    pending.catch(() => decodedCache.delete(key));
+  }
+  decodedCache.set(key, pending);
+  while (decodedCache.size > DECODED_CACHE_LIMIT) {
+    decodedCache.delete(decodedCache.keys().next().value!);
+  }
+  return pending;
+}
+
+export async function openImageSource(
+  sourcePath: string,
+  options?: sharp.SharpOptions,
+): Promise<sharp.Sharp> {
+  const source = await resolveImageSource(sourcePath);
+  const image = sharp(source.input, { ...source.options, ...options });
+  // 解码后的像素没有文件格式，不指定时 toBuffer 原样输出像素，合成时无法识别；默认改为不压缩的 PNG
+  return source.options?.raw ? image.png({ compressionLevel: 0 }) : image;
+}
+
+// ISO BMFF 的 box：type 与内容范围
+type BmffBox = { type: string; start: number; end: number };
+
+function readBoxes(data: Buffer, start: number, end: number): BmffBox[] {
+  const boxes: BmffBox[] = [];
+  let offset = start;
+  while (offset + 8 <= end) {
+    let size = data.readUInt32BE(offset);
+    let header = 8;
+    if (size === 1 && offset + 16 <= end) {
+      size = Number(data.readBigUInt64BE(offset + 8));
+      header = 16;
+    } else if (size === 0) {
+      size = end - offset;
+    }
+    if (size < header || offset + size > end) {
+      break;
+    }
+    boxes.push({
+      type: data.toString('latin1', offset + 4, offset + 8),
+      start: offset + header,
+      end: offset + size,
+    });
+    offset += size;
+  }
+  return boxes;
+}
+
+// 从 HEIF 容器的 meta 中读取主图的 ispe（尺寸）与 irot（旋转），不解码像素
+function parseHeifSize(meta: Buffer): { width: number; height: number } | null {
+  // meta 为 FullBox，子 box 从版本与标志之后开始
+  const children = readBoxes(meta, 4, meta.length);
+  const pitm = children.find((box) => box.type === 'pitm');
+  const iprp = children.find((box) => box.type === 'iprp');
+  if (!pitm || !iprp) {
+    return null;
+  }
+  const primaryId =
+    meta[pitm.start] === 0 ? meta.readUInt16BE(pitm.start + 4) : meta.readUInt32BE(pitm.start + 4);
+  const iprpChildren = readBoxes(meta, iprp.start, iprp.end);
+  const ipco = iprpChildren.find((box) => box.type === 'ipco');
+  if (!ipco) {
+    return null;
+  }
+  const properties = readBoxes(meta, ipco.start, ipco.end);
+  for (const ipma of iprpChildren.filter((box) => box.type === 'ipma')) {
+    const version = meta[ipma.start];
+    const largeIndex = (meta[ipma.start + 3] & 1) === 1;
+    let offset = ipma.start + 4;
+    const entryCount = meta.readUInt32BE(offset);
+    offset += 4;
+    for (let entry = 0; entry < entryCount && offset < ipma.end; entry += 1) {
+      const itemId = version < 1 ? meta.readUInt16BE(offset) : meta.readUInt32BE(offset);
+      offset += version < 1 ? 2 : 4;
+      const count = meta[offset];
+      offset += 1;
+      const indexes: number[] = [];
+      for (let index = 0; index < count; index += 1) {
+        indexes.push(largeIndex ? meta.readUInt16BE(offset) & 0x7fff : meta[offset] & 0x7f);
+        offset += largeIndex ? 2 : 1;
+      }
+      if (itemId !== primaryId) {
+        continue;
+      }
+      // 属性序号从 1 开始，0 表示无
+      const associated = indexes.filter((index) => index > 0).map((index) => properties[index - 1]);
+      const ispe = associated.find((box) => box?.type === 'ispe');
+      if (!ispe) {
+        return null;
+      }
+      const width = meta.readUInt32BE(ispe.start + 4);
+      const height = meta.readUInt32BE(ispe.start + 8);
+      const irot = associated.find((box) => box?.type === 'irot');
+      const quarterTurns = irot ? meta[irot.start] & 3 : 0;
+      return quarterTurns % 2 === 1 ? { width: height, height: width } : { width, height };
+    }
+  }
+  return null;
+}
+
+async function readHeifSize(sourcePath: string): Promise<{ width: number; height: number } | null> {
+  const handle = await fs.open(sourcePath, 'r');
+  try {
+    const { size } = await handle.stat();
+    const header = Buffer.alloc(16);
+    let offset = 0;
+    // 只读顶层 box 头，找到 meta 后读取它的内容
+    while (offset + 8 <= size) {
+      await handle.read(header, 0, 16, offset);
+      let boxSize = header.readUInt32BE(0);
+      let headerSize = 8;
+      if (boxSize === 1) {
+        boxSize = Number(header.readBigUInt64BE(8));
+        headerSize = 16;
+      } else if (boxSize === 0) {
+        boxSize = size - offset;
+      }
+      if (boxSize < headerSize) {
+        return null;
+      }
+      if (header.toString('latin1', 4, 8) === 'meta') {
+        const meta = Buffer.alloc(Math.min(boxSize, size - offset) - headerSize);
+        await handle.read(meta, 0, meta.length, offset + headerSize);
+        return parseHeifSize(meta);
+      }
+      offset += boxSize;
+    }
+    return null;
+  } finally {
+    await handle.close();
+  }
+}
+
+// 摆正后（EXIF 方向 / HEIF 旋转）的原图尺寸；HEIC 只读容器，不解码像素
+export async function readImageSourceSize(
+  sourcePath: string,
+): Promise<{ width: number; height: number } | null> {
+  const kind = getImageSourceKind(sourcePath);
+  if (kind === 'heic') {
+    const size = await readHeifSize(sourcePath).catch(() => null);
+    if (size) {
+      return size;
+    }
+  }
+  const image = kind === 'raw' ? await openImageSource(sourcePath) : sharp(sourcePath);
+  const metadata = await image.metadata();
+  const width = metadata.autoOrient?.width ?? metadata.width;
+  const height = metadata.autoOrient?.height ?? metadata.height;
+  return width && height ? { width, height } : null;
+}
+
+// 原图自带的 EXIF 数据段：HEIC 从容器中读取，RAW 取内嵌预览中的
+export async function readSourceExif(sourcePath: string): Promise<Buffer | undefined> {
+  if (getImageSourceKind(sourcePath) === 'raw') {
+    return (await resolveImageSource(sourcePath)).exif;
+  }
+  return (await sharp(sourcePath).metadata()).exif;
+}
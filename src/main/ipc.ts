@@ -1,11 +1,88 @@
-import { app, dialog, ipcMain, shell, BrowserWindow } from 'electron';
+import { app, dialog, ipcMain, shell, BrowserWindow, type WebContents } from 'electron';
 import fs from 'node:fs/promises';
 import path from 'node:path';
 import { createHash, randomUUID } from 'node:crypto';
 import { pathToFileURL } from 'node:url';
 import sharp from 'sharp';
 import exifr from 'exifr';
+import {
+  clearImageCache,
+  getImageCacheUrl,
+  getImageCacheUsage,
+  removeStaleCacheEntries,
+  setImageCacheLimit,
+  storeCachedImage,
+  touchCachedImage,
+} from './image-cache';
 import { setWindowTitle } from './menu';
+import { createFolderWatcher, type KnownPhoto } from './folder-watcher';
+import { getImageSourceKind } from './image-source';
+import { createPhotoIndexer } from './photo-indexer';
+import { createPdfWriter, type PdfImage, type PdfWriter } from './pdf-writer';
+import { createZipWriter } from './zip-writer';
+import {
+  createExportControl,
+  createExportPool,
+  resolveExportConcurrency,
+  runExportQueue,
+  type ExportControl,
+} from './export-pool';
+import {
+  EXPORT_MANIFEST_VERSION,
+  computeRenderKey,
+  readExportManifest,
+  readSourceFingerprint,
+  resolveOutputPath,
+  type ExportManifest,
+  type ExportManifestItem,
+} from './export-manifest';
+import {
+  buildPhotobookCover,
+  buildSheetImage,
+  buildStampedImage,
+  getTypography,
+  openOrientedImage,
+  readSourceInfo,
+  resolveCropRegion,
+  resolveStampGeometry,
+  resolveTransform,
+  type EncodeOptions,
+} from './image-processor';
+import {
+  classifyExportError,
+  getErrorMessage,
+  buildExportReportFiles,
+  type ExportReportItem,
+} from './export-report';
+import { getFontRoots, loadStampFonts, setFontRoots } from './stamp-text';
+import {
+  EXPORT_MANIFEST_FILE,
+  OUTPUT_FORMAT_EXTENSIONS,
+  planExportFiles,
+  resolveOutputFormat,
+  sanitizePathSegment,
+} from '../shared/export-naming';
+import { EXPORT_REPORT_BASENAME } from '../shared/export-report';
+import { normalizeExportSettings } from '../shared/export-settings';
+import { getExportSizePixels, resolveExportSize } from '../shared/export-sizes';
+import { normalizePhotoCrop } from '../shared/photo-crop';
+import { computePhotobookLayout, computeSheetLayout } from '../shared/print-sheet';
+import { normalizeStampTemplate } from '../shared/stamp-template';
+import type {
+  CaptionCheckResult,
+  DirectoryScan,
+  ResolutionCheckResult,
+  ExportSettings,
+  ExportFailure,
+  ExportSizeSpec,
+  ExportUpdateSummary,
+  PhotoIndexItem,
+  PhotoTransform,
+  ScannedPhoto,
+  SkippedFile,
+  StampMeta,
+  StampTemplate,
+} from '../types/project';
 
 type SaveProjectPayload = {
   projectPath: string;
@@ -15,14 +92,53 @@ type SaveProjectPayload = {
 type ExportPayload = {
   baseDir: string;
   exportDir: string;
-  size: '5' | '5L' | '6' | '6L';
+  size: ExportSizeSpec | string;
+  template?: Partial<StampTemplate>;
+  settings?: Partial<ExportSettings>;
+  // 拼版纸张或相册页面，由渲染进程从尺寸注册表解析后传入
+  sheetSize?: ExportSizeSpec;
+  // 相册的标题（封面与 PDF 文件名），一般为项目名
+  title?: string;
+  // 为 true 时 exportDir 是已有的导出目录，只处理新增、变化与取消勾选的照片
+  update?: boolean;
+  // 与 update 一起使用：只重做传入的照片（重试失败项），清单中的其余照片保持不变
+  retry?: boolean;
   items: Array<{
     relativePath: string;
     filename: string;
-    meta: { date: string | null; location: string; description: string };
+    meta: StampMeta;
   }>;
 };
 
+type ExportTask = {
+  index: number;
+  item: ExportPayload['items'][number];
+  sourcePath: string;
+  // 读取原图失败时为 null，error 为失败原因
+  entry: ExportManifestItem | null;
+  error?: unknown;
+  prev?: ExportManifestItem;
+  action: Exclude<keyof ExportUpdateSummary, 'removed'>;
+};
+
+type ExportResult = {
+  exported: number;
+  failed: number;
+  total: number;
+  outputDir: string;
+  // 导出为压缩包时的文件路径，此时 outputDir 为其所在目录
+  archivePath?: string;
+  sheets?: number;
+  // 相册导出生成的 PDF 与其页数（含封面）
+  documentPath?: string;
+  pages?: number;
+  update?: ExportUpdateSummary;
+  // 中途取消时为 true，skipped 为未处理的照片数
+  cancelled?: boolean;
+  skipped?: number;
+  failures: ExportFailure[];
+};
+
 type RecentProject = {
   name: string;
   kind: 'folder' | 'project';
@@ -31,46 +147,43 @@ type RecentProject = {
   lastOpenedAt: number;
 };
 
-type ScanResult = {
-  id: string;
-  filename: string;
-  relativePath: string;
-  fileUrl: string;
-};
-
-const IMAGE_EXTENSIONS = new Set(['.jpg', '.jpeg', '.png']);
-const EXPORT_SIZE_PX = {
-  '5': { width: 1500, height: 1050 },
-  '5L': { width: 1500, height: 1125 },
-  '6': { width: 1800, height: 1200 },
-  '6L': { width: 1800, height: 1350 },
-} as const;
-const LAYOUT_RATIOS = {
-  nonText: 0,
-} as const;
-const TYPOGRAPHY_RATIOS = {
-  font: 0.0225,
-  paddingX: 0,
-  paddingY: 0,
-} as const;
-const TEXT_ASCENT_RATIO = 0.8;
-const TEXT_IMAGE_GAP_MIN_RATIO = 0.3;
-const TEXT_BORDER_RATIO = 2.5;
-const TEXT_EDGE_SAFE_RATIO = 1.5;
+// 照片目录中常见的附属文件（项目文件、导出报告、编辑记录等），不算作未导入
+const IGNORED_EXTENSIONS = new Set(['.json', '.csv', '.xmp', '.aae', '.thm', '.db', '.ini']);
+// 导出与缓存写入过程中的临时文件
+const TEMP_FILE_SUFFIXES = ['.tmp', '.moving'];
+// 含有这些文件的目录是 ImgStamp 的导出目录
+const EXPORT_OUTPUT_MARKERS = [
+  EXPORT_MANIFEST_FILE,
+  `${EXPORT_REPORT_BASENAME}.json`,
+  `${EXPORT_REPORT_BASENAME}.csv`,
+];
 const RECENT_LIMIT = 10;
+// 原图预览的长边上限，足够高分屏下铺满预览区
+const PREVIEW_MAX_EDGE = 2048;
+// 内容指纹读取文件首尾各这么多字节
+const FINGERPRINT_SAMPLE_BYTES = 64 * 1024;
+// 内容指纹缓存的条目上限，足够覆盖一个大项目，超出时淘汰最久未用的
+const FINGERPRINT_CACHE_LIMIT = 20_000;
 const RECENT_FILE = path.join(app.getPath('userData'), 'recent-projects.json');
 
-type LayoutMode = 'bottom' | 'right';
-type Layout = {
-  mode: LayoutMode;
-  margins: { top: number; right: number; bottom: number; left: number };
-  imageArea: { x: number; y: number; width: number; height: number };
-  textArea: { x: number; y: number; width: number; height: number };
-};
-type SourceInfo = { width: number; height: number };
-type Typography = { fontSize: number; paddingX: number; paddingY: number };
-type Bounds = { x: number; y: number; width: number; height: number };
-type TextRun = { text: string; script: 'cjk' | 'latin' };
+// 同一时间只允许一个导出任务，暂停/取消作用于它
+let activeExport: ExportControl | null = null;
+// 正在写入的导出目录，扫描照片目录时跳过（清单与报告要到导出结束才写入）
+let activeExportRoot: string | null = null;
+
+// 后台索引在导出期间暂停
+const photoIndexer = createPhotoIndexer({
+  thumbnail: (baseDir, item, size) =>
+    ensureThumbnail(baseDir, item.relativePath, size, resolveTransform(item)),
+  exifDate: (baseDir, relativePath) => readExifDate(path.join(baseDir, relativePath)),
+  shouldYield: () => activeExport !== null,
+});
+
+// 打开项目期间监视照片目录，导出写入时（导出目录可能在照片目录内）推迟扫描
+const folderWatcher = createFolderWatcher({
+  scan: (baseDir) => scanImages(baseDir),
+  shouldYield: () => activeExport !== null,
+});
 
 function formatExportFolderName(date: Date): string {
   const pad = (value: number) => String(value).padStart(2, '0');
@@ -98,13 +211,92 @@ async function ensureUniqueDir(basePath: string): Promise<string> {
   return candidate;
 }
 
-async function scanImages(baseDir: string): Promise<ScanResult[]> {
-  const results: ScanResult[] = [];
+async function ensureUniqueFile(dir: string, name: string, ext: string): Promise<string> {
+  let candidate = path.join(dir, `${name}${ext}`);
+  for (let counter = 1; await pathExists(candidate); counter += 1) {
+    candidate = path.join(dir, `${name}-${counter}${ext}`);
+  }
+  return candidate;
+}
+
+// 相册中的照片直接嵌入 JPEG 数据，只需读出尺寸、通道与配置文件
+async function readPdfImage(data: Buffer): Promise<PdfImage> {
+  const info = await sharp(data).metadata();
+  return {
+    data,
+    width: info.width ?? 1,
+    height: info.height ?? 1,
+    channels: info.channels ?? 3,
+    icc: info.icc,
+  };
+}
+
+// 照片的内容指纹：文件大小加首尾各 64 KB 的摘要，重命名、移动后不变，用于重新扫描时找回照片
+// 只读取少量数据，扫描大目录也很快；按路径缓存，大小与修改时间不变时直接使用
+const fingerprintCache = new Map<string, { size: number; mtimeMs: number; fingerprint: string }>();
+
+async function readContentFingerprint(filePath: string): Promise<string> {
+  const stat = await fs.stat(filePath);
+  const cached = fingerprintCache.get(filePath);
+  if (cached) {
+    // 重新插入，Map 的顺序即最近使用的顺序
+    fingerprintCache.delete(filePath);
+    if (cached.size === stat.size && cached.mtimeMs === stat.mtimeMs) {
+      fingerprintCache.set(filePath, cached);
+      return cached.fingerprint;
+    }
+  }
+  const hash = createHash('sha1').update(String(stat.size));
+  const handle = await fs.open(filePath, 'r');
+  try {
+    const headLength = Math.min(FINGERPRINT_SAMPLE_BYTES, stat.size);
+    const tailLength = Math.min(FINGERPRINT_SAMPLE_BYTES, stat.size - headLength);
+    const sample = Buffer.alloc(headLength + tailLength);
+    await handle.read(sample, 0, headLength, 0);
+    await handle.read(sample, headLength, tailLength, stat.size - tailLength);
+    hash.update(sample);
+  } finally {
+    await handle.close();
+  }
+  const fingerprint = hash.digest('hex');
+  fingerprintCache.set(filePath, { size: stat.size, mtimeMs: stat.mtimeMs, fingerprint });
+  while (fingerprintCache.size > FINGERPRINT_CACHE_LIMIT) {
+    fingerprintCache.delete(fingerprintCache.keys().next().value!);
+  }
+  return fingerprint;
+}
+
+// 目录中有导出清单或导出报告时，视为 ImgStamp 的导出目录
+function isExportOutputDir(entries: Array<{ name: string; isFile: () => boolean }>): boolean {
+  return entries.some((entry) => entry.isFile() && EXPORT_OUTPUT_MARKERS.includes(entry.name));
+}
+
+async function scanImages(baseDir: string): Promise<DirectoryScan> {
+  const results: ScannedPhoto[] = [];
+  const skipped: SkippedFile[] = [];
 
   const walk = async (dir: string) => {
     const entries = await fs.readdir(dir, { withFileTypes: true });
+    // 导出目录在照片目录内时，其中的成品不算作照片
+    if (dir !== baseDir && (dir === activeExportRoot || isExportOutputDir(entries))) {
+      return;
+    }
+    const stemOf = (name: string) => path.parse(name).name.toLowerCase();
+    // RAW 与同名的 JPEG 等同时存在时（相机 RAW+JPEG 模式）只导入后者
+    const developed = new Set(
+      entries
+        .filter((entry) => {
+          const kind = getImageSourceKind(entry.name);
+          return entry.isFile() && kind !== null && kind !== 'raw';
+        })
+        .map((entry) => stemOf(entry.name)),
+    );
     for (const entry of entries) {
       const fullPath = path.join(dir, entry.name);
+      const isTemp = TEMP_FILE_SUFFIXES.some((suffix) => entry.name.endsWith(suffix));
+      if (entry.name.startsWith('.') || isTemp) {
+        continue;
+      }
       if (entry.isDirectory()) {
         await walk(fullPath);
         continue;
@@ -112,22 +304,32 @@ async function scanImages(baseDir: string): Promise<ScanResult[]> {
       if (!entry.isFile()) {
         continue;
       }
-      const ext = path.extname(entry.name).toLowerCase();
-      if (!IMAGE_EXTENSIONS.has(ext)) {
+      const relativePath = path.relative(baseDir, fullPath);
+      const kind = getImageSourceKind(entry.name);
+      if (!kind) {
+        if (!IGNORED_EXTENSIONS.has(path.extname(entry.name).toLowerCase())) {
+          skipped.push({ relativePath, reason: 'unsupported' });
+        }
+        continue;
+      }
+      if (kind === 'raw' && developed.has(stemOf(entry.name))) {
+        skipped.push({ relativePath, reason: 'raw-pair' });
         continue;
       }
       results.push({
         id: randomUUID(),
         filename: entry.name,
-        relativePath: path.relative(baseDir, fullPath),
+        relativePath,
         fileUrl: pathToFileURL(fullPath).toString(),
+        fingerprint: await readContentFingerprint(fullPath).catch(() => null),
       });
     }
   };
 
   await walk(baseDir);
   results.sort((a, b) => a.relativePath.localeCompare(b.relativePath));
-  return results;
+  skipped.sort((a, b) => a.relativePath.localeCompare(b.relativePath));
+  return { photos: results, skipped };
 }
 
 function formatExifDate(value: Date | string | number | null | undefined): string | null {
@@ -144,480 +346,37 @@ function formatExifDate(value: Date | string | number | null | undefined): strin
   return `${year}-${month}-${day}`;
 }
 
-async function readSourceInfo(sourcePath: string): Promise<SourceInfo | null> {
-  try {
-    const metadata = await sharp(sourcePath).metadata();
-    if (metadata.width && metadata.height) {
-      return { width: metadata.width, height: metadata.height };
-    }
-  } catch {
-    // ignore metadata errors
-  }
-  return null;
-}
-
-function resolveCanvasSize(
-  baseSize: { width: number; height: number },
-  sourceInfo: SourceInfo | null,
-): { width: number; height: number } {
-  if (!sourceInfo) {
-    return baseSize;
-  }
-  if (sourceInfo.height > sourceInfo.width) {
-    return { width: baseSize.height, height: baseSize.width };
-  }
-  return baseSize;
-}
-
-function resolveLayoutMode(includeText: boolean, sourceInfo: SourceInfo | null): LayoutMode {
-  if (!includeText || !sourceInfo) {
-    return 'bottom';
-  }
-  const ratio = sourceInfo.height / sourceInfo.width;
-  return ratio >= 1.8 ? 'right' : 'bottom';
-}
-
-function resolveImageRect(
-  sourceInfo: SourceInfo,
-  layout: Layout,
-  fontSize: number,
-): Bounds {
-  const requiredBorderRatio = Math.max(
-    TEXT_BORDER_RATIO,
-    TEXT_IMAGE_GAP_MIN_RATIO + 1 + TEXT_EDGE_SAFE_RATIO,
-  );
-  const textBorder = Math.ceil(fontSize * requiredBorderRatio);
-  const canvasWidth = layout.imageArea.width;
-  const canvasHeight = layout.imageArea.height;
-  const maxWidth =
-    layout.mode === 'right' ? Math.max(1, canvasWidth - textBorder) : canvasWidth;
-  const maxHeight =
-    layout.mode === 'bottom' ? Math.max(1, canvasHeight - textBorder) : canvasHeight;
-  const scale = Math.min(maxWidth / sourceInfo.width, maxHeight / sourceInfo.height);
-  const width = Math.round(sourceInfo.width * scale);
-  const height = Math.round(sourceInfo.height * scale);
-  let x = Math.round((canvasWidth - width) / 2);
-  let y = Math.round((canvasHeight - height) / 2);
-
-  if (layout.mode === 'bottom') {
-    const bottomMargin = canvasHeight - (y + height);
-    if (bottomMargin < textBorder) {
-      y -= textBorder - bottomMargin;
-    }
-  }
-
-  if (layout.mode === 'right') {
-    const rightMargin = canvasWidth - (x + width);
-    if (rightMargin < textBorder) {
-      x -= textBorder - rightMargin;
-    }
-  }
-
-  return {
-    x: layout.imageArea.x + x,
-    y: layout.imageArea.y + y,
-    width,
-    height,
-  };
-}
-
-function getTypography(canvas: { width: number; height: number }): Typography {
-  return {
-    fontSize: Math.round(canvas.height * TYPOGRAPHY_RATIOS.font),
-    paddingX: Math.round(canvas.width * TYPOGRAPHY_RATIOS.paddingX),
-    paddingY: Math.round(canvas.height * TYPOGRAPHY_RATIOS.paddingY),
-  };
-}
-
-function estimateTextLength(text: string, fontSize: number): number {
-  if (!text) {
-    return 0;
-  }
-  let units = 0;
-  for (const char of text) {
-    const code = char.codePointAt(0) ?? 0;
-    if (char === ' ') {
-      units += 0.3;
-    } else if (char === '|' || char === '｜') {
-      units += 0.4;
-    } else if (char === '-' || char === '·' || char === '—') {
-      units += 0.4;
-    } else if ((code >= 0x30 && code <= 0x39) || (code >= 0x41 && code <= 0x5a) || (code >= 0x61 && code <= 0x7a)) {
-      units += 0.6;
-    } else if (
-      (code >= 0x4e00 && code <= 0x9fff) ||
-      (code >= 0x3040 && code <= 0x30ff) ||
-      (code >= 0xac00 && code <= 0xd7af)
-    ) {
-      units += 1.0;
-    } else {
-      units += 0.7;
-    }
-  }
-  return units * fontSize;
-}
-
-function escapeSvgText(value: string): string {
-  return value
-    .replace(/&/g, '&amp;')
-    .replace(/</g, '&lt;')
-    .replace(/>/g, '&gt;');
-}
-
-function isCjkCode(code: number): boolean {
-  return (
-    (code >= 0x4e00 && code <= 0x9fff) ||
-    (code >= 0x3400 && code <= 0x4dbf) ||
-    (code >= 0x3040 && code <= 0x30ff) ||
-    (code >= 0xac00 && code <= 0xd7af) ||
-    (code >= 0x3000 && code <= 0x303f) ||
-    (code >= 0xff01 && code <= 0xff0f) ||
-    (code >= 0xff1a && code <= 0xff20) ||
-    (code >= 0xff3b && code <= 0xff40) ||
-    (code >= 0xff5b && code <= 0xff65) ||
-    code === 0x2013 ||
-    code === 0x2014 ||
-    code === 0x2018 ||
-    code === 0x2019 ||
-    code === 0x201c ||
-    code === 0x201d ||
-    code === 0x2026 ||
-    code === 0x00b7
-  );
-}
-
-function splitTextRuns(text: string): TextRun[] {
-  if (!text) {
-    return [];
-  }
-  const runs: TextRun[] = [];
-  let buffer = '';
-  let currentScript: TextRun['script'] | null = null;
-  for (const char of text) {
-    const code = char.codePointAt(0) ?? 0;
-    const script: TextRun['script'] = isCjkCode(code) ? 'cjk' : 'latin';
-    if (currentScript && script !== currentScript) {
-      runs.push({ text: buffer, script: currentScript });
-      buffer = '';
-    }
-    currentScript = script;
-    buffer += char;
-  }
-  if (buffer && currentScript) {
-    runs.push({ text: buffer, script: currentScript });
-  }
-  return runs;
-}
-
-function buildStyledText(text: string): string {
-  return splitTextRuns(text)
-    .map((run) => `<tspan class="${run.script}">${escapeSvgText(run.text)}</tspan>`)
-    .join('');
-}
-
-async function detectContentBounds(
-  buffer: Buffer,
-  width: number,
-  height: number,
-): Promise<Bounds | null> {
-  const maxSample = 320;
-  const scale = Math.min(1, maxSample / Math.max(width, height));
-  const sampleWidth = Math.max(1, Math.round(width * scale));
-  const sampleHeight = Math.max(1, Math.round(height * scale));
-
-  const { data, info } = await sharp(buffer)
-    .removeAlpha()
-    .resize(sampleWidth, sampleHeight, { fit: 'fill' })
-    .raw()
-    .toBuffer({ resolveWithObject: true });
-
-  const channels = info.channels;
-  const readPixel = (x: number, y: number) => {
-    const idx = (y * sampleWidth + x) * channels;
-    return [data[idx], data[idx + 1], data[idx + 2]];
-  };
-
-  const corners = [
-    readPixel(0, 0),
-    readPixel(sampleWidth - 1, 0),
-    readPixel(0, sampleHeight - 1),
-    readPixel(sampleWidth - 1, sampleHeight - 1),
-  ];
-  const avg = corners.reduce(
-    (acc, color) => [acc[0] + color[0], acc[1] + color[1], acc[2] + color[2]],
-    [0, 0, 0],
-  );
-  const bg = [avg[0] / corners.length, avg[1] / corners.length, avg[2] / corners.length];
-  const brightness = (bg[0] + bg[1] + bg[2]) / 3;
-  const variance =
-    corners.reduce(
-      (acc, color) =>
-        acc + Math.abs(color[0] - bg[0]) + Math.abs(color[1] - bg[1]) + Math.abs(color[2] - bg[2]),
-      0,
-    ) / corners.length;
-
-  if (brightness < 230 || variance > 12) {
-    return null;
-  }
-
-  const threshold = 60;
-  let minX = sampleWidth;
-  let minY = sampleHeight;
-  let maxX = -1;
-  let maxY = -1;
-
-  for (let y = 0; y < sampleHeight; y += 1) {
-    for (let x = 0; x < sampleWidth; x += 1) {
-      const idx = (y * sampleWidth + x) * channels;
-      const diff =
-        Math.abs(data[idx] - bg[0]) +
-        Math.abs(data[idx + 1] - bg[1]) +
-        Math.abs(data[idx + 2] - bg[2]);
-      if (diff > threshold) {
-        if (x < minX) minX = x;
-        if (y < minY) minY = y;
-        if (x > maxX) maxX = x;
-        if (y > maxY) maxY = y;
-      }
-    }
-  }
-
-  if (maxX < minX || maxY < minY) {
-    return null;
-  }
-
-  const scaleX = width / sampleWidth;
-  const scaleY = height / sampleHeight;
-  const x = Math.max(0, Math.floor(minX * scaleX));
-  const y = Math.max(0, Math.floor(minY * scaleY));
-  const w = Math.min(width, Math.ceil((maxX - minX + 1) * scaleX));
-  const h = Math.min(height, Math.ceil((maxY - minY + 1) * scaleY));
-
-  const marginLeft = x;
-  const marginRight = width - (x + w);
-  const marginTop = y;
-  const marginBottom = height - (y + h);
-  const minInset = 0.02;
-  const hasInset =
-    marginLeft > width * minInset ||
-    marginRight > width * minInset ||
-    marginTop > height * minInset ||
-    marginBottom > height * minInset;
-
-  if (!hasInset) {
-    return null;
-  }
-
-  return { x, y, width: w, height: h };
-}
-
-function buildLayout(
-  canvas: { width: number; height: number },
-  options: { includeText: boolean; mode: LayoutMode },
-): Layout {
-  const typography = getTypography(canvas);
-  const requiredBorderRatio = Math.max(
-    TEXT_BORDER_RATIO,
-    TEXT_IMAGE_GAP_MIN_RATIO + 1 + TEXT_EDGE_SAFE_RATIO,
-  );
-  const textBorder = Math.ceil(typography.fontSize * requiredBorderRatio);
-  const imageArea = {
-    x: 0,
-    y: 0,
-    width: canvas.width,
-    height: canvas.height,
-  };
-  const textArea = options.includeText
-    ? options.mode === 'bottom'
-      ? {
-          x: 0,
-          y: canvas.height - textBorder,
-          width: canvas.width,
-          height: textBorder,
-        }
-      : {
-          x: canvas.width - textBorder,
-          y: 0,
-          width: textBorder,
-          height: canvas.height,
-        }
-    : { x: 0, y: 0, width: 0, height: 0 };
-
-  return {
-    mode: options.mode,
-    margins: { top: 0, right: 0, bottom: 0, left: 0 },
-    imageArea,
-    textArea,
-  };
-}
-
-function buildPreviewSvg(
-  meta: { date: string | null; location: string; description: string },
-  layout: Layout,
-  canvas: { width: number; height: number },
-  imageRect?: Bounds,
-  contentRect?: Bounds,
-) {
-  const typography = getTypography(canvas);
-  const fontSize = typography.fontSize;
-  const isRight = layout.mode === 'right';
-  const ascent = Math.round(fontSize * TEXT_ASCENT_RATIO);
-  const descent = Math.max(1, fontSize - ascent);
-  const minGap = Math.ceil(fontSize * TEXT_IMAGE_GAP_MIN_RATIO);
-  const edgeSafe = Math.ceil(fontSize * TEXT_EDGE_SAFE_RATIO);
-  const imageBase = imageRect ?? {
-    x: layout.imageArea.x,
-    y: layout.imageArea.y,
-    width: layout.imageArea.width,
-    height: layout.imageArea.height,
-  };
-  const contentBase = contentRect ?? imageBase;
-  const dateText = meta.date ?? '';
-  const locationText = meta.location ?? '';
-  const descText = meta.description ?? '';
-  const leftLine = [locationText, descText].filter(Boolean).join(' · ');
-  const rightLine = dateText;
-
-  if (isRight) {
-    const maxAnchorX = canvas.width - edgeSafe - descent;
-    const anchorX = Math.min(
-      imageBase.x + imageBase.width + minGap + ascent,
-      maxAnchorX,
-    );
-    const edgePadding = edgeSafe;
-    const minTop = edgePadding;
-    const maxBottom = canvas.height - edgePadding;
-    const dateLine = rightLine;
-    const metaLine = leftLine;
-    const dateLength = estimateTextLength(meta.date ?? '', fontSize);
-    const metaLength = estimateTextLength(
-      [meta.location ?? '', meta.description ?? ''].filter(Boolean).join(' · '),
-      fontSize,
-    );
-    const clamp = (value: number, min: number, max: number) =>
-      Math.min(Math.max(value, min), Math.max(min, max));
-    const topMax = Math.max(minTop, maxBottom - dateLength);
-    const bottomMin = Math.min(maxBottom, minTop + metaLength);
-    let topY = clamp(contentBase.y + edgePadding, minTop, topMax);
-    let bottomY = clamp(
-      contentBase.y + contentBase.height - edgePadding,
-      bottomMin,
-      maxBottom,
-    );
-    if (dateLine && metaLine) {
-      const minGapBetween = fontSize;
-      const gap = bottomY - metaLength - (topY + dateLength);
-      if (gap < minGapBetween) {
-        topY = clamp(minTop, minTop, topMax);
-        bottomY = clamp(maxBottom, bottomMin, maxBottom);
-      }
-    }
-    const dateSvg = dateLine
-      ? `<text class="label" x="${anchorX}" y="${topY}" text-anchor="end" dominant-baseline="middle" transform="rotate(-90 ${anchorX} ${topY})" xml:space="preserve">${buildStyledText(dateLine)}</text>`
-      : '';
-    const metaSvg = metaLine
-      ? `<text class="label" x="${anchorX}" y="${bottomY}" text-anchor="start" dominant-baseline="middle" transform="rotate(-90 ${anchorX} ${bottomY})" xml:space="preserve">${buildStyledText(metaLine)}</text>`
-      : '';
-    return `<?xml version="1.0" encoding="UTF-8"?>\n<svg xmlns="http://www.w3.org/2000/svg" width="${canvas.width}" height="${canvas.height}">\n  <style>\n    .label { font-family: "FangSong", "FangSong_GB2312", "仿宋", "Microsoft YaHei", "Segoe UI", sans-serif; fill: #111827; font-size: ${fontSize}px; font-weight: 400; }\n    .latin { font-family: "Times New Roman", "Times", serif; }\n    .cjk { font-family: "FangSong", "FangSong_GB2312", "仿宋", "Microsoft YaHei", "Segoe UI", sans-serif; }\n  </style>\n  ${dateSvg}\n  ${metaSvg}\n</svg>`;
-  }
-
-  const bottomBounds = { left: contentBase.x, right: contentBase.x + contentBase.width };
-  let leftX = Math.max(bottomBounds.left, edgeSafe);
-  let rightX = Math.min(bottomBounds.right, canvas.width - edgeSafe);
-  if (rightX < leftX) {
-    leftX = edgeSafe;
-    rightX = canvas.width - edgeSafe;
-  }
-  const desiredTop = imageBase.y + imageBase.height + minGap;
-  const minBaseline = desiredTop + ascent;
-  const maxBaseline = canvas.height - edgeSafe - descent;
-  const textY = Math.min(minBaseline, maxBaseline);
-
-  return `<?xml version="1.0" encoding="UTF-8"?>\n<svg xmlns="http://www.w3.org/2000/svg" width="${canvas.width}" height="${canvas.height}">\n  <style>\n    .label { font-family: "FangSong", "FangSong_GB2312", "仿宋", "Microsoft YaHei", "Segoe UI", sans-serif; fill: #111827; font-size: ${fontSize}px; font-weight: 400; }\n    .latin { font-family: "Times New Roman", "Times", serif; }\n    .cjk { font-family: "FangSong", "FangSong_GB2312", "仿宋", "Microsoft YaHei", "Segoe UI", sans-serif; }\n  </style>\n  <text class="label" x="${leftX}" y="${textY}" xml:space="preserve">${buildStyledText(leftLine)}</text>\n  <text class="label" x="${rightX}" y="${textY}" text-anchor="end" xml:space="preserve">${buildStyledText(rightLine)}</text>\n</svg>`;
-}
-
-async function buildStampedImage(
-  sourcePath: string,
-  meta: { date: string | null; location: string; description: string },
-  size: { width: number; height: number },
-  options: { includeText: boolean; format: 'jpeg' | 'png'; quality?: number },
-) {
-  const sourceInfo = await readSourceInfo(sourcePath);
-  const canvasSize = resolveCanvasSize(size, sourceInfo);
-  const mode = resolveLayoutMode(options.includeText, sourceInfo);
-  const layout = buildLayout(
-    { width: canvasSize.width, height: canvasSize.height },
-    { includeText: options.includeText, mode },
-  );
-
-  const base = sharp({
-    create: {
-      width: canvasSize.width,
-      height: canvasSize.height,
-      channels: 3,
-      background: '#ffffff',
-    },
-  });
-
-  let imageRect = layout.imageArea;
-  let resized: Buffer;
-  if (sourceInfo) {
-    const typography = getTypography(canvasSize);
-    imageRect = resolveImageRect(sourceInfo, layout, typography.fontSize);
-    resized = await sharp(sourcePath)
-      .resize(imageRect.width, imageRect.height, {
-        fit: 'fill',
-      })
-      .toBuffer();
-  } else {
-    resized = await sharp(sourcePath)
-      .resize(layout.imageArea.width, layout.imageArea.height, {
-        fit: 'contain',
-        background: '#ffffff',
-      })
-      .toBuffer();
+// sharp 接受 'srgb' / 'p3' 或 ICC 文件路径；导出时自定义文件缺失直接报错，预览则回退 sRGB
+async function resolveIccProfile(
+  settings: ExportSettings,
+  options: { strict: boolean },
+): Promise<string> {
+  if (settings.colorProfile !== 'custom' || !settings.iccProfilePath) {
+    return settings.colorProfile === 'p3' ? 'p3' : 'srgb';
   }
-
-  const overlays = [{ input: resized, top: imageRect.y, left: imageRect.x }];
-  if (options.includeText) {
-    let contentRect: Bounds | null = null;
-    try {
-      const contentBounds = await detectContentBounds(
-        resized,
-        imageRect.width,
-        imageRect.height,
-      );
-      if (contentBounds) {
-        contentRect = {
-          x: imageRect.x + contentBounds.x,
-          y: imageRect.y + contentBounds.y,
-          width: contentBounds.width,
-          height: contentBounds.height,
-        };
-      }
-    } catch {
-      // ignore detection errors
+  try {
+    await fs.access(settings.iccProfilePath);
+    return settings.iccProfilePath;
+  } catch (error) {
+    if (options.strict) {
+      throw new Error(`ICC 配置文件不存在: ${settings.iccProfilePath}`);
     }
-    const svg = buildPreviewSvg(meta, layout, {
-      width: canvasSize.width,
-      height: canvasSize.height,
-    }, imageRect, contentRect ?? undefined);
-    overlays.push({ input: Buffer.from(svg), top: 0, left: 0 });
+    console.warn('ICC 配置文件不可用，预览回退到 sRGB', error);
+    return 'srgb';
   }
-
-  const output = base.composite(overlays);
-  if (options.format === 'png') {
-    return output.png().toBuffer();
-  }
-  return output.jpeg({ quality: options.quality ?? 90 }).toBuffer();
 }
 
 async function buildPreviewImage(
   sourcePath: string,
-  meta: { date: string | null; location: string; description: string },
-  options: { size: '5' | '5L' | '6' | '6L'; mode: 'final' | 'original' },
+  meta: StampMeta,
+  options: {
+    size: ExportSizeSpec | string;
+    mode: 'final' | 'original';
+    template?: Partial<StampTemplate>;
+    settings?: Partial<ExportSettings>;
+  },
 ) {
-  const exportSize = EXPORT_SIZE_PX[options.size] ?? EXPORT_SIZE_PX['5'];
+  const exportSize = getExportSizePixels(resolveExportSize(options.size));
   const previewWidth = 900;
   const scale = previewWidth / exportSize.width;
   const previewSize = {
@@ -625,24 +384,75 @@ async function buildPreviewImage(
     height: Math.round(exportSize.height * scale),
   };
 
+  const settings = normalizeExportSettings(options.settings);
   return buildStampedImage(sourcePath, meta, previewSize, {
     includeText: options.mode === 'final',
     format: 'jpeg',
-    quality: 85,
+    encode: { quality: 85 },
+    template: normalizeStampTemplate(options.template),
+    iccProfile: await resolveIccProfile(settings, { strict: false }),
+    // 不放大小图时，按导出尺寸下的上限换算到预览尺寸
+    maxScale: settings.resolution.upscale ? undefined : scale,
   });
 }
 
-async function getThumbnailPath(
+// 生成失败时返回空字符串
+async function ensureThumbnail(
+  baseDir: string,
+  relativePath: string,
+  size: number,
+  transform: PhotoTransform,
+): Promise<string> {
+  const safeSize = Number.isFinite(size) && size > 0 ? Math.floor(size) : 256;
+  try {
+    const { sourcePath, fileName } = await getThumbnailFile(
+      baseDir,
+      relativePath,
+      safeSize,
+      transform,
+    );
+    const url = getImageCacheUrl('thumb', fileName);
+    if (await touchCachedImage('thumb', fileName)) {
+      return url;
+    }
+    const buffer = await (await openOrientedImage(sourcePath, transform))
+      .resize(safeSize, safeSize, { fit: 'inside', withoutEnlargement: true })
+      .jpeg({ quality: 80 })
+      .toBuffer();
+    await storeCachedImage('thumb', fileName, buffer, baseDir);
+    return url;
+  } catch (error) {
+    console.error(error);
+    return '';
+  }
+}
+
+async function readExifDate(sourcePath: string): Promise<string | null> {
+  try {
+    const data = await exifr.parse(sourcePath, { translateValues: false });
+    return formatExifDate(data?.DateTimeOriginal || data?.CreateDate || data?.ModifyDate);
+  } catch (error) {
+    console.error(error);
+    return null;
+  }
+}
+
+// 缓存文件名包含原图的大小与修改时间，同名文件被替换后自动生成新的缩略图
+async function getThumbnailFile(
   baseDir: string,
   relativePath: string,
   size: number,
-): Promise<{ sourcePath: string; thumbPath: string }> {
-  const cacheDir = path.join(app.getPath('userData'), 'imgstamp-cache');
-  await fs.mkdir(cacheDir, { recursive: true });
-  const key = createHash('sha1').update(`${baseDir}|${relativePath}|${size}|v2`).digest('hex');
-  const thumbPath = path.join(cacheDir, `${key}.jpg`);
+  transform: PhotoTransform,
+): Promise<{ sourcePath: string; fileName: string }> {
   const sourcePath = path.join(baseDir, relativePath);
-  return { sourcePath, thumbPath };
+  const stat = await fs.stat(sourcePath);
+  const orientation = `${transform.rotation}${transform.mirrored ? 'm' : ''}`;
+  const key = createHash('sha1')
+    .update(
+      `${baseDir}|${relativePath}|${stat.size}|${stat.mtimeMs}|${size}|${orientation}|v4`,
+    )
+    .digest('hex');
+  return { sourcePath, fileName: `${key}.jpg` };
 }
 
 async function writeFileAtomic(filePath: string, data: Buffer): Promise<void> {
@@ -653,6 +463,38 @@ async function writeFileAtomic(filePath: string, data: Buffer): Promise<void> {
   await fs.rename(tempPath, filePath);
 }
 
+async function pathExists(filePath: string): Promise<boolean> {
+  try {
+    await fs.access(filePath);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function resolveExportOutput(outputRoot: string, outputPath: string): string {
+  const filePath = resolveOutputPath(outputRoot, outputPath);
+  if (!filePath) {
+    throw new Error(`导出位置超出导出目录: ${outputPath}`);
+  }
+  return filePath;
+}
+
+// 删除成品后逐级清理变空的子目录，止于导出目录本身
+async function removeExportOutput(outputRoot: string, outputPath: string): Promise<void> {
+  const filePath = resolveExportOutput(outputRoot, outputPath);
+  await fs.rm(filePath, { force: true });
+  let dir = path.dirname(filePath);
+  while (dir.startsWith(outputRoot) && path.relative(outputRoot, dir) !== '') {
+    try {
+      await fs.rmdir(dir);
+    } catch {
+      break;
+    }
+    dir = path.dirname(dir);
+  }
+}
+
 async function writeJsonAtomic(filePath: string, data: unknown): Promise<void> {
   const dir = path.dirname(filePath);
   const tempPath = path.join(dir, `${path.basename(filePath)}.tmp`);
@@ -707,7 +549,593 @@ async function upsertRecentProject(
   return next;
 }
 
+// 成品图交给 worker 池并发渲染，主进程只负责调度、写文件与清单
+async function exportPhotos(
+  sender: WebContents,
+  payload: ExportPayload,
+  control: ExportControl,
+): Promise<ExportResult> {
+  const sizeSpec = resolveExportSize(payload.size);
+  const size = getExportSizePixels(sizeSpec);
+  const template = normalizeStampTemplate(payload.template);
+  const settings = normalizeExportSettings(payload.settings);
+  const iccProfile = await resolveIccProfile(settings, { strict: true });
+  const sheetSpec = resolveExportSize(
+    payload.sheetSize ??
+      (settings.layout === 'photobook' ? settings.photobook.sizeId : settings.sheet.sizeId),
+  );
+  const sheetLayout =
+    settings.layout === 'sheet' ? computeSheetLayout(sheetSpec, sizeSpec, settings.sheet) : null;
+  const photobookLayout =
+    settings.layout === 'photobook'
+      ? computePhotobookLayout(sheetSpec, sizeSpec, settings.photobook)
+      : null;
+  if (payload.update && settings.target === 'zip') {
+    throw new Error('压缩包导出不支持更新已有导出');
+  }
+  // 更新导出：exportDir 即上次的导出目录，按其中的清单增量处理
+  const previous = payload.update ? await readExportManifest(payload.exportDir) : null;
+  if (payload.update && !previous) {
+    throw new Error('所选目录不是 ImgStamp 导出目录（缺少导出清单）');
+  }
+  if (payload.update && (sheetLayout || photobookLayout)) {
+    throw new Error('拼版与相册导出不支持更新已有导出');
+  }
+  // 压缩包内保留与文件夹导出相同的根目录与结构；相册本身就是单个 PDF，始终写入文件夹
+  const archivePath =
+    settings.target === 'zip' && !photobookLayout
+      ? await ensureUniqueFile(payload.exportDir, formatExportFolderName(new Date()), '.zip')
+      : null;
+  const outputRoot =
+    previous || archivePath
+      ? payload.exportDir
+      : await ensureUniqueDir(
+          path.join(payload.exportDir, formatExportFolderName(new Date())),
+        );
+  activeExportRoot = archivePath ? null : outputRoot;
+  const archive = archivePath ? await createZipWriter(archivePath) : null;
+  const archiveRoot = archivePath ? path.basename(archivePath, '.zip') : '';
+  // relativePath 相对导出根目录，以 / 分隔
+  const writeOutput = async (relativePath: string, data: Buffer) => {
+    if (archive) {
+      await archive.add(`${archiveRoot}/${relativePath}`, data);
+      return;
+    }
+    const filePath = resolveExportOutput(outputRoot, relativePath);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await writeFileAtomic(filePath, data);
+  };
+
+  const total = payload.items.length;
+  let completed = 0;
+  const reportProgress = (filename: string) => {
+    completed += 1;
+    sender.send('export:progress', { current: completed, total, filename });
+  };
+  // 按导出顺序记录每张照片的结果，未处理到的保持 skipped
+  const reportItems: ExportReportItem[] = payload.items.map((item) => ({
+    relativePath: item.relativePath,
+    filename: item.filename,
+    status: 'skipped',
+  }));
+  const markFailed = (index: number, error: unknown, stage: 'read' | 'write') => {
+    console.error(error);
+    reportItems[index] = {
+      ...reportItems[index],
+      status: 'failed',
+      outputPath: undefined,
+      reason: classifyExportError(error, stage),
+      message: getErrorMessage(error),
+    };
+  };
+  // 写入报告并关闭压缩包；报告写入失败不影响导出结果
+  const finishExport = async (exported: number, failed: number) => {
+    const reportFiles = buildExportReportFiles({
+      createdAt: new Date().toISOString(),
+      total,
+      exported,
+      failed,
+      cancelled: control.cancelled,
+      items: reportItems,
+    });
+    for (const file of reportFiles) {
+      try {
+        await writeOutput(file.name, file.data);
+      } catch (error) {
+        console.error('写入导出报告失败', error);
+      }
+    }
+    await archive?.finish();
+    return reportItems.flatMap((item): ExportFailure[] =>
+      item.status === 'failed'
+        ? [
+            {
+              relativePath: item.relativePath,
+              filename: item.filename,
+              reason: item.reason ?? 'unknown',
+              message: item.message ?? '',
+            },
+          ]
+        : [],
+    );
+  };
+  const encode: EncodeOptions = {
+    quality: settings.output.quality,
+    chromaSubsampling: settings.output.chromaSubsampling,
+    tiffCompression: settings.output.tiffCompression,
+  };
+  const concurrency = resolveExportConcurrency();
+  const pool = createExportPool(concurrency, getFontRoots());
+  let document: PdfWriter | null = null;
+
+  try {
+    if (photobookLayout) {
+      const book = settings.photobook;
+      const title = payload.title?.trim() || '相册';
+      const documentName = `${sanitizePathSegment(title) || '相册'}.pdf`;
+      const documentPath = path.join(outputRoot, documentName);
+      const pdf = await createPdfWriter(documentPath, { title });
+      document = pdf;
+      const toPoints = (pixels: number) => (pixels * 72) / sheetSpec.dpi;
+      const pageSize = {
+        width: toPoints(photobookLayout.canvas.width),
+        height: toPoints(photobookLayout.canvas.height),
+      };
+      let exported = 0;
+      let failed = 0;
+      let pages = 0;
+      let started = 0;
+
+      // 按拍摄日期排序时，没有日期的照片排在最后，同一时间保持项目顺序
+      const order = payload.items.map((_, index) => index);
+      if (book.order === 'date') {
+        const dateOf = (index: number) => payload.items[index].meta.date ?? '';
+        order.sort((a, b) => {
+          const left = dateOf(a);
+          const right = dateOf(b);
+          if (!left || !right) {
+            return Number(!left) - Number(!right);
+          }
+          return left < right ? -1 : left > right ? 1 : 0;
+        });
+      }
+
+      if (book.cover) {
+        const dates = payload.items
+          .map((item) => item.meta.date?.slice(0, 10) ?? '')
+          .filter(Boolean)
+          .sort();
+        const range =
+          dates.length === 0
+            ? ''
+            : dates[0] === dates[dates.length - 1]
+              ? dates[0]
+              : `${dates[0]} – ${dates[dates.length - 1]}`;
+        const cover = await buildPhotobookCover(photobookLayout.canvas, {
+          title,
+          subtitle: [range, `共 ${total} 张`].filter(Boolean).join(' · '),
+          template,
+          iccProfile,
+          density: sheetSpec.dpi,
+        });
+        await pdf.addPage({
+          ...pageSize,
+          images: [
+            {
+              image: await readPdfImage(cover),
+              left: 0,
+              top: 0,
+              ...pageSize,
+            },
+          ],
+        });
+        pages += 1;
+      }
+
+      // 照片等比缩放后在格子中居中；页码从封面之后的第一页算起
+      const writePage = async (photos: Array<{ index: number; image: PdfImage }>) => {
+        const pageNumber = photobookLayout.pageNumber;
+        await pdf.addPage({
+          ...pageSize,
+          images: photos.map(({ image }, slot) => {
+            const cell = photobookLayout.cells[slot];
+            const scale = Math.min(cell.width / image.width, cell.height / image.height);
+            const width = image.width * scale;
+            const height = image.height * scale;
+            return {
+              image,
+              left: toPoints(cell.left + (cell.width - width) / 2),
+              top: toPoints(cell.top + (cell.height - height) / 2),
+              width: toPoints(width),
+              height: toPoints(height),
+            };
+          }),
+          pageNumber: pageNumber
+            ? {
+                value: pages + (book.cover ? 0 : 1),
+                x: toPoints(pageNumber.x),
+                baseline: toPoints(pageNumber.y),
+                size: 9,
+              }
+            : undefined,
+        });
+        pages += 1;
+        exported += photos.length;
+        photos.forEach(({ index }) => {
+          reportItems[index] = { ...reportItems[index], status: 'exported', outputPath: documentName };
+        });
+      };
+
+      // 与拼版相同：每次并发渲染一页的照片，凑满一页即写入，内存中最多保留一页
+      const perPage = photobookLayout.cells.length;
+      let pending: Array<{ index: number; image: PdfImage }> = [];
+      while (started < total && !control.cancelled) {
+        const batch = order.slice(started, started + perPage);
+        const photos: Array<{ index: number; image: PdfImage } | null> = batch.map(() => null);
+        started += await runExportQueue(batch.length, concurrency, control, async (offset) => {
+          const index = batch[offset];
+          const item = payload.items[index];
+          try {
+            const buffer = await pool.run({
+              kind: 'single',
+              sourcePath: path.join(payload.baseDir, item.relativePath),
+              meta: item.meta,
+              size: photobookLayout.photo,
+              // PDF 中直接嵌入 JPEG
+              format: 'jpeg',
+              encode,
+              template,
+              iccProfile,
+              density: sheetSpec.dpi,
+              embedMetadata: false,
+              embedLocation: false,
+              upscale: settings.resolution.upscale,
+            });
+            photos[offset] = { index, image: await readPdfImage(buffer) };
+          } catch (error) {
+            failed += 1;
+            markFailed(index, error, 'read');
+          } finally {
+            reportProgress(item.filename);
+          }
+        });
+        pending.push(...photos.filter((photo) => photo !== null));
+        while (pending.length >= perPage) {
+          await writePage(pending.slice(0, perPage));
+          pending = pending.slice(perPage);
+        }
+      }
+      if (pending.length > 0) {
+        await writePage(pending);
+      }
+
+      // 一张照片都没有成功时不留下空白的 PDF
+      if (exported > 0) {
+        await pdf.finish();
+      } else {
+        await pdf.abort();
+      }
+      const failures = await finishExport(exported, failed);
+      return {
+        exported,
+        failed,
+        total,
+        outputDir: outputRoot,
+        ...(exported > 0 ? { documentPath, pages } : {}),
+        failures,
+        ...(control.cancelled ? { cancelled: true, skipped: total - started } : {}),
+      };
+    }
+
+    if (sheetLayout) {
+      let exported = 0;
+      let failed = 0;
+      let sheets = 0;
+      let started = 0;
+      let pending: Array<{ index: number; buffer: Buffer }> = [];
+
+      // 拼版没有对应的原图格式，按原图格式输出时使用 JPEG
+      const sheetFormat = settings.output.mode === 'fixed' ? settings.output.format : 'jpeg';
+      const flushSheet = async (photos: Array<{ index: number; buffer: Buffer }>) => {
+        const fileName = `拼版-${String(sheets + 1).padStart(3, '0')}${
+          OUTPUT_FORMAT_EXTENSIONS[sheetFormat]
+        }`;
+        let stage: 'read' | 'write' = 'read';
+        try {
+          const buffer = await buildSheetImage(
+            sheetLayout,
+            photos.map((photo) => photo.buffer),
+            {
+              cutLines: settings.sheet.cutLines,
+              iccProfile,
+              density: sheetSpec.dpi,
+              format: sheetFormat,
+              encode,
+            },
+          );
+          stage = 'write';
+          await writeOutput(fileName, buffer);
+          sheets += 1;
+          exported += photos.length;
+          photos.forEach(({ index }) => {
+            reportItems[index] = { ...reportItems[index], status: 'exported', outputPath: fileName };
+          });
+        } catch (error) {
+          failed += photos.length;
+          photos.forEach(({ index }) => markFailed(index, error, stage));
+        }
+      };
+
+      // 每次并发渲染一页的照片，成功的按顺序补进当前页，凑满一页即合成
+      const perPage = sheetLayout.slots.length;
+      while (started < total && !control.cancelled) {
+        const batch = payload.items.slice(started, started + perPage);
+        const batchStart = started;
+        const photos: Array<{ index: number; buffer: Buffer } | null> = batch.map(() => null);
+        started += await runExportQueue(batch.length, concurrency, control, async (offset) => {
+          const item = batch[offset];
+          try {
+            const buffer = await pool.run({
+              kind: 'sheet-photo',
+              sourcePath: path.join(payload.baseDir, item.relativePath),
+              meta: item.meta,
+              box: sheetLayout.box,
+              template,
+              upscale: settings.resolution.upscale,
+            });
+            photos[offset] = { index: batchStart + offset, buffer };
+          } catch (error) {
+            failed += 1;
+            markFailed(batchStart + offset, error, 'read');
+          } finally {
+            reportProgress(item.filename);
+          }
+        });
+        pending.push(...photos.filter((photo) => photo !== null));
+        while (pending.length >= perPage) {
+          await flushSheet(pending.slice(0, perPage));
+          pending = pending.slice(perPage);
+        }
+      }
+      if (pending.length > 0) {
+        await flushSheet(pending);
+      }
+
+      const failures = await finishExport(exported, failed);
+      return {
+        exported,
+        failed,
+        total,
+        outputDir: outputRoot,
+        ...(archivePath ? { archivePath } : {}),
+        sheets,
+        failures,
+        ...(control.cancelled ? { cancelled: true, skipped: total - started } : {}),
+      };
+    }
+
+    let exported = 0;
+    let failed = 0;
+    const plans = planExportFiles(payload.items, {
+      template: settings.fileNameTemplate,
+      grouping: settings.grouping,
+      sizeLabel: sizeSpec.label,
+      output: settings.output,
+    });
+    const previousItems = new Map(
+      (previous?.items ?? []).map((entry) => [entry.relativePath, entry]),
+    );
+    const summary: ExportUpdateSummary = {
+      added: 0,
+      updated: 0,
+      renamed: 0,
+      unchanged: 0,
+      removed: 0,
+    };
+
+    // 先确定每张照片的去向：沿用、移动或重新渲染
+    const tasks: ExportTask[] = [];
+    for (let index = 0; index < payload.items.length; index += 1) {
+      const item = payload.items[index];
+      const sourcePath = path.join(payload.baseDir, item.relativePath);
+      const outputPath = [plans[index].dir, plans[index].fileName].filter(Boolean).join('/');
+      const prev = previousItems.get(item.relativePath);
+      previousItems.delete(item.relativePath);
+      try {
+        const fingerprint = await readSourceFingerprint(sourcePath, prev);
+        const entry: ExportManifestItem = {
+          relativePath: item.relativePath,
+          ...fingerprint,
+          meta: item.meta,
+          outputPath,
+          renderKey: computeRenderKey({
+            sourceHash: fingerprint.sourceHash,
+            meta: item.meta,
+            size: sizeSpec,
+            template,
+            settings,
+          }),
+        };
+        const reusable =
+          prev?.renderKey === entry.renderKey &&
+          (await pathExists(resolveExportOutput(outputRoot, prev.outputPath)));
+        const action = !prev
+          ? 'added'
+          : !reusable
+            ? 'updated'
+            : prev.outputPath === outputPath
+              ? 'unchanged'
+              : 'renamed';
+        tasks.push({ index, item, sourcePath, entry, prev, action });
+      } catch (error) {
+        tasks.push({ index, item, sourcePath, entry: null, error, prev, action: 'updated' });
+      }
+    }
+
+    const manifestItems: ExportManifestItem[] = [];
+    // 渲染失败或未处理时保留上次的记录，下次更新会再试
+    const keepPrevious = async (prev?: ExportManifestItem) => {
+      if (prev && (await pathExists(resolveExportOutput(outputRoot, prev.outputPath)))) {
+        manifestItems.push(prev);
+      }
+    };
+
+    // 取消勾选的照片：删除成品（重试时保留）；需要重新渲染且换了位置的：删除旧文件
+    for (const stale of previousItems.values()) {
+      if (payload.retry) {
+        await keepPrevious(stale);
+        continue;
+      }
+      await removeExportOutput(outputRoot, stale.outputPath);
+      summary.removed += 1;
+    }
+    for (const task of tasks) {
+      if (
+        task.action === 'updated' &&
+        task.entry &&
+        task.prev &&
+        task.prev.outputPath !== task.entry.outputPath
+      ) {
+        await removeExportOutput(outputRoot, task.prev.outputPath);
+      }
+    }
+
+    // 移动分两步经过临时文件名，避免两张照片互换位置时相互覆盖
+    const moves = tasks.filter((task) => task.action === 'renamed');
+    for (const task of moves) {
+      const from = resolveExportOutput(outputRoot, task.prev!.outputPath);
+      await fs.rename(from, `${from}.moving`);
+    }
+    for (const task of moves) {
+      const from = resolveExportOutput(outputRoot, task.prev!.outputPath);
+      const to = resolveExportOutput(outputRoot, task.entry!.outputPath);
+      await fs.mkdir(path.dirname(to), { recursive: true });
+      await fs.rm(to, { force: true });
+      await fs.rename(`${from}.moving`, to);
+      await removeExportOutput(outputRoot, task.prev!.outputPath);
+    }
+
+    const renderTasks: ExportTask[] = [];
+    for (const task of tasks) {
+      if (task.entry && (task.action === 'unchanged' || task.action === 'renamed')) {
+        summary[task.action] += 1;
+        manifestItems.push(task.entry);
+        reportItems[task.index] = {
+          ...reportItems[task.index],
+          status: task.action,
+          outputPath: task.entry.outputPath,
+        };
+        reportProgress(task.item.filename);
+      } else {
+        renderTasks.push(task);
+      }
+    }
+
+    const started = await runExportQueue(
+      renderTasks.length,
+      concurrency,
+      control,
+      async (index) => {
+        const task = renderTasks[index];
+        const { item, sourcePath, entry, prev, action } = task;
+        let stage: 'read' | 'write' = 'read';
+        try {
+          if (!entry) {
+            throw task.error;
+          }
+          const buffer = await pool.run({
+            kind: 'single',
+            sourcePath,
+            meta: item.meta,
+            size,
+            format: resolveOutputFormat(item.relativePath, settings.output),
+            encode,
+            template,
+            iccProfile,
+            density: sizeSpec.dpi,
+            embedMetadata: settings.embedMetadata,
+            embedLocation: settings.embedLocation,
+            upscale: settings.resolution.upscale,
+          });
+          stage = 'write';
+          await writeOutput(entry.outputPath, buffer);
+          exported += 1;
+          summary[action] += 1;
+          manifestItems.push(entry);
+          reportItems[task.index] = {
+            ...reportItems[task.index],
+            status: 'exported',
+            outputPath: entry.outputPath,
+          };
+        } catch (error) {
+          failed += 1;
+          markFailed(task.index, error, stage);
+          await keepPrevious(prev);
+        } finally {
+          reportProgress(item.filename);
+        }
+      },
+    );
+    for (const task of renderTasks.slice(started)) {
+      await keepPrevious(task.prev);
+    }
+
+    // 按导出顺序记录，取消后可用“更新导出”补齐；重试时沿用原清单的顺序
+    const order = new Map<string, number>();
+    [
+      ...(payload.retry ? (previous?.items ?? []) : []),
+      ...payload.items,
+    ].forEach((item) => {
+      if (!order.has(item.relativePath)) {
+        order.set(item.relativePath, order.size);
+      }
+    });
+    manifestItems.sort(
+      (a, b) =>
+        (order.get(a.relativePath) ?? Number.MAX_SAFE_INTEGER) -
+        (order.get(b.relativePath) ?? Number.MAX_SAFE_INTEGER),
+    );
+    const now = new Date().toISOString();
+    const manifest: ExportManifest = {
+      version: EXPORT_MANIFEST_VERSION,
+      createdAt: previous?.createdAt ?? now,
+      updatedAt: now,
+      baseDir: payload.baseDir,
+      size: sizeSpec,
+      template,
+      settings,
+      items: manifestItems,
+    };
+    await writeOutput(EXPORT_MANIFEST_FILE, Buffer.from(JSON.stringify(manifest, null, 2)));
+    const failures = await finishExport(exported, failed);
+
+    return {
+      exported,
+      failed,
+      total,
+      outputDir: outputRoot,
+      ...(archivePath ? { archivePath } : {}),
+      failures,
+      ...(previous ? { update: summary } : {}),
+      ...(control.cancelled ? { cancelled: true, skipped: renderTasks.length - started } : {}),
+    };
+  } catch (error) {
+    await archive?.abort();
+    await document?.abort();
+    throw error;
+  } finally {
+    await pool.destroy();
+  }
+}
+
 export function registerIpcHandlers(): void {
+  setFontRoots([
+    path.join(app.getAppPath(), 'assets', 'fonts'),
+    path.resolve(__dirname, '../../assets/fonts'),
+    path.join(process.resourcesPath ?? '', 'assets', 'fonts'),
+    path.join(process.cwd(), 'assets', 'fonts'),
+  ]);
+
   ipcMain.handle('recent:list', async () => readRecentProjects());
 
   ipcMain.handle(
@@ -753,6 +1181,26 @@ export function registerIpcHandlers(): void {
     return result.filePaths[0];
   });
 
+  ipcMain.handle('export:hasManifest', async (_event, outputDir: string) => {
+    if (!outputDir) {
+      return false;
+    }
+    return (await readExportManifest(outputDir)) !== null;
+  });
+
+  ipcMain.handle('dialog:openIccProfile', async () => {
+    const result = await dialog.showOpenDialog({
+      properties: ['openFile'],
+      filters: [{ name: 'ICC 配置文件', extensions: ['icc', 'icm'] }],
+    });
+
+    if (result.canceled || result.filePaths.length === 0) {
+      return null;
+    }
+
+    return result.filePaths[0];
+  });
+
   ipcMain.handle('app:setTitle', async (event, projectName: string) => {
     const window = BrowserWindow.fromWebContents(event.sender);
     setWindowTitle(window, projectName || '未命名项目');
@@ -776,47 +1224,20 @@ export function registerIpcHandlers(): void {
 
   ipcMain.handle(
     'image:thumbnail',
-    async (_event, baseDir: string, relativePath: string, size: number) => {
+    async (
+      _event,
+      baseDir: string,
+      relativePath: string,
+      size: number,
+      orientation?: Partial<PhotoTransform>,
+    ) => {
       if (!baseDir || !relativePath) {
         throw new Error('参数不能为空');
       }
 
-      const safeSize = Number.isFinite(size) && size > 0 ? Math.floor(size) : 256;
-      const { sourcePath, thumbPath } = await getThumbnailPath(baseDir, relativePath, safeSize);
-      const outputMime = 'image/jpeg';
-
-      try {
-        const cached = await fs.readFile(thumbPath);
-        try {
-          await sharp(cached).metadata();
-          return `data:${outputMime};base64,${cached.toString('base64')}`;
-        } catch (error) {
-          console.warn('缩略图缓存损坏，尝试重建', thumbPath, error);
-          await fs.rm(thumbPath, { force: true });
-        }
-      } catch {
-        // ignore
-      }
-
-      try {
-        const buffer = await sharp(sourcePath)
-          .resize(safeSize, safeSize, { fit: 'inside', withoutEnlargement: true })
-          .jpeg({ quality: 80 })
-          .toBuffer();
-        await writeFileAtomic(thumbPath, buffer);
-        return `data:${outputMime};base64,${buffer.toString('base64')}`;
-      } catch (error) {
-        console.error(error);
-        try {
-          const ext = path.extname(sourcePath).toLowerCase();
-          const fallbackMime = ext === '.png' ? 'image/png' : 'image/jpeg';
-          const buffer = await fs.readFile(sourcePath);
-          return `data:${fallbackMime};base64,${buffer.toString('base64')}`;
-        } catch (readError) {
-          console.error(readError);
-          return '';
-        }
-      }
+      return photoIndexer.runOnDemand(() =>
+        ensureThumbnail(baseDir, relativePath, size, resolveTransform(orientation)),
+      );
     },
   );
 
@@ -824,14 +1245,50 @@ export function registerIpcHandlers(): void {
     if (!baseDir || !relativePath) {
       throw new Error('参数不能为空');
     }
-    const sourcePath = path.join(baseDir, relativePath);
-    try {
-      const data = await exifr.parse(sourcePath, { translateValues: false });
-      return formatExifDate(data?.DateTimeOriginal || data?.CreateDate || data?.ModifyDate);
-    } catch (error) {
-      console.error(error);
-      return null;
+    return photoIndexer.runOnDemand(() => readExifDate(path.join(baseDir, relativePath)));
+  });
+
+  ipcMain.handle(
+    'indexer:start',
+    async (event, baseDir: string, items: PhotoIndexItem[], thumbnailSize: number) => {
+      if (!baseDir || !Array.isArray(items)) {
+        throw new Error('参数不能为空');
+      }
+      const sender = event.sender;
+      photoIndexer.start(baseDir, items, thumbnailSize, (progress) => {
+        if (sender.isDestroyed()) {
+          photoIndexer.stop();
+          return;
+        }
+        sender.send('indexer:progress', progress);
+      });
+      return true;
+    },
+  );
+
+  ipcMain.handle('indexer:stop', async () => {
+    photoIndexer.stop();
+    return true;
+  });
+
+  ipcMain.handle('watcher:start', async (event, baseDir: string, known: KnownPhoto[]) => {
+    if (!baseDir || !Array.isArray(known)) {
+      throw new Error('参数不能为空');
     }
+    const sender = event.sender;
+    folderWatcher.start(baseDir, known, (change) => {
+      if (sender.isDestroyed()) {
+        folderWatcher.stop();
+        return;
+      }
+      sender.send('watcher:change', change);
+    });
+    return true;
+  });
+
+  ipcMain.handle('watcher:stop', async () => {
+    folderWatcher.stop();
+    return true;
   });
 
   ipcMain.handle(
@@ -840,70 +1297,174 @@ export function registerIpcHandlers(): void {
       _event,
       baseDir: string,
       relativePath: string,
-      meta: { date: string | null; location: string; description: string },
-      options: { size: '5' | '5L' | '6' | '6L'; mode: 'final' | 'original' },
+      meta: StampMeta,
+      options: {
+        size: ExportSizeSpec | string;
+        mode: 'final' | 'original';
+        template?: Partial<StampTemplate>;
+        settings?: Partial<ExportSettings>;
+      },
     ) => {
       if (!baseDir || !relativePath) {
         throw new Error('参数不能为空');
       }
       const sourcePath = path.join(baseDir, relativePath);
-      try {
-        if (options.mode === 'original') {
-          const ext = path.extname(sourcePath).toLowerCase();
-          const mime = ext === '.png' ? 'image/png' : 'image/jpeg';
-          const buffer = await fs.readFile(sourcePath);
-          return `data:${mime};base64,${buffer.toString('base64')}`;
+      return photoIndexer.runOnDemand(async () => {
+        try {
+          const stat = await fs.stat(sourcePath);
+          const transform = resolveTransform(meta);
+          const iccProfile = await resolveIccProfile(normalizeExportSettings(options.settings), {
+            strict: false,
+          });
+          // 原图预览只取决于方向与色彩配置文件，成品预览取决于全部参数
+          const key = createHash('sha1')
+            .update(
+              JSON.stringify([
+                sourcePath,
+                stat.size,
+                stat.mtimeMs,
+                options.mode === 'original' ? [transform, iccProfile] : [meta, options],
+              ]),
+            )
+            .digest('hex');
+          const fileName = `${key}.jpg`;
+          if (await touchCachedImage('preview', fileName)) {
+            return getImageCacheUrl('preview', fileName);
+          }
+          // 原图只输出适合屏幕显示的尺寸，不把整张原图交给渲染进程
+          const buffer =
+            options.mode === 'original'
+              ? await (await openOrientedImage(sourcePath, transform))
+                  .resize(PREVIEW_MAX_EDGE, PREVIEW_MAX_EDGE, {
+                    fit: 'inside',
+                    withoutEnlargement: true,
+                  })
+                  .flatten({ background: '#ffffff' })
+                  .withIccProfile(iccProfile)
+                  .jpeg({ quality: 90 })
+                  .toBuffer()
+              : await buildPreviewImage(sourcePath, meta, options);
+          await storeCachedImage('preview', fileName, buffer, baseDir);
+          return getImageCacheUrl('preview', fileName);
+        } catch (error) {
+          console.error(error);
+          return '';
         }
-        const buffer = await buildPreviewImage(sourcePath, meta, options);
-        return `data:image/jpeg;base64,${buffer.toString('base64')}`;
-      } catch (error) {
-        console.error(error);
-        return '';
-      }
+      });
     },
   );
 
-  ipcMain.handle('export:start', async (event, payload: ExportPayload) => {
-    if (!payload?.baseDir || !payload?.exportDir) {
-      throw new Error('参数不能为空');
-    }
-
-    const size = EXPORT_SIZE_PX[payload.size] ?? EXPORT_SIZE_PX['5'];
-    const baseOutputDir = path.join(payload.exportDir, formatExportFolderName(new Date()));
-    const outputRoot = await ensureUniqueDir(baseOutputDir);
-    let exported = 0;
-    let failed = 0;
-
-    for (let index = 0; index < payload.items.length; index += 1) {
-      const item = payload.items[index];
-      const sourcePath = path.join(payload.baseDir, item.relativePath);
-      const parsed = path.parse(item.relativePath);
-      const ext = parsed.ext.toLowerCase();
-      const outputDir = path.join(outputRoot, parsed.dir);
-      const outputExt = ext === '.png' ? '.png' : '.jpg';
-      const outputPath = path.join(outputDir, `${parsed.name}${outputExt}`);
+  // 按导出尺寸检查文字是否放得下，供编辑时提示与导出前确认
+  ipcMain.handle(
+    'caption:check',
+    async (
+      _event,
+      baseDir: string,
+      items: Array<{ relativePath: string; meta: StampMeta }>,
+      options: { size: ExportSizeSpec | string; template?: Partial<StampTemplate> },
+    ): Promise<CaptionCheckResult[]> => {
+      if (!baseDir || !Array.isArray(items)) {
+        throw new Error('参数不能为空');
+      }
+      const size = getExportSizePixels(resolveExportSize(options.size));
+      const template = normalizeStampTemplate(options.template);
+      const fonts = await loadStampFonts(template.fontFamily);
+      const results: CaptionCheckResult[] = [];
+      for (const item of items) {
+        const sourcePath = path.join(baseDir, item.relativePath);
+        const orientedInfo = await readSourceInfo(sourcePath, resolveTransform(item.meta));
+        const region = resolveCropRegion(orientedInfo, normalizePhotoCrop(item.meta.crop));
+        const sourceInfo = region ? { width: region.width, height: region.height } : orientedInfo;
+        const { caption, canvasSize } = resolveStampGeometry(sourceInfo, size, {
+          includeText: true,
+          template,
+          meta: item.meta,
+          fonts,
+        });
+        const baseFontSize = getTypography(canvasSize, template).fontSize;
+        results.push({
+          relativePath: item.relativePath,
+          status: caption?.status ?? 'fit',
+          fontScale: caption && baseFontSize > 0 ? caption.fontSize / baseFontSize : 1,
+          missingGlyphs: caption?.missingGlyphs ?? [],
+        });
+      }
+      return results;
+    },
+  );
 
-      try {
-        await fs.mkdir(outputDir, { recursive: true });
-        const buffer = await buildStampedImage(sourcePath, item.meta, size, {
+  // 有效 DPI：原图像素（裁切后）铺满成品中照片区域时，按导出尺寸打印的像素密度
+  ipcMain.handle(
+    'resolution:check',
+    async (
+      _event,
+      baseDir: string,
+      items: Array<{ relativePath: string; meta: StampMeta }>,
+      options: { size: ExportSizeSpec | string; template?: Partial<StampTemplate> },
+    ): Promise<ResolutionCheckResult[]> => {
+      if (!baseDir || !Array.isArray(items)) {
+        throw new Error('参数不能为空');
+      }
+      const sizeSpec = resolveExportSize(options.size);
+      const size = getExportSizePixels(sizeSpec);
+      const template = normalizeStampTemplate(options.template);
+      const fonts = await loadStampFonts(template.fontFamily);
+      const results: ResolutionCheckResult[] = [];
+      for (const item of items) {
+        const sourcePath = path.join(baseDir, item.relativePath);
+        const orientedInfo = await readSourceInfo(sourcePath, resolveTransform(item.meta));
+        if (!orientedInfo) {
+          results.push({ relativePath: item.relativePath, effectiveDpi: null });
+          continue;
+        }
+        const region = resolveCropRegion(orientedInfo, normalizePhotoCrop(item.meta.crop));
+        const sourceInfo = region ? { width: region.width, height: region.height } : orientedInfo;
+        const { imageRect } = resolveStampGeometry(sourceInfo, size, {
           includeText: true,
-          format: outputExt === '.png' ? 'png' : 'jpeg',
+          template,
+          meta: item.meta,
+          fonts,
         });
-        await fs.writeFile(outputPath, buffer);
-        exported += 1;
-      } catch (error) {
-        console.error(error);
-        failed += 1;
-      } finally {
-        event.sender.send('export:progress', {
-          current: index + 1,
-          total: payload.items.length,
-          filename: item.filename,
+        const scale = Math.min(
+          sourceInfo.width / imageRect.width,
+          sourceInfo.height / imageRect.height,
+        );
+        results.push({
+          relativePath: item.relativePath,
+          effectiveDpi: Math.round(sizeSpec.dpi * scale),
         });
       }
+      return results;
+    },
+  );
+
+  ipcMain.handle('export:start', async (event, payload: ExportPayload): Promise<ExportResult> => {
+    if (!payload?.baseDir || !payload?.exportDir) {
+      throw new Error('参数不能为空');
+    }
+    if (activeExport) {
+      throw new Error('已有导出任务正在进行');
+    }
+    const control = createExportControl();
+    activeExport = control;
+    try {
+      return await exportPhotos(event.sender, payload, control);
+    } finally {
+      activeExport = null;
+      activeExportRoot = null;
     }
+  });
+
+  ipcMain.handle('export:pause', () => {
+    activeExport?.pause();
+  });
 
-    return { exported, failed, total: payload.items.length, outputDir: outputRoot };
+  ipcMain.handle('export:resume', () => {
+    activeExport?.resume();
+  });
+
+  ipcMain.handle('export:cancel', () => {
+    activeExport?.cancel();
   });
 
   ipcMain.handle('dialog:openProjectFile', async () => {
@@ -962,4 +1523,19 @@ export function registerIpcHandlers(): void {
     const raw = await fs.readFile(projectPath, 'utf-8');
     return JSON.parse(raw) as unknown;
   });
+
+  ipcMain.handle('cache:usage', async () => getImageCacheUsage());
+
+  ipcMain.handle('cache:setLimit', async (_event, limitBytes: number) => {
+    if (!Number.isFinite(limitBytes) || limitBytes <= 0) {
+      throw new Error('缓存上限无效');
+    }
+    await setImageCacheLimit(limitBytes);
+    return getImageCacheUsage();
+  });
+
+  // 返回释放的字节数
+  ipcMain.handle('cache:clear', async () => clearImageCache());
+
+  ipcMain.handle('cache:removeStale', async () => removeStaleCacheEntries());
 }
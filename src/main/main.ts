@@ -1,6 +1,7 @@
 import { app, BrowserWindow, ipcMain, nativeImage } from 'electron';
 import fs from 'node:fs';
 import path from 'node:path';
+import { registerImageProtocol, registerImageProtocolScheme } from './image-cache';
 import { registerIpcHandlers } from './ipc';
 import { buildAppMenu, setWindowTitle } from './menu';
 
@@ -9,6 +10,8 @@ let launcherWindow: BrowserWindow | null = null;
 let pendingLaunchPayload: LaunchPayload | null = null;
 const isDev = !app.isPackaged;
 
+registerImageProtocolScheme();
+
 type LaunchPayload =
   | { type: 'create'; name: string; baseDir: string; projectPath: string }
   | { type: 'open-project'; projectPath: string };
@@ -149,6 +152,7 @@ app.whenReady().then(() => {
   if (process.platform === 'win32') {
     app.setAppUserModelId('com.imgstamp.app');
   }
+  registerImageProtocol();
   registerIpcHandlers();
   launcherWindow = createLauncherWindow();
 
@@ -36,6 +36,16 @@ export function buildAppMenu(mainWindow: BrowserWindow | null): void {
           accelerator: 'CmdOrCtrl+S',
           click: () => sendToRenderer(mainWindow, 'menu:save-project'),
         },
+        {
+          label: '重新扫描文件夹',
+          accelerator: 'F5',
+          click: () => sendToRenderer(mainWindow, 'menu:rescan'),
+        },
+        { type: 'separator' },
+        {
+          label: '缓存管理',
+          click: () => sendToRenderer(mainWindow, 'menu:cache'),
+        },
         { type: 'separator' },
         { role: 'quit', label: '退出' },
       ],
@@ -69,6 +79,7 @@ export function buildAppMenu(mainWindow: BrowserWindow | null): void {
                 'Ctrl/Cmd + O：新建项目（打开文件夹）',
                 'Ctrl/Cmd + Shift + O：打开项目',
                 'Ctrl/Cmd + S：保存项目',
+                'F5：重新扫描文件夹',
                 'Ctrl/Cmd + Enter：开始导出',
                 '← / →：切换选中图片',
                 'Space：标记/取消标记选中',
@@ -0,0 +1,242 @@
+import fs from 'node:fs/promises';
+
+// 边导出边写入的 PDF 文件：每页连同图片写完即落盘，内存中只保留对象偏移
+// 图片直接嵌入 JPEG 数据（DCTDecode），不重新编码；页码使用 PDF 内置的 Helvetica
+
+export type PdfImage = {
+  data: Buffer;
+  // 像素尺寸与通道数，来自 JPEG 本身
+  width: number;
+  height: number;
+  channels: number;
+  // JPEG 嵌入的 ICC 配置文件，相同的只写一次
+  icc?: Buffer;
+};
+
+export type PdfPage = {
+  // 页面尺寸，单位 pt（1/72 英寸）
+  width: number;
+  height: number;
+  // 位置以页面左上角为原点，单位 pt
+  images: Array<{ image: PdfImage; left: number; top: number; width: number; height: number }>;
+  // 页码水平居中于 x，baseline 为基线位置
+  pageNumber?: { value: number; x: number; baseline: number; size: number };
+};
+
+export type PdfWriter = {
+  // 页面按调用顺序依次写入
+  addPage: (page: PdfPage) => Promise<void>;
+  finish: () => Promise<void>;
+  // 出错时关闭并删除未完成的文件
+  abort: () => Promise<void>;
+};
+
+// 固定对象号：目录、页面树、文档信息、页码字体，其余按写入顺序分配
+const CATALOG_ID = 1;
+const PAGES_ID = 2;
+const INFO_ID = 3;
+const FONT_ID = 4;
+
+// Photoshop 与 libjpeg 写出的 CMYK JPEG 带 Adobe APP14 段，数值按反相存储
+function hasAdobeMarker(data: Buffer): boolean {
+  let offset = 2;
+  while (offset + 4 <= data.length && data[offset] === 0xff) {
+    const marker = data[offset + 1];
+    // 到图像数据（SOS）为止
+    if (marker === 0xda) {
+      break;
+    }
+    if (marker === 0xee && data.toString('ascii', offset + 4, offset + 9) === 'Adobe') {
+      return true;
+    }
+    offset += 2 + data.readUInt16BE(offset + 2);
+  }
+  return false;
+}
+
+// Helvetica 中数字的步进宽度均为 556/1000 em，页码居中无需字体度量
+const HELVETICA_DIGIT_WIDTH = 0.556;
+
+const formatNumber = (value: number) => Number(value.toFixed(2)).toString();
+
+// 文档信息中的文字按 UTF-16BE 十六进制写入，支持中文
+function encodeTextString(value: string): string {
+  const bytes = [0xfe, 0xff];
+  for (let index = 0; index < value.length; index += 1) {
+    const code = value.charCodeAt(index);
+    bytes.push(code >> 8, code & 0xff);
+  }
+  return `<${Buffer.from(bytes).toString('hex')}>`;
+}
+
+function formatPdfDate(value: Date): string {
+  const pad = (part: number) => String(part).padStart(2, '0');
+  return `D:${value.getFullYear()}${pad(value.getMonth() + 1)}${pad(value.getDate())}${pad(
+    value.getHours(),
+  )}${pad(value.getMinutes())}${pad(value.getSeconds())}`;
+}
+
+export async function createPdfWriter(
+  filePath: string,
+  info: { title: string },
+): Promise<PdfWriter> {
+  // wx：不覆盖已存在的文件
+  const handle = await fs.open(filePath, 'wx');
+  // 下标为对象号，0 号为空闲链表头
+  const offsets: number[] = [0];
+  const pageIds: number[] = [];
+  const iccIds: Array<{ data: Buffer; id: number }> = [];
+  let nextId = FONT_ID + 1;
+  let position = 0;
+  let closed = false;
+  let queue: Promise<void> = Promise.resolve();
+
+  const write = async (data: Buffer | string) => {
+    const buffer = typeof data === 'string' ? Buffer.from(data, 'latin1') : data;
+    await handle.write(buffer);
+    position += buffer.length;
+  };
+
+  const writeObject = async (id: number, body: string) => {
+    offsets[id] = position;
+    await write(`${id} 0 obj\n${body}\nendobj\n`);
+  };
+
+  const writeStream = async (id: number, dict: string, data: Buffer) => {
+    offsets[id] = position;
+    await write(`${id} 0 obj\n<< ${dict} /Length ${data.length} >>\nstream\n`);
+    await write(data);
+    await write('\nendstream\nendobj\n');
+  };
+
+  const allocate = () => {
+    const id = nextId;
+    nextId += 1;
+    return id;
+  };
+
+  // 自定义 CMYK 配置文件时照片为 4 通道 JPEG
+  const resolveColorSpace = async (image: PdfImage) => {
+    const components = image.channels >= 4 ? 4 : image.channels >= 3 ? 3 : 1;
+    const device =
+      components === 4 ? '/DeviceCMYK' : components === 3 ? '/DeviceRGB' : '/DeviceGray';
+    if (!image.icc) {
+      return device;
+    }
+    let entry = iccIds.find((item) => item.data.equals(image.icc!));
+    if (!entry) {
+      entry = { data: image.icc, id: allocate() };
+      iccIds.push(entry);
+      await writeStream(entry.id, `/N ${components} /Alternate ${device}`, image.icc);
+    }
+    return `[/ICCBased ${entry.id} 0 R]`;
+  };
+
+  const enqueue = (task: () => Promise<void>) => {
+    const next = queue.then(task);
+    queue = next.catch(() => undefined);
+    return next;
+  };
+
+  await write('%PDF-1.4\n%âãÏÓ\n');
+  await writeObject(
+    FONT_ID,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+  );
+
+  return {
+    addPage: (page) =>
+      enqueue(async () => {
+        if (closed) {
+          throw new Error('PDF 已关闭');
+        }
+        const xObjects: string[] = [];
+        const content: string[] = [];
+        for (const [index, placed] of page.images.entries()) {
+          const { image } = placed;
+          const id = allocate();
+          const colorSpace = await resolveColorSpace(image);
+          const decode =
+            image.channels >= 4 && hasAdobeMarker(image.data) ? ' /Decode [1 0 1 0 1 0 1 0]' : '';
+          await writeStream(
+            id,
+            `/Type /XObject /Subtype /Image /Width ${image.width} /Height ${image.height} /ColorSpace ${colorSpace} /BitsPerComponent 8${decode} /Filter /DCTDecode`,
+            image.data,
+          );
+          const name = `Im${index + 1}`;
+          xObjects.push(`/${name} ${id} 0 R`);
+          // PDF 坐标原点在左下角
+          const bottom = page.height - placed.top - placed.height;
+          content.push(
+            `q ${formatNumber(placed.width)} 0 0 ${formatNumber(placed.height)} ${formatNumber(
+              placed.left,
+            )} ${formatNumber(bottom)} cm /${name} Do Q`,
+          );
+        }
+        if (page.pageNumber) {
+          const { value, x, baseline, size } = page.pageNumber;
+          const text = String(value);
+          const left = x - (text.length * HELVETICA_DIGIT_WIDTH * size) / 2;
+          content.push(
+            `BT /F1 ${formatNumber(size)} Tf 0.42 0.45 0.5 rg ${formatNumber(left)} ${formatNumber(
+              page.height - baseline,
+            )} Td (${text}) Tj ET`,
+          );
+        }
+        const contentId = allocate();
+        await writeStream(contentId, '', Buffer.from(content.join('\n'), 'latin1'));
+        const pageId = allocate();
+        await writeObject(
+          pageId,
+          `<< /Type /Page /Parent ${PAGES_ID} 0 R /MediaBox [0 0 ${formatNumber(
+            page.width,
+          )} ${formatNumber(page.height)}] /Resources << /XObject << ${xObjects.join(
+            ' ',
+          )} >> /Font << /F1 ${FONT_ID} 0 R >> >> /Contents ${contentId} 0 R >>`,
+        );
+        pageIds.push(pageId);
+      }),
+    finish: () =>
+      enqueue(async () => {
+        if (closed) {
+          return;
+        }
+        closed = true;
+        try {
+          await writeObject(
+            PAGES_ID,
+            `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${
+              pageIds.length
+            } >>`,
+          );
+          await writeObject(
+            INFO_ID,
+            `<< /Title ${encodeTextString(info.title)} /Producer (ImgStamp) /CreationDate (${formatPdfDate(
+              new Date(),
+            )}) >>`,
+          );
+          await writeObject(CATALOG_ID, `<< /Type /Catalog /Pages ${PAGES_ID} 0 R >>`);
+          const xrefOffset = position;
+          const entries = ['0000000000 65535 f \n'];
+          for (let id = 1; id < nextId; id += 1) {
+            entries.push(`${String(offsets[id] ?? 0).padStart(10, '0')} 00000 n \n`);
+          }
+          await write(`xref\n0 ${nextId}\n${entries.join('')}`);
+          await write(
+            `trailer\n<< /Size ${nextId} /Root ${CATALOG_ID} 0 R /Info ${INFO_ID} 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`,
+          );
+        } finally {
+          await handle.close();
+        }
+      }),
+    abort: async () => {
+      const wasClosed = closed;
+      closed = true;
+      await queue;
+      if (!wasClosed) {
+        await handle.close().catch(() => undefined);
+      }
+      await fs.rm(filePath, { force: true });
+    },
+  };
+}
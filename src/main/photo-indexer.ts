@@ -0,0 +1,104 @@
+import type { PhotoIndexItem, PhotoIndexProgress, PhotoIndexResult } from '../types/project';
+
+// 后台索引：打开项目后逐张生成缩略图、读取 EXIF 日期，结果分批推送给渲染进程
+// 一次只处理一张；有按需请求（可见缩略图、预览等）或导出进行中时先让路
+
+export type PhotoIndexer = {
+  // 开始索引新的项目，之前未完成的索引随之停止
+  start: (
+    baseDir: string,
+    items: PhotoIndexItem[],
+    thumbnailSize: number,
+    send: (progress: PhotoIndexProgress) => void,
+  ) => void;
+  stop: () => void;
+  // 包装按需请求，执行期间索引暂停
+  runOnDemand: <T>(task: () => Promise<T>) => Promise<T>;
+};
+
+const YIELD_POLL_INTERVAL = 100;
+const FLUSH_INTERVAL = 300;
+const FLUSH_BATCH_SIZE = 24;
+
+const delay = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+export function createPhotoIndexer(handlers: {
+  thumbnail: (baseDir: string, item: PhotoIndexItem, size: number) => Promise<string>;
+  exifDate: (baseDir: string, relativePath: string) => Promise<string | null>;
+  // 为 true 时暂停（如导出进行中）
+  shouldYield: () => boolean;
+}): PhotoIndexer {
+  let generation = 0;
+  let onDemand = 0;
+
+  const waitForIdle = async (current: number) => {
+    // 让出一轮事件循环，按需请求可以先进入
+    await delay(0);
+    while (current === generation && (onDemand > 0 || handlers.shouldYield())) {
+      await delay(YIELD_POLL_INTERVAL);
+    }
+    return current === generation;
+  };
+
+  const run = async (
+    current: number,
+    baseDir: string,
+    items: PhotoIndexItem[],
+    thumbnailSize: number,
+    send: (progress: PhotoIndexProgress) => void,
+  ) => {
+    let pending: PhotoIndexResult[] = [];
+    let lastFlush = Date.now();
+    let done = 0;
+    const flush = () => {
+      send({ baseDir, done, total: items.length, results: pending });
+      pending = [];
+      lastFlush = Date.now();
+    };
+
+    for (const item of items) {
+      if (!(await waitForIdle(current))) {
+        return;
+      }
+      const result: PhotoIndexResult = {
+        relativePath: item.relativePath,
+        rotation: item.rotation,
+        mirrored: item.mirrored,
+        thumbnailUrl: await handlers.thumbnail(baseDir, item, thumbnailSize),
+      };
+      if (item.exif) {
+        result.exifDate = await handlers.exifDate(baseDir, item.relativePath);
+      }
+      if (current !== generation) {
+        return;
+      }
+      pending.push(result);
+      done += 1;
+      if (pending.length >= FLUSH_BATCH_SIZE || Date.now() - lastFlush >= FLUSH_INTERVAL) {
+        flush();
+      }
+    }
+    flush();
+  };
+
+  return {
+    start: (baseDir, items, thumbnailSize, send) => {
+      generation += 1;
+      const current = generation;
+      run(current, baseDir, items, thumbnailSize, send).catch((error) =>
+        console.error('后台索引失败', error),
+      );
+    },
+    stop: () => {
+      generation += 1;
+    },
+    runOnDemand: async (task) => {
+      onDemand += 1;
+      try {
+        return await task();
+      } finally {
+        onDemand -= 1;
+      }
+    },
+  };
+}
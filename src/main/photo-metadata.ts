@@ -0,0 +1,546 @@
+import { crc32 } from 'node:zlib';
+import { readSourceExif } from './image-source';
+
+// 导出文件中的元数据：复制原图拍摄参数，并把日期、地点、描述写入 EXIF / XMP / IPTC
+// sharp 只能写 ASCII 的 EXIF 字符串且不支持 IPTC，这里直接生成数据段插入成品图
+
+export type CaptionMetadata = {
+  // YYYY-MM-DD
+  date: string | null;
+  location: string;
+  description: string;
+};
+
+type IfdEntry = { tag: number; type: number; count: number; data: Buffer };
+
+// 原图 EXIF 中可以安全复制的条目，data 保持原图字节序
+export type CaptureExif = {
+  littleEndian: boolean;
+  ifd0: IfdEntry[];
+  exif: IfdEntry[];
+  gps: IfdEntry[];
+};
+
+const TYPE_SIZES: Record<number, number> = {
+  1: 1,
+  2: 1,
+  3: 2,
+  4: 4,
+  5: 8,
+  6: 1,
+  7: 1,
+  8: 2,
+  9: 4,
+  10: 8,
+  11: 4,
+  12: 8,
+};
+
+const TYPE_BYTE = 1;
+const TYPE_ASCII = 2;
+const TYPE_SHORT = 3;
+const TYPE_LONG = 4;
+const TYPE_RATIONAL = 5;
+const TYPE_UNDEFINED = 7;
+
+const TAG = {
+  imageDescription: 0x010e,
+  make: 0x010f,
+  model: 0x0110,
+  orientation: 0x0112,
+  xResolution: 0x011a,
+  yResolution: 0x011b,
+  resolutionUnit: 0x0128,
+  artist: 0x013b,
+  copyright: 0x8298,
+  exifPointer: 0x8769,
+  gpsPointer: 0x8825,
+  xpComment: 0x9c9c,
+  exifVersion: 0x9000,
+  dateTimeOriginal: 0x9003,
+  makerNote: 0x927c,
+  colorSpace: 0xa001,
+  pixelXDimension: 0xa002,
+  pixelYDimension: 0xa003,
+  interopPointer: 0xa005,
+} as const;
+
+// IFD0 中只保留拍摄相关条目；尺寸、方向、缩略图等已与成品图无关
+const IFD0_COPY_TAGS = new Set<number>([TAG.make, TAG.model, TAG.artist, TAG.copyright]);
+// MakerNote 内部使用相对原文件的偏移，复制后会失效；色彩空间以成品图嵌入的 ICC 为准
+const EXIF_SKIP_TAGS = new Set<number>([
+  TAG.dateTimeOriginal,
+  TAG.makerNote,
+  TAG.colorSpace,
+  TAG.pixelXDimension,
+  TAG.pixelYDimension,
+  TAG.interopPointer,
+]);
+
+const EXIF_HEADER = Buffer.from('Exif\0\0', 'binary');
+const XMP_HEADER = Buffer.from('http://ns.adobe.com/xap/1.0/\0', 'binary');
+const PHOTOSHOP_HEADER = Buffer.from('Photoshop 3.0\0', 'binary');
+// APP1 / APP13 数据段上限（长度字段本身占 2 字节）
+const MAX_SEGMENT_SIZE = 0xfffd;
+
+const readU16 = (buffer: Buffer, at: number, littleEndian: boolean) =>
+  littleEndian ? buffer.readUInt16LE(at) : buffer.readUInt16BE(at);
+const readU32 = (buffer: Buffer, at: number, littleEndian: boolean) =>
+  littleEndian ? buffer.readUInt32LE(at) : buffer.readUInt32BE(at);
+const writeU16 = (buffer: Buffer, value: number, at: number, littleEndian: boolean) =>
+  littleEndian ? buffer.writeUInt16LE(value, at) : buffer.writeUInt16BE(value, at);
+const writeU32 = (buffer: Buffer, value: number, at: number, littleEndian: boolean) =>
+  littleEndian ? buffer.writeUInt32LE(value, at) : buffer.writeUInt32BE(value, at);
+
+function readIfd(tiff: Buffer, offset: number, littleEndian: boolean): IfdEntry[] {
+  const u16 = (at: number) => readU16(tiff, at, littleEndian);
+  const u32 = (at: number) => readU32(tiff, at, littleEndian);
+  if (offset <= 0 || offset + 2 > tiff.length) {
+    return [];
+  }
+  const entries: IfdEntry[] = [];
+  const count = u16(offset);
+  for (let index = 0; index < count; index += 1) {
+    const at = offset + 2 + index * 12;
+    if (at + 12 > tiff.length) {
+      break;
+    }
+    const type = u16(at + 2);
+    const valueCount = u32(at + 4);
+    const size = (TYPE_SIZES[type] ?? 0) * valueCount;
+    if (size === 0) {
+      continue;
+    }
+    const start = size <= 4 ? at + 8 : u32(at + 8);
+    if (start + size > tiff.length) {
+      continue;
+    }
+    entries.push({
+      tag: u16(at),
+      type,
+      count: valueCount,
+      data: tiff.subarray(start, start + size),
+    });
+  }
+  return entries;
+}
+
+function readPointer(entries: IfdEntry[], tag: number, littleEndian: boolean): number {
+  const entry = entries.find((item) => item.tag === tag);
+  if (!entry || entry.data.length < 4) {
+    return 0;
+  }
+  return readU32(entry.data, 0, littleEndian);
+}
+
+export async function readCaptureExif(sourcePath: string): Promise<CaptureExif | null> {
+  try {
+    const exif = await readSourceExif(sourcePath);
+    if (!exif || exif.length < EXIF_HEADER.length + 8) {
+      return null;
+    }
+    const tiff = exif.subarray(
+      exif.subarray(0, EXIF_HEADER.length).equals(EXIF_HEADER) ? EXIF_HEADER.length : 0,
+    );
+    const order = tiff.toString('binary', 0, 2);
+    if (order !== 'II' && order !== 'MM') {
+      return null;
+    }
+    const littleEndian = order === 'II';
+    const ifd0 = readIfd(tiff, readU32(tiff, 4, littleEndian), littleEndian);
+    const readSubIfd = (tag: number) =>
+      readIfd(tiff, readPointer(ifd0, tag, littleEndian), littleEndian);
+    const exifEntries = readSubIfd(TAG.exifPointer);
+    const gps = readSubIfd(TAG.gpsPointer);
+    return {
+      littleEndian,
+      ifd0: ifd0.filter((entry) => IFD0_COPY_TAGS.has(entry.tag)),
+      exif: exifEntries,
+      gps,
+    };
+  } catch {
+    return null;
+  }
+}
+
+function createEncoder(littleEndian: boolean) {
+  const short = (value: number) => {
+    const data = Buffer.alloc(2);
+    writeU16(data, value, 0, littleEndian);
+    return data;
+  };
+  const long = (value: number) => {
+    const data = Buffer.alloc(4);
+    writeU32(data, value, 0, littleEndian);
+    return data;
+  };
+  return {
+    short: (tag: number, value: number): IfdEntry => ({
+      tag,
+      type: TYPE_SHORT,
+      count: 1,
+      data: short(value),
+    }),
+    long: (tag: number, value: number): IfdEntry => ({
+      tag,
+      type: TYPE_LONG,
+      count: 1,
+      data: long(value),
+    }),
+    rational: (tag: number, numerator: number, denominator: number): IfdEntry => ({
+      tag,
+      type: TYPE_RATIONAL,
+      count: 1,
+      data: Buffer.concat([long(numerator), long(denominator)]),
+    }),
+    // EXIF 的 ASCII 类型实际按 UTF-8 写入，主流软件均按 UTF-8 读取
+    ascii: (tag: number, value: string): IfdEntry => {
+      const data = Buffer.from(`${value}\0`, 'utf8');
+      return { tag, type: TYPE_ASCII, count: data.length, data };
+    },
+    // Windows 的 XP* 字段为 UCS-2 小端，与 TIFF 字节序无关
+    ucs2: (tag: number, value: string): IfdEntry => {
+      const data = Buffer.from(`${value}\0`, 'utf16le');
+      return { tag, type: TYPE_BYTE, count: data.length, data };
+    },
+    undefined: (tag: number, value: Buffer): IfdEntry => ({
+      tag,
+      type: TYPE_UNDEFINED,
+      count: value.length,
+      data: value,
+    }),
+    long32: long,
+  };
+}
+
+// 超过 4 字节的值放在条目表之后，按偶数字节对齐
+const getValueSize = (entry: IfdEntry) =>
+  entry.data.length > 4 ? entry.data.length + (entry.data.length % 2) : 0;
+
+function getIfdSize(entries: IfdEntry[]): number {
+  const dataSize = entries.reduce((total, entry) => total + getValueSize(entry), 0);
+  return 2 + entries.length * 12 + 4 + dataSize;
+}
+
+function writeIfd(entries: IfdEntry[], offset: number, littleEndian: boolean): Buffer {
+  const sorted = [...entries].sort((a, b) => a.tag - b.tag);
+  const buffer = Buffer.alloc(getIfdSize(sorted));
+  const u16 = (value: number, at: number) => writeU16(buffer, value, at, littleEndian);
+  const u32 = (value: number, at: number) => writeU32(buffer, value, at, littleEndian);
+  u16(sorted.length, 0);
+  let dataCursor = 2 + sorted.length * 12 + 4;
+  sorted.forEach((entry, index) => {
+    const at = 2 + index * 12;
+    u16(entry.tag, at);
+    u16(entry.type, at + 2);
+    u32(entry.count, at + 4);
+    if (entry.data.length <= 4) {
+      entry.data.copy(buffer, at + 8);
+      return;
+    }
+    u32(offset + dataCursor, at + 8);
+    entry.data.copy(buffer, dataCursor);
+    dataCursor += getValueSize(entry);
+  });
+  return buffer;
+}
+
+function resolveCaptionText(caption: CaptionMetadata): string {
+  return [caption.location, caption.description].filter(Boolean).join(' · ');
+}
+
+// 日期取自编辑后的值，时刻沿用原图的拍摄时间
+function resolveDateTime(caption: CaptionMetadata, capture: CaptureExif | null): string | null {
+  const match = caption.date ? /^(\d{4})-(\d{2})-(\d{2})$/.exec(caption.date) : null;
+  if (!match) {
+    return null;
+  }
+  const original = capture?.exif
+    .find((entry) => entry.tag === TAG.dateTimeOriginal)
+    ?.data.toString('latin1');
+  const time = original?.match(/\d{2}:\d{2}:\d{2}(?=\0|$)/)?.[0] ?? '00:00:00';
+  return `${match[1]}:${match[2]}:${match[3]} ${time}`;
+}
+
+function buildExifTiff(
+  caption: CaptionMetadata,
+  capture: CaptureExif | null,
+  density?: number,
+): Buffer {
+  const littleEndian = capture?.littleEndian ?? true;
+  const encode = createEncoder(littleEndian);
+  const text = resolveCaptionText(caption);
+  const dateTime = resolveDateTime(caption, capture);
+
+  const ifd0: IfdEntry[] = [...(capture?.ifd0 ?? []), encode.short(TAG.orientation, 1)];
+  if (text) {
+    ifd0.push(encode.ascii(TAG.imageDescription, text), encode.ucs2(TAG.xpComment, text));
+  }
+  if (density) {
+    ifd0.push(
+      encode.rational(TAG.xResolution, density, 1),
+      encode.rational(TAG.yResolution, density, 1),
+      encode.short(TAG.resolutionUnit, 2),
+    );
+  }
+  const exif = (capture?.exif ?? []).filter((entry) => !EXIF_SKIP_TAGS.has(entry.tag));
+  if (!exif.some((entry) => entry.tag === TAG.exifVersion)) {
+    exif.push(encode.undefined(TAG.exifVersion, Buffer.from('0232', 'ascii')));
+  }
+  if (dateTime) {
+    exif.push(encode.ascii(TAG.dateTimeOriginal, dateTime));
+  }
+  const gps = capture?.gps ?? [];
+
+  // 指针条目占位后才能算出各 IFD 的位置
+  ifd0.push(encode.long(TAG.exifPointer, 0));
+  if (gps.length > 0) {
+    ifd0.push(encode.long(TAG.gpsPointer, 0));
+  }
+  const ifd0Offset = 8;
+  const exifOffset = ifd0Offset + getIfdSize(ifd0);
+  const gpsOffset = exifOffset + getIfdSize(exif);
+  ifd0.forEach((entry) => {
+    if (entry.tag === TAG.exifPointer) {
+      entry.data = encode.long32(exifOffset);
+    } else if (entry.tag === TAG.gpsPointer) {
+      entry.data = encode.long32(gpsOffset);
+    }
+  });
+
+  const header = Buffer.alloc(8);
+  header.write(littleEndian ? 'II' : 'MM', 0, 'binary');
+  writeU16(header, 42, 2, littleEndian);
+  writeU32(header, ifd0Offset, 4, littleEndian);
+  return Buffer.concat([
+    header,
+    writeIfd(ifd0, ifd0Offset, littleEndian),
+    writeIfd(exif, exifOffset, littleEndian),
+    ...(gps.length > 0 ? [writeIfd(gps, gpsOffset, littleEndian)] : []),
+  ]);
+}
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+export function buildXmp(caption: CaptionMetadata, capture: CaptureExif | null): string {
+  const text = resolveCaptionText(caption);
+  const dateTime = resolveDateTime(caption, capture);
+  const properties = [
+    text
+      ? `<dc:description><rdf:Alt><rdf:li xml:lang="x-default">${escapeXml(text)}</rdf:li></rdf:Alt></dc:description>`
+      : '',
+    caption.location ? `<photoshop:City>${escapeXml(caption.location)}</photoshop:City>` : '',
+    caption.date ? `<photoshop:DateCreated>${caption.date}</photoshop:DateCreated>` : '',
+    dateTime
+      ? `<exif:DateTimeOriginal>${dateTime.replace(/^(\d{4}):(\d{2}):(\d{2}) /, '$1-$2-$3T')}</exif:DateTimeOriginal>`
+      : '',
+  ].filter(Boolean);
+  return [
+    '<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>',
+    '<x:xmpmeta xmlns:x="adobe:ns:meta/">',
+    '<rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">',
+    '<rdf:Description rdf:about="" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:photoshop="http://ns.adobe.com/photoshop/1.0/" xmlns:exif="http://ns.adobe.com/exif/1.0/">',
+    ...properties,
+    '</rdf:Description>',
+    '</rdf:RDF>',
+    '</x:xmpmeta>',
+    '<?xpacket end="w"?>',
+  ].join('\n');
+}
+
+// 按字节上限截断，不截断 UTF-8 多字节字符
+function limitUtf8(value: string, maxBytes: number): Buffer {
+  let result = '';
+  for (const char of value) {
+    if (Buffer.byteLength(result + char, 'utf8') > maxBytes) {
+      break;
+    }
+    result += char;
+  }
+  return Buffer.from(result, 'utf8');
+}
+
+// IPTC-IIM，封装在 Photoshop 图像资源 0x0404 中
+function buildIptc(caption: CaptionMetadata): Buffer {
+  const record = (recordNumber: number, dataset: number, data: Buffer) => {
+    const head = Buffer.from([0x1c, recordNumber, dataset, 0, 0]);
+    head.writeUInt16BE(data.length, 3);
+    return Buffer.concat([head, data]);
+  };
+  const records = [
+    // 1:90 字符集声明为 UTF-8
+    record(1, 90, Buffer.from([0x1b, 0x25, 0x47])),
+    record(2, 0, Buffer.from([0, 4])),
+  ];
+  const text = resolveCaptionText(caption);
+  if (text) {
+    records.push(record(2, 120, limitUtf8(text, 2000)));
+  }
+  if (caption.location) {
+    records.push(record(2, 90, limitUtf8(caption.location, 32)));
+  }
+  if (caption.date && /^\d{4}-\d{2}-\d{2}$/.test(caption.date)) {
+    records.push(record(2, 55, Buffer.from(caption.date.replace(/-/g, ''), 'ascii')));
+  }
+  const iim = Buffer.concat(records);
+  const resource = Buffer.alloc(12);
+  resource.write('8BIM', 0, 'binary');
+  resource.writeUInt16BE(0x0404, 4);
+  // 6-7：空的资源名（Pascal 字符串补齐到偶数长度）
+  resource.writeUInt32BE(iim.length, 8);
+  return Buffer.concat([
+    PHOTOSHOP_HEADER,
+    resource,
+    iim,
+    iim.length % 2 ? Buffer.alloc(1) : Buffer.alloc(0),
+  ]);
+}
+
+function buildJpegSegment(marker: number, payload: Buffer): Buffer | null {
+  if (payload.length > MAX_SEGMENT_SIZE) {
+    return null;
+  }
+  const head = Buffer.from([0xff, marker, 0, 0]);
+  head.writeUInt16BE(payload.length + 2, 2);
+  return Buffer.concat([head, payload]);
+}
+
+// 去掉编码器写入的 EXIF / XMP / IPTC 段，在 JFIF 段之后插入新的数据段
+function embedJpegMetadata(buffer: Buffer, segments: Buffer[]): Buffer {
+  if (buffer[0] !== 0xff || buffer[1] !== 0xd8) {
+    return buffer;
+  }
+  const kept: Buffer[] = [];
+  let insertAt = 0;
+  let offset = 2;
+  while (offset + 4 <= buffer.length && buffer[offset] === 0xff) {
+    const marker = buffer[offset + 1];
+    // 只处理文件头部的 APPn 段，遇到其他段即停止
+    if (marker < 0xe0 || marker > 0xef) {
+      break;
+    }
+    const length = buffer.readUInt16BE(offset + 2);
+    const segment = buffer.subarray(offset, offset + 2 + length);
+    const payload = segment.subarray(4);
+    const isExif = marker === 0xe1 && payload.subarray(0, EXIF_HEADER.length).equals(EXIF_HEADER);
+    const isXmp = marker === 0xe1 && payload.subarray(0, XMP_HEADER.length).equals(XMP_HEADER);
+    const isIptc =
+      marker === 0xed && payload.subarray(0, PHOTOSHOP_HEADER.length).equals(PHOTOSHOP_HEADER);
+    if (!isExif && !isXmp && !isIptc) {
+      kept.push(segment);
+      if (marker === 0xe0) {
+        insertAt = kept.length;
+      }
+    }
+    offset += 2 + length;
+  }
+  kept.splice(insertAt, 0, ...segments);
+  return Buffer.concat([buffer.subarray(0, 2), ...kept, buffer.subarray(offset)]);
+}
+
+function buildPngChunk(type: string, data: Buffer): Buffer {
+  const head = Buffer.alloc(8);
+  head.writeUInt32BE(data.length, 0);
+  head.write(type, 4, 'ascii');
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(Buffer.concat([head.subarray(4), data])));
+  return Buffer.concat([head, data, crc]);
+}
+
+// PNG 没有 IPTC 的标准位置，写入 eXIf 与 XMP（iTXt）；插在 IHDR 之后
+function embedPngMetadata(buffer: Buffer, exif: Buffer, xmp: string): Buffer {
+  const signatureSize = 8;
+  if (buffer.length < signatureSize + 8 || buffer.toString('ascii', 12, 16) !== 'IHDR') {
+    return buffer;
+  }
+  const ihdrEnd = signatureSize + 12 + buffer.readUInt32BE(signatureSize);
+  const chunks: Buffer[] = [];
+  let offset = ihdrEnd;
+  while (offset + 12 <= buffer.length) {
+    const length = buffer.readUInt32BE(offset);
+    const type = buffer.toString('ascii', offset + 4, offset + 8);
+    const chunk = buffer.subarray(offset, offset + 12 + length);
+    const isXmp =
+      type === 'iTXt' && chunk.toString('latin1', 8, 8 + 17) === 'XML:com.adobe.xmp';
+    if (type !== 'eXIf' && !isXmp) {
+      chunks.push(chunk);
+    }
+    offset += 12 + length;
+  }
+  const xmpChunk = buildPngChunk(
+    'iTXt',
+    Buffer.concat([Buffer.from('XML:com.adobe.xmp\0\0\0\0\0', 'latin1'), Buffer.from(xmp, 'utf8')]),
+  );
+  return Buffer.concat([
+    buffer.subarray(0, ihdrEnd),
+    buildPngChunk('eXIf', exif),
+    xmpChunk,
+    ...chunks,
+  ]);
+}
+
+function buildWebpChunk(type: string, data: Buffer): Buffer {
+  const head = Buffer.alloc(8);
+  head.write(type, 0, 'ascii');
+  head.writeUInt32LE(data.length, 4);
+  return Buffer.concat([head, data, Buffer.alloc(data.length % 2)]);
+}
+
+// WebP 的 EXIF 与 XMP 放在图像数据之后，并在 VP8X 中置位；没有 VP8X 的简单格式原样返回
+function embedWebpMetadata(buffer: Buffer, exif: Buffer, xmp: string): Buffer {
+  if (buffer.length < 30 || buffer.toString('ascii', 12, 16) !== 'VP8X') {
+    return buffer;
+  }
+  const chunks: Buffer[] = [];
+  let offset = 12;
+  while (offset + 8 <= buffer.length) {
+    const type = buffer.toString('ascii', offset, offset + 4);
+    const size = buffer.readUInt32LE(offset + 4);
+    const chunk = Buffer.from(buffer.subarray(offset, offset + 8 + size + (size % 2)));
+    if (type === 'VP8X') {
+      chunk[8] |= 0x08 | 0x04;
+    }
+    if (type !== 'EXIF' && type !== 'XMP ') {
+      chunks.push(chunk);
+    }
+    offset += 8 + size + (size % 2);
+  }
+  chunks.push(buildWebpChunk('EXIF', exif), buildWebpChunk('XMP ', Buffer.from(xmp, 'utf8')));
+  const body = Buffer.concat([Buffer.from('WEBP', 'ascii'), ...chunks]);
+  const head = Buffer.alloc(8);
+  head.write('RIFF', 0, 'ascii');
+  head.writeUInt32LE(body.length, 4);
+  return Buffer.concat([head, body]);
+}
+
+// AVIF 与 TIFF 不在此处理：由编码时写入 buildXmp 的结果
+export function embedPhotoMetadata(
+  buffer: Buffer,
+  format: 'jpeg' | 'png' | 'webp',
+  options: { caption: CaptionMetadata; capture: CaptureExif | null; density?: number },
+): Buffer {
+  const { caption, density } = options;
+  // 原图 EXIF 过大（超出单个 APP1 段）时只写入标注信息
+  let exif = buildExifTiff(caption, options.capture, density);
+  if (exif.length + EXIF_HEADER.length > MAX_SEGMENT_SIZE) {
+    exif = buildExifTiff(caption, null, density);
+  }
+  const xmp = buildXmp(caption, options.capture);
+  if (format === 'png') {
+    return embedPngMetadata(buffer, exif, xmp);
+  }
+  if (format === 'webp') {
+    return embedWebpMetadata(buffer, exif, xmp);
+  }
+  const segments = [
+    buildJpegSegment(0xe1, Buffer.concat([EXIF_HEADER, exif])),
+    buildJpegSegment(0xe1, Buffer.concat([XMP_HEADER, Buffer.from(xmp, 'utf8')])),
+    buildJpegSegment(0xed, buildIptc(caption)),
+  ].filter((segment): segment is Buffer => segment !== null);
+  return embedJpegMetadata(buffer, segments);
+}
@@ -1,4 +1,14 @@
 import { contextBridge, ipcRenderer } from 'electron';
+import type {
+  ExportSettings,
+  ExportSizeSpec,
+  FolderChange,
+  PhotoIndexItem,
+  PhotoIndexProgress,
+  PhotoTransform,
+  StampMeta,
+  StampTemplate,
+} from '../types/project';
 
 const api = {
   getRecentProjects: () => ipcRenderer.invoke('recent:list'),
@@ -15,18 +25,38 @@ const api = {
   getLaunchPayload: () => ipcRenderer.invoke('launcher:get-payload'),
   openDirectory: () => ipcRenderer.invoke('dialog:openDirectory'),
   openExportDirectory: () => ipcRenderer.invoke('dialog:openExportDirectory'),
+  openIccProfile: () => ipcRenderer.invoke('dialog:openIccProfile'),
   openPath: (targetPath: string) => ipcRenderer.invoke('system:openPath', targetPath),
   scanImages: (baseDir: string) => ipcRenderer.invoke('image:scan', baseDir),
-  getThumbnail: (baseDir: string, relativePath: string, size: number) =>
-    ipcRenderer.invoke('image:thumbnail', baseDir, relativePath, size),
+  getThumbnail: (
+    baseDir: string,
+    relativePath: string,
+    size: number,
+    orientation?: PhotoTransform,
+  ) => ipcRenderer.invoke('image:thumbnail', baseDir, relativePath, size, orientation),
   readExifDate: (baseDir: string, relativePath: string) =>
     ipcRenderer.invoke('image:readExifDate', baseDir, relativePath),
   getPreview: (
     baseDir: string,
     relativePath: string,
-    meta: { date: string | null; location: string; description: string },
-    options: { size: '5' | '5L' | '6' | '6L'; mode: 'final' | 'original' },
+    meta: StampMeta,
+    options: {
+      size: ExportSizeSpec;
+      mode: 'final' | 'original';
+      template?: Partial<StampTemplate>;
+      settings?: ExportSettings;
+    },
   ) => ipcRenderer.invoke('image:preview', baseDir, relativePath, meta, options),
+  checkCaptions: (
+    baseDir: string,
+    items: Array<{ relativePath: string; meta: StampMeta }>,
+    options: { size: ExportSizeSpec; template?: Partial<StampTemplate> },
+  ) => ipcRenderer.invoke('caption:check', baseDir, items, options),
+  checkResolution: (
+    baseDir: string,
+    items: Array<{ relativePath: string; meta: StampMeta }>,
+    options: { size: ExportSizeSpec; template?: Partial<StampTemplate> },
+  ) => ipcRenderer.invoke('resolution:check', baseDir, items, options),
   openProjectFile: () => ipcRenderer.invoke('dialog:openProjectFile'),
   saveProjectFile: (defaultName?: string) =>
     ipcRenderer.invoke('dialog:saveProjectFileWithName', defaultName),
@@ -40,16 +70,53 @@ const api = {
     items: Array<{
       relativePath: string;
       filename: string;
-      meta: { date: string | null; location: string; description: string };
+      meta: StampMeta;
     }>,
-    size: '5' | '5L' | '6' | '6L',
+    size: ExportSizeSpec,
+    template?: StampTemplate,
+    settings?: ExportSettings,
+    sheetSize?: ExportSizeSpec,
+    // update：更新已有导出目录；retry：只重做传入的照片；title：相册标题
+    options?: { update?: boolean; retry?: boolean; title?: string },
   ) =>
     ipcRenderer.invoke('export:start', {
       baseDir,
       exportDir,
       size,
+      template,
+      settings,
+      sheetSize,
+      update: options?.update,
+      retry: options?.retry,
+      title: options?.title,
       items,
     }),
+  hasExportManifest: (outputDir: string) => ipcRenderer.invoke('export:hasManifest', outputDir),
+  pauseExport: () => ipcRenderer.invoke('export:pause'),
+  resumeExport: () => ipcRenderer.invoke('export:resume'),
+  cancelExport: () => ipcRenderer.invoke('export:cancel'),
+  startIndexing: (baseDir: string, items: PhotoIndexItem[], thumbnailSize: number) =>
+    ipcRenderer.invoke('indexer:start', baseDir, items, thumbnailSize),
+  stopIndexing: () => ipcRenderer.invoke('indexer:stop'),
+  onIndexerProgress: (callback: (payload: PhotoIndexProgress) => void) => {
+    const listener = (_event: unknown, payload: PhotoIndexProgress) => callback(payload);
+    ipcRenderer.on('indexer:progress', listener);
+    return () => ipcRenderer.removeListener('indexer:progress', listener);
+  },
+  watchFolder: (
+    baseDir: string,
+    known: Array<{ relativePath: string; fingerprint: string | null }>,
+  ) => ipcRenderer.invoke('watcher:start', baseDir, known),
+  unwatchFolder: () => ipcRenderer.invoke('watcher:stop'),
+  onFolderChange: (callback: (payload: FolderChange) => void) => {
+    const listener = (_event: unknown, payload: FolderChange) => callback(payload);
+    ipcRenderer.on('watcher:change', listener);
+    return () => ipcRenderer.removeListener('watcher:change', listener);
+  },
+  getCacheUsage: () => ipcRenderer.invoke('cache:usage'),
+  setCacheLimit: (limitBytes: number) => ipcRenderer.invoke('cache:setLimit', limitBytes),
+  clearCache: () => ipcRenderer.invoke('cache:clear'),
+  removeStaleCache: () => ipcRenderer.invoke('cache:removeStale'),
   onMenuOpenDirectory: (callback: () => void) => {
     const listener = () => callback();
     ipcRenderer.on('menu:open-directory', listener);
@@ -70,8 +137,18 @@ const api = {
     ipcRenderer.on('menu:export', listener);
     return () => ipcRenderer.removeListener('menu:export', listener);
   },
-  onMenuSetSize: (callback: (size: '5' | '5L' | '6' | '6L') => void) => {
-    const listener = (_event: unknown, size: '5' | '5L' | '6' | '6L') => callback(size);
+  onMenuRescan: (callback: () => void) => {
+    const listener = () => callback();
+    ipcRenderer.on('menu:rescan', listener);
+    return () => ipcRenderer.removeListener('menu:rescan', listener);
+  },
+  onMenuCache: (callback: () => void) => {
+    const listener = () => callback();
+    ipcRenderer.on('menu:cache', listener);
+    return () => ipcRenderer.removeListener('menu:cache', listener);
+  },
+  onMenuSetSize: (callback: (sizeId: string) => void) => {
+    const listener = (_event: unknown, sizeId: string) => callback(sizeId);
     ipcRenderer.on('menu:set-size', listener);
     return () => ipcRenderer.removeListener('menu:set-size', listener);
   },
@@ -0,0 +1,72 @@
+import { SolarDay } from 'tyme4ts';
+import type { DateDisplayFormat } from '../types/project';
+
+const MONTH_NAMES_EN = [
+  'Jan',
+  'Feb',
+  'Mar',
+  'Apr',
+  'May',
+  'Jun',
+  'Jul',
+  'Aug',
+  'Sep',
+  'Oct',
+  'Nov',
+  'Dec',
+];
+
+// 农历：干支年 + 月 + 日，当天为节气或节日时追加名称（如“清明”“中秋节”）
+function formatLunarDate(year: number, month: number, day: number): string {
+  const solarDay = SolarDay.fromYmd(year, month, day);
+  const lunarDay = solarDay.getLunarDay();
+  const lunarMonth = lunarDay.getLunarMonth();
+  const yearName = lunarMonth.getLunarYear().getSixtyCycle().getName();
+  const parts = [`${yearName}年${lunarMonth.getName()}${lunarDay.getName()}`];
+  const termDay = solarDay.getTermDay();
+  const term = termDay.getDayIndex() === 0 ? termDay.getSolarTerm().getName() : '';
+  if (term) {
+    parts.push(term);
+  }
+  // 清明节、冬至节等与节气同名的节日不重复显示
+  [lunarDay.getFestival()?.getName(), solarDay.getFestival()?.getName()].forEach((name) => {
+    if (name && name !== `${term}节` && !parts.includes(name)) {
+      parts.push(name);
+    }
+  });
+  return parts.join(' ');
+}
+
+// 存储值为 YYYY-MM-DD，无法识别时原样输出
+export function formatStampDate(value: string | null, format: DateDisplayFormat): string {
+  if (!value) {
+    return '';
+  }
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value.trim());
+  if (!match) {
+    return value;
+  }
+  const [, yearText, monthText, dayText] = match;
+  const year = Number(yearText);
+  const month = Number(monthText);
+  const day = Number(dayText);
+  switch (format) {
+    case 'dot':
+      return `${yearText}.${monthText}.${dayText}`;
+    case 'cjk':
+      return `${year}年${month}月${day}日`;
+    case 'en':
+      return `${MONTH_NAMES_EN[month - 1] ?? monthText} ${day}, ${year}`;
+    case 'month':
+      return `${year}年${month}月`;
+    case 'lunar':
+      try {
+        return formatLunarDate(year, month, day);
+      } catch {
+        // 超出农历数据范围或日期无效
+        return value;
+      }
+    default:
+      return `${yearText}-${monthText}-${dayText}`;
+  }
+}
@@ -0,0 +1,200 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import opentype from 'opentype.js';
+import { STAMP_FONTS, type StampFont } from '../shared/stamp-fonts';
+import type { StampTemplate } from '../types/project';
+
+export type StampFontSet = { cjk: opentype.Font; latin: opentype.Font };
+
+type GlyphRun = { text: string; font: opentype.Font };
+
+// 字体文件较大（中文字体子集约 6MB），解析一次后常驻
+const fontCache = new Map<string, Promise<opentype.Font>>();
+
+let fontRoots = [
+  path.resolve(__dirname, '../../assets/fonts'),
+  path.join(process.cwd(), 'assets', 'fonts'),
+];
+
+// 主进程按应用路径设置；导出 worker 中无法访问 electron，由主进程传入同一组目录
+export function setFontRoots(roots: string[]): void {
+  fontRoots = roots;
+}
+
+export function getFontRoots(): string[] {
+  return fontRoots;
+}
+
+function getFontCandidates(file: string): string[] {
+  return fontRoots.map((root) => path.join(root, file));
+}
+
+async function readFont(spec: StampFont): Promise<opentype.Font> {
+  for (const candidate of getFontCandidates(spec.file)) {
+    try {
+      const buffer = await fs.readFile(candidate);
+      return opentype.parse(
+        buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength),
+      );
+    } catch {
+      // try next candidate
+    }
+  }
+  throw new Error(`缺少字体文件: ${spec.file}`);
+}
+
+function loadFont(id: string): Promise<opentype.Font> {
+  const spec = STAMP_FONTS.find((font) => font.id === id) ?? STAMP_FONTS[0];
+  const cached = fontCache.get(spec.id);
+  if (cached) {
+    return cached;
+  }
+  const pending = readFont(spec);
+  fontCache.set(spec.id, pending);
+  pending.catch(() => fontCache.delete(spec.id));
+  return pending;
+}
+
+export async function loadStampFonts(
+  fontFamily: StampTemplate['fontFamily'],
+): Promise<StampFontSet> {
+  const [cjk, latin] = await Promise.all([loadFont(fontFamily.cjk), loadFont(fontFamily.latin)]);
+  return { cjk, latin };
+}
+
+function isCjkCode(code: number): boolean {
+  return (
+    (code >= 0x4e00 && code <= 0x9fff) ||
+    (code >= 0x3400 && code <= 0x4dbf) ||
+    (code >= 0x3040 && code <= 0x30ff) ||
+    (code >= 0xac00 && code <= 0xd7af) ||
+    (code >= 0x3000 && code <= 0x303f) ||
+    (code >= 0xff01 && code <= 0xff0f) ||
+    (code >= 0xff1a && code <= 0xff20) ||
+    (code >= 0xff3b && code <= 0xff40) ||
+    (code >= 0xff5b && code <= 0xff65) ||
+    code === 0x2013 ||
+    code === 0x2014 ||
+    code === 0x2018 ||
+    code === 0x2019 ||
+    code === 0x201c ||
+    code === 0x201d ||
+    code === 0x2026 ||
+    code === 0x00b7
+  );
+}
+
+// 两套字体都没有字形的字符，渲染后会显示为方框，编辑与导出前提示
+export function findMissingGlyphs(text: string, fonts: StampFontSet): string[] {
+  const missing = new Set<string>();
+  for (const char of text) {
+    if (
+      !/\s/.test(char) &&
+      fonts.cjk.charToGlyphIndex(char) === 0 &&
+      fonts.latin.charToGlyphIndex(char) === 0
+    ) {
+      missing.add(char);
+    }
+  }
+  return [...missing];
+}
+
+// 按文字类别选字体；首选字体缺字时改用另一套，避免出现方框
+function splitGlyphRuns(text: string, fonts: StampFontSet): GlyphRun[] {
+  const runs: GlyphRun[] = [];
+  for (const char of text) {
+    const cjk = isCjkCode(char.codePointAt(0) ?? 0);
+    const preferred = cjk ? fonts.cjk : fonts.latin;
+    const fallback = cjk ? fonts.latin : fonts.cjk;
+    const font =
+      preferred.charToGlyphIndex(char) > 0 || fallback.charToGlyphIndex(char) === 0
+        ? preferred
+        : fallback;
+    const last = runs[runs.length - 1];
+    if (last && last.font === font) {
+      last.text += char;
+    } else {
+      runs.push({ text: char, font });
+    }
+  }
+  return runs;
+}
+
+// 按字形真实步进宽度（含字偶距）计算，与 buildTextPath 的排版完全一致
+export function measureText(text: string, fonts: StampFontSet, fontSize: number): number {
+  return splitGlyphRuns(text, fonts).reduce(
+    (total, run) => total + run.font.getAdvanceWidth(run.text, fontSize, { kerning: true }),
+    0,
+  );
+}
+
+// 文字转为 SVG 路径数据，x 为起点，baseline 为基线位置
+export function buildTextPath(
+  text: string,
+  fonts: StampFontSet,
+  fontSize: number,
+  x: number,
+  baseline: number,
+): string {
+  let cursor = x;
+  return splitGlyphRuns(text, fonts)
+    .map((run) => {
+      const data = run.font
+        .getPath(run.text, cursor, baseline, fontSize, { kerning: true })
+        .toPathData(2);
+      cursor += run.font.getAdvanceWidth(run.text, fontSize, { kerning: true });
+      return data;
+    })
+    .filter(Boolean)
+    .join(' ');
+}
+
+const ELLIPSIS = '…';
+const LINE_START_FORBIDDEN = new Set(Array.from('，。、；：！？）》」』】,.;:!?)'));
+
+// 取 maxWidth 内能放下的最长前缀，优先在空格处断开，返回 [本行, 余下]
+export function breakText(
+  text: string,
+  fonts: StampFontSet,
+  fontSize: number,
+  maxWidth: number,
+): [string, string] {
+  const chars = Array.from(text);
+  let count = 0;
+  while (
+    count < chars.length &&
+    measureText(chars.slice(0, count + 1).join(''), fonts, fontSize) <= maxWidth
+  ) {
+    count += 1;
+  }
+  if (count === chars.length) {
+    return [text, ''];
+  }
+  const space = chars.slice(0, count).lastIndexOf(' ');
+  let cut = space > count * 0.6 ? space : count;
+  // 标点不放在行首，连同前一个字一起移到下一行
+  while (cut > 1 && LINE_START_FORBIDDEN.has(chars[cut])) {
+    cut -= 1;
+  }
+  return [chars.slice(0, cut).join('').trimEnd(), chars.slice(cut).join('').trimStart()];
+}
+
+// 放不下时截断并补省略号
+export function truncateText(
+  text: string,
+  fonts: StampFontSet,
+  fontSize: number,
+  maxWidth: number,
+): string {
+  if (measureText(text, fonts, fontSize) <= maxWidth) {
+    return text;
+  }
+  const chars = Array.from(text);
+  for (let count = chars.length - 1; count > 0; count -= 1) {
+    const candidate = `${chars.slice(0, count).join('').trimEnd()}${ELLIPSIS}`;
+    if (measureText(candidate, fonts, fontSize) <= maxWidth) {
+      return candidate;
+    }
+  }
+  return measureText(ELLIPSIS, fonts, fontSize) <= maxWidth ? ELLIPSIS : '';
+}
@@ -0,0 +1,177 @@
+import fs from 'node:fs/promises';
+import { crc32 } from 'node:zlib';
+
+// 边导出边写入的 ZIP 文件：每个条目写完即落盘，内存中只保留中央目录
+// 照片本身已压缩，条目一律不再压缩（store）；偏移或条目数超出 32 位时写 ZIP64 结构
+
+export type ZipWriter = {
+  // 条目按调用顺序依次写入，name 以 / 分隔
+  add: (name: string, data: Buffer) => Promise<void>;
+  finish: () => Promise<void>;
+  // 出错时关闭并删除未完成的文件
+  abort: () => Promise<void>;
+};
+
+type CentralEntry = {
+  name: Buffer;
+  crc: number;
+  size: number;
+  offset: number;
+  time: number;
+  date: number;
+};
+
+const UTF8_FLAG = 0x0800;
+const VERSION_ZIP64 = 45;
+const VERSION_DEFAULT = 20;
+const MAX_UINT16 = 0xffff;
+const MAX_UINT32 = 0xffffffff;
+
+// ZIP 使用 DOS 时间：本地时间，精度 2 秒，最早 1980 年
+function toDosDateTime(value: Date): { time: number; date: number } {
+  const year = Math.max(value.getFullYear(), 1980);
+  return {
+    time:
+      (value.getHours() << 11) | (value.getMinutes() << 5) | Math.floor(value.getSeconds() / 2),
+    date: ((year - 1980) << 9) | ((value.getMonth() + 1) << 5) | value.getDate(),
+  };
+}
+
+function buildLocalHeader(entry: CentralEntry): Buffer {
+  const header = Buffer.alloc(30);
+  header.writeUInt32LE(0x04034b50, 0);
+  header.writeUInt16LE(VERSION_DEFAULT, 4);
+  header.writeUInt16LE(UTF8_FLAG, 6);
+  header.writeUInt16LE(0, 8);
+  header.writeUInt16LE(entry.time, 10);
+  header.writeUInt16LE(entry.date, 12);
+  header.writeUInt32LE(entry.crc, 14);
+  header.writeUInt32LE(entry.size, 18);
+  header.writeUInt32LE(entry.size, 22);
+  header.writeUInt16LE(entry.name.length, 26);
+  header.writeUInt16LE(0, 28);
+  return Buffer.concat([header, entry.name]);
+}
+
+function buildCentralHeader(entry: CentralEntry): Buffer {
+  const zip64 = entry.offset >= MAX_UINT32;
+  // ZIP64 扩展字段只记录超出范围的本地头偏移
+  const extra = Buffer.alloc(zip64 ? 12 : 0);
+  if (zip64) {
+    extra.writeUInt16LE(0x0001, 0);
+    extra.writeUInt16LE(8, 2);
+    extra.writeBigUInt64LE(BigInt(entry.offset), 4);
+  }
+  const header = Buffer.alloc(46);
+  header.writeUInt32LE(0x02014b50, 0);
+  header.writeUInt16LE(VERSION_ZIP64, 4);
+  header.writeUInt16LE(zip64 ? VERSION_ZIP64 : VERSION_DEFAULT, 6);
+  header.writeUInt16LE(UTF8_FLAG, 8);
+  header.writeUInt16LE(0, 10);
+  header.writeUInt16LE(entry.time, 12);
+  header.writeUInt16LE(entry.date, 14);
+  header.writeUInt32LE(entry.crc, 16);
+  header.writeUInt32LE(entry.size, 20);
+  header.writeUInt32LE(entry.size, 24);
+  header.writeUInt16LE(entry.name.length, 28);
+  header.writeUInt16LE(extra.length, 30);
+  header.writeUInt32LE(zip64 ? MAX_UINT32 : entry.offset, 42);
+  return Buffer.concat([header, entry.name, extra]);
+}
+
+function buildEndRecords(count: number, directoryOffset: number, directorySize: number): Buffer {
+  const records: Buffer[] = [];
+  const zip64 =
+    count >= MAX_UINT16 || directoryOffset >= MAX_UINT32 || directorySize >= MAX_UINT32;
+  if (zip64) {
+    const end64 = Buffer.alloc(56);
+    end64.writeUInt32LE(0x06064b50, 0);
+    end64.writeBigUInt64LE(44n, 4);
+    end64.writeUInt16LE(VERSION_ZIP64, 12);
+    end64.writeUInt16LE(VERSION_ZIP64, 14);
+    end64.writeBigUInt64LE(BigInt(count), 24);
+    end64.writeBigUInt64LE(BigInt(count), 32);
+    end64.writeBigUInt64LE(BigInt(directorySize), 40);
+    end64.writeBigUInt64LE(BigInt(directoryOffset), 48);
+    const locator = Buffer.alloc(20);
+    locator.writeUInt32LE(0x07064b50, 0);
+    locator.writeBigUInt64LE(BigInt(directoryOffset + directorySize), 8);
+    locator.writeUInt32LE(1, 16);
+    records.push(end64, locator);
+  }
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(Math.min(count, MAX_UINT16), 8);
+  end.writeUInt16LE(Math.min(count, MAX_UINT16), 10);
+  end.writeUInt32LE(Math.min(directorySize, MAX_UINT32), 12);
+  end.writeUInt32LE(Math.min(directoryOffset, MAX_UINT32), 16);
+  records.push(end);
+  return Buffer.concat(records);
+}
+
+export async function createZipWriter(filePath: string): Promise<ZipWriter> {
+  // wx：不覆盖已存在的文件
+  const handle = await fs.open(filePath, 'wx');
+  const entries: CentralEntry[] = [];
+  let offset = 0;
+  let closed = false;
+  // 并发完成的照片排队写入，保证条目在文件中连续
+  let queue: Promise<void> = Promise.resolve();
+
+  const write = async (data: Buffer) => {
+    await handle.write(data);
+    offset += data.length;
+  };
+
+  const enqueue = (task: () => Promise<void>) => {
+    const next = queue.then(task);
+    queue = next.catch(() => undefined);
+    return next;
+  };
+
+  return {
+    add: (name, data) =>
+      enqueue(async () => {
+        if (closed) {
+          throw new Error('压缩包已关闭');
+        }
+        if (data.length >= MAX_UINT32) {
+          throw new Error(`文件过大，无法写入压缩包: ${name}`);
+        }
+        const entry: CentralEntry = {
+          name: Buffer.from(name, 'utf-8'),
+          crc: crc32(data) >>> 0,
+          size: data.length,
+          offset,
+          ...toDosDateTime(new Date()),
+        };
+        await write(buildLocalHeader(entry));
+        await write(data);
+        entries.push(entry);
+      }),
+    finish: () =>
+      enqueue(async () => {
+        if (closed) {
+          return;
+        }
+        closed = true;
+        try {
+          const directoryOffset = offset;
+          const directory = Buffer.concat(entries.map(buildCentralHeader));
+          await write(directory);
+          await write(buildEndRecords(entries.length, directoryOffset, directory.length));
+        } finally {
+          await handle.close();
+        }
+      }),
+    abort: async () => {
+      const wasClosed = closed;
+      closed = true;
+      await queue;
+      if (!wasClosed) {
+        await handle.close().catch(() => undefined);
+      }
+      await fs.rm(filePath, { force: true });
+    },
+  };
+}
@@ -1,5 +1,44 @@
 import { useEffect, useMemo, useRef, useState } from 'react';
 import './index.css';
+import { EXPORT_MANIFEST_FILE } from '../shared/export-naming';
+import { EXPORT_FAILURE_LABELS, EXPORT_REPORT_BASENAME } from '../shared/export-report';
+import { DEFAULT_EXPORT_SETTINGS, normalizeExportSettings } from '../shared/export-settings';
+import {
+  BUILT_IN_EXPORT_SIZES,
+  DEFAULT_EXPORT_SIZE_ID,
+  describeExportSize,
+  getExportSizePixels,
+  normalizeExportSize,
+  resolveExportSize,
+} from '../shared/export-sizes';
+import {
+  DEFAULT_STAMP_TEMPLATE,
+  DEFAULT_TEMPLATE_ID,
+  normalizeStampTemplate,
+} from '../shared/stamp-template';
+import { fitCropToRatio, normalizePhotoCrop } from '../shared/photo-crop';
+import { reconcilePhotos } from '../shared/photo-reconcile';
+import type {
+  CaptionCheckResult,
+  CaptionFitStatus,
+  ExportSettings,
+  ExportFailure,
+  ExportSizeSpec,
+  ExportUpdateSummary,
+  FolderChange,
+  PhotoCrop,
+  PhotoRotation,
+  ResolutionCheckResult,
+  ScannedPhoto,
+  SkippedFile,
+  SkippedFileReason,
+  StampTemplate,
+} from '../types/project';
+import { CachePanel } from './CachePanel';
+import { CropOverlay } from './CropOverlay';
+import { ExportSettingsPanel } from './ExportSettingsPanel';
+import { SizePanel } from './SizePanel';
+import { TemplatePanel } from './TemplatePanel';
 
 type PhotoMeta = {
   date: string | null;
@@ -8,6 +47,9 @@ type PhotoMeta = {
   exifDate: string | null;
   locationSkipped: boolean;
   descriptionSkipped: boolean;
+  rotation: PhotoRotation;
+  mirrored: boolean;
+  crop: PhotoCrop | null;
 };
 
 type PhotoItem = {
@@ -16,6 +58,10 @@ type PhotoItem = {
   relativePath: string;
   fileUrl: string;
   thumbnailUrl?: string;
+  // 内容指纹，用于重新扫描时找回被移动或重命名的照片
+  fingerprint: string | null;
+  // 原图已不在目录中，信息保留到用户确认移除
+  missing?: boolean;
   selected: boolean;
   meta: PhotoMeta;
 };
@@ -24,17 +70,40 @@ type ProjectData = {
   version: string;
   name: string;
   baseDir: string | null;
-  exportSize: '5' | '5L' | '6' | '6L';
+  exportSize: string;
+  customSizes?: ExportSizeSpec[];
+  exportSettings?: ExportSettings;
+  templates?: StampTemplate[];
+  activeTemplateId?: string;
   photos: Array<{
     id: string;
     filename: string;
     relativePath: string;
+    fingerprint?: string | null;
     selected: boolean;
     meta: PhotoMeta;
   }>;
 };
 
-type PageItem = number | 'ellipsis';
+// 重新扫描目录的结果：open 为打开项目时发现的变化，missing 只列出缺失的照片
+type RescanReport = {
+  source: 'open' | 'rescan' | 'missing';
+  added: string[];
+  moved: Array<{ from: string; to: string }>;
+  missing: string[];
+};
+
+// 缩略图列表的一行：日期标题，或 start..end（不含）的一排照片，top 为在滚动区域内的位置
+type ThumbRow =
+  | { kind: 'header'; top: number; height: number; start: number; label: string; count: number }
+  | { kind: 'photos'; top: number; height: number; start: number; end: number };
+
+type ThumbLayout = {
+  rows: ThumbRow[];
+  height: number;
+  // 每张照片所在的行
+  rowOfPhoto: number[];
+};
 
 type PreviewMode = 'final' | 'original';
 type ExportDialogState = {
@@ -43,9 +112,35 @@ type ExportDialogState = {
   failed: number;
   total: number;
   outputDir?: string;
+  archivePath?: string;
+  sheets?: number;
+  documentPath?: string;
+  pages?: number;
+  update?: ExportUpdateSummary;
+  failures?: ExportFailure[];
+  // 重试失败项时写入的位置：单张导出更新原目录，拼版与压缩包导出在原上级目录新建
+  retryTarget?: { exportDir: string; update: boolean };
   note?: string;
 };
 
+// new：新建导出目录；update：按清单更新已有的导出目录
+type ExportMode = 'new' | 'update';
+type ExportRunState = 'running' | 'paused' | 'cancelling';
+
+// 导出前需要确认的照片：文字放不下或有缺字的、有效 DPI 低于阈值的
+type ExportReviewState = {
+  captionItems: Array<{ filename: string; status: CaptionFitStatus; missingGlyphs: string[] }>;
+  softItems: Array<{ filename: string; effectiveDpi: number }>;
+  readyItems: PhotoItem[];
+  mode: ExportMode;
+};
+
+// 有效 DPI 按照片与尺寸、模板计算，照片部分只取决于原图、方向与裁切
+type ResolutionChecks = {
+  context: string;
+  values: Record<string, number | null>;
+};
+
 type HelpDialogState = {
   title: string;
   subtitle?: string;
@@ -63,8 +158,37 @@ const ACTION_LABELS: Record<ActionKey, string> = {
   all: '应用全部',
 };
 
+const CAPTION_FIT_HINTS: Record<CaptionFitStatus, string> = {
+  fit: '',
+  shrunk: '文字较长，导出时将缩小字号',
+  wrapped: '文字较长，导出时将换行并加高白边',
+  truncated: '文字过长，超出部分将以省略号截断',
+};
+
+// 缺字提示，字数较多时只列出前几个
+const MISSING_GLYPH_PREVIEW_LIMIT = 8;
+const describeMissingGlyphs = (chars: string[]) =>
+  `字体中没有“${chars.slice(0, MISSING_GLYPH_PREVIEW_LIMIT).join('')}”${
+    chars.length > MISSING_GLYPH_PREVIEW_LIMIT ? '等字' : ''
+  }，导出后会显示为方框`;
+
+const SKIPPED_FILE_HINTS: Record<SkippedFileReason, string> = {
+  unsupported: '格式不支持',
+  'raw-pair': '已导入同名的 JPEG 等文件',
+};
+
 const ACTION_FEEDBACK_DURATION = 800;
 const STATUS_FEEDBACK_DURATION = 2600;
+const THUMBNAIL_SIZE = 256;
+// 缩略图格子的宽度（可调）与列表排版，单位 px
+const THUMB_SIZE_MIN = 96;
+const THUMB_SIZE_MAX = 260;
+const THUMB_SIZE_DEFAULT = 140;
+const THUMB_GRID_PADDING = 12;
+const THUMB_GAP = 10;
+const THUMB_HEADER_HEIGHT = 28;
+// 可见区域上下额外渲染的高度，滚动时缩略图提前加载
+const THUMB_OVERSCAN = 320;
 const THUMB_FLASH_DURATION = 520;
 
 const normalizeMeta = (meta?: Partial<PhotoMeta>): PhotoMeta => ({
@@ -74,34 +198,175 @@ const normalizeMeta = (meta?: Partial<PhotoMeta>): PhotoMeta => ({
   exifDate: meta?.exifDate ?? null,
   locationSkipped: Boolean(meta?.locationSkipped),
   descriptionSkipped: Boolean(meta?.descriptionSkipped),
+  rotation: meta?.rotation ?? 0,
+  mirrored: Boolean(meta?.mirrored),
+  crop: normalizePhotoCrop(meta?.crop),
 });
 
 const buildOutputMeta = (meta: PhotoMeta) => ({
   date: meta.date,
   location: meta.locationSkipped ? '' : meta.location,
   description: meta.descriptionSkipped ? '' : meta.description,
+  rotation: meta.rotation,
+  mirrored: meta.mirrored,
+  crop: meta.crop,
 });
 
+const rotateBy = (rotation: PhotoRotation, delta: number): PhotoRotation =>
+  ((((rotation + delta) % 360) + 360) % 360) as PhotoRotation;
+
+const normalizeTemplates = (input?: StampTemplate[]): StampTemplate[] => {
+  const list = Array.isArray(input) ? input.map((item) => normalizeStampTemplate(item)) : [];
+  return list.length > 0 ? list : [DEFAULT_STAMP_TEMPLATE];
+};
+
+const toSavedPhoto = (photo: PhotoItem): ProjectData['photos'][number] => ({
+  id: photo.id,
+  filename: photo.filename,
+  relativePath: photo.relativePath,
+  fingerprint: photo.fingerprint,
+  selected: photo.selected,
+  meta: photo.meta,
+});
+
+// 把扫描结果合并进已有照片：路径未变或按内容指纹找到的照片沿用原来的 id、勾选与信息
+// 找不到原图的照片标为缺失并保留信息，新文件按默认信息加入
+const mergeScannedPhotos = (previous: PhotoItem[], scanned: ScannedPhoto[]) => {
+  const result = reconcilePhotos(previous, scanned);
+  const carry = ({ saved, scanned: item }: { saved: PhotoItem; scanned: ScannedPhoto }) => ({
+    ...item,
+    id: saved.id || item.id,
+    selected: saved.selected,
+    meta: saved.meta,
+    // 位置或内容变了，缩略图重新生成
+    thumbnailUrl:
+      saved.relativePath === item.relativePath && saved.fingerprint === item.fingerprint
+        ? saved.thumbnailUrl
+        : undefined,
+  });
+  const photos: PhotoItem[] = [
+    ...result.kept.map(carry),
+    ...result.moved.map(carry),
+    ...result.added.map((item) => ({ ...item, selected: false, meta: normalizeMeta() })),
+    ...result.missing.map((photo) => ({
+      ...photo,
+      fileUrl: '',
+      thumbnailUrl: undefined,
+      missing: true,
+    })),
+  ].sort((a, b) => a.relativePath.localeCompare(b.relativePath));
+  return {
+    photos,
+    added: result.added.map((item) => item.relativePath),
+    moved: result.moved.map(({ saved, scanned: item }) => ({
+      from: saved.relativePath,
+      to: item.relativePath,
+    })),
+    missing: result.missing.map((photo) => photo.relativePath),
+  };
+};
+
+// 实时监视推送的变化：删除的照片标为缺失，内容变化的重新生成缩略图
+// 新增的文件先与缺失的照片按路径、内容指纹对应（放回或移动），其余按默认信息加入
+const applyFolderChange = (previous: PhotoItem[], change: FolderChange) => {
+  const removed = new Set(change.removed);
+  const changed = new Map(change.changed.map((item) => [item.relativePath, item]));
+  const present: PhotoItem[] = [];
+  const absent: PhotoItem[] = [];
+  for (const photo of previous) {
+    if (photo.missing || removed.has(photo.relativePath)) {
+      absent.push(photo);
+      continue;
+    }
+    const update = changed.get(photo.relativePath);
+    present.push(
+      update
+        ? {
+            ...photo,
+            fileUrl: update.fileUrl,
+            fingerprint: update.fingerprint,
+            thumbnailUrl: undefined,
+          }
+        : photo,
+    );
+  }
+  // 手动重新扫描后监视器的记录可能落后，已在列表中的路径不重复加入
+  const presentPaths = new Set(present.map((photo) => photo.relativePath));
+  const merged = mergeScannedPhotos(
+    absent,
+    change.added.filter((item) => !presentPaths.has(item.relativePath)),
+  );
+  const wasMissing = new Set(
+    previous.filter((photo) => photo.missing).map((photo) => photo.relativePath),
+  );
+  return {
+    photos: [...present, ...merged.photos].sort((a, b) =>
+      a.relativePath.localeCompare(b.relativePath),
+    ),
+    added: merged.added,
+    moved: merged.moved,
+    changed: present.filter((photo) => changed.has(photo.relativePath)).length,
+    missing: merged.missing.filter((relativePath) => !wasMissing.has(relativePath)),
+  };
+};
+
+const getResolutionKey = (photo: PhotoItem) =>
+  `${photo.relativePath}|${photo.fingerprint ?? ''}|${photo.meta.rotation}|${
+    photo.meta.mirrored ? 'm' : ''
+  }|${JSON.stringify(photo.meta.crop ?? null)}`;
+
 const isMetaComplete = (meta: PhotoMeta) =>
   Boolean(meta.date) &&
   (meta.locationSkipped || Boolean(meta.location)) &&
   (meta.descriptionSkipped || Boolean(meta.description));
 
-const buildPageItems = (totalPages: number, currentIndex: number): PageItem[] => {
-  if (totalPages <= 5) {
-    return Array.from({ length: totalPages }, (_, index) => index + 1);
-  }
-
-  const currentPage = currentIndex + 1;
-  if (currentPage <= 3) {
-    return [1, 2, 3, 'ellipsis', totalPages];
+// 按项目顺序排列，连续同一天的照片归为一节、节首加日期标题；照片下标与 photos 一致
+const buildThumbLayout = (photos: PhotoItem[], columns: number, rowHeight: number): ThumbLayout => {
+  const rows: ThumbRow[] = [];
+  const rowOfPhoto: number[] = [];
+  let top = THUMB_GRID_PADDING;
+  let start = 0;
+  while (start < photos.length) {
+    const date = photos[start].meta.date;
+    let end = start + 1;
+    while (end < photos.length && photos[end].meta.date === date) {
+      end += 1;
+    }
+    rows.push({
+      kind: 'header',
+      top,
+      height: THUMB_HEADER_HEIGHT,
+      start,
+      label: date ?? '未设置日期',
+      count: end - start,
+    });
+    top += THUMB_HEADER_HEIGHT;
+    for (let rowStart = start; rowStart < end; rowStart += columns) {
+      const rowEnd = Math.min(end, rowStart + columns);
+      for (let index = rowStart; index < rowEnd; index += 1) {
+        rowOfPhoto[index] = rows.length;
+      }
+      rows.push({ kind: 'photos', top, height: rowHeight, start: rowStart, end: rowEnd });
+      top += rowHeight + THUMB_GAP;
+    }
+    start = end;
   }
+  return { rows, height: top + THUMB_GRID_PADDING, rowOfPhoto };
+};
 
-  if (currentPage >= totalPages - 2) {
-    return [1, 'ellipsis', totalPages - 2, totalPages - 1, totalPages];
+// 第一个底边不在 offset 之上的行
+const findThumbRow = (rows: ThumbRow[], offset: number) => {
+  let low = 0;
+  let high = rows.length;
+  while (low < high) {
+    const middle = (low + high) >> 1;
+    if (rows[middle].top + rows[middle].height < offset) {
+      low = middle + 1;
+    } else {
+      high = middle;
+    }
   }
-
-  return [1, 'ellipsis', currentPage, 'ellipsis', totalPages];
+  return low;
 };
 
 const getNameFromPath = (filePath: string | null): string | null => {
@@ -114,15 +379,8 @@ const getNameFromPath = (filePath: string | null): string | null => {
   return withoutExt || null;
 };
 
-const EXPORT_SIZE_META: Record<
-  '5' | '5L' | '6' | '6L',
-  { label: string; ratio: string; cm: string }
-> = {
-  '5': { label: '5寸', ratio: '10:7', cm: '12.7 × 8.9' },
-  '5L': { label: '大5寸', ratio: '4:3', cm: '12.7 × 9.5' },
-  '6': { label: '6寸', ratio: '3:2', cm: '15.2 × 10.2' },
-  '6L': { label: '大6寸', ratio: '4:3', cm: '15.2 × 11.4' },
-};
+const normalizeCustomSizes = (input?: ExportSizeSpec[]): ExportSizeSpec[] =>
+  Array.isArray(input) ? input.map((item) => normalizeExportSize(item)) : [];
 
 export function App() {
   const MIN_LEFT_WIDTH = 240;
@@ -133,20 +391,52 @@ export function App() {
   const [projectPath, setProjectPath] = useState<string | null>(null);
   const [projectName, setProjectName] = useState('未命名项目');
   const [baseDir, setBaseDir] = useState<string | null>(null);
-  const [exportSize, setExportSize] = useState<'5' | '5L' | '6' | '6L'>('5L');
+  const [exportSize, setExportSize] = useState(DEFAULT_EXPORT_SIZE_ID);
+  const [customSizes, setCustomSizes] = useState<ExportSizeSpec[]>([]);
+  const [sizePanelOpen, setSizePanelOpen] = useState(false);
+  const [exportSettings, setExportSettings] = useState<ExportSettings>(DEFAULT_EXPORT_SETTINGS);
+  const [settingsPanelOpen, setSettingsPanelOpen] = useState(false);
+  const [cachePanelOpen, setCachePanelOpen] = useState(false);
+  // 打开目录时未导入的文件，状态栏可查看列表
+  const [skippedFiles, setSkippedFiles] = useState<SkippedFile[]>([]);
+  const [skippedDialogOpen, setSkippedDialogOpen] = useState(false);
+  const [rescanReport, setRescanReport] = useState<RescanReport | null>(null);
+  // 缓存被清理后递增，促使预览重新生成
+  const [cacheGeneration, setCacheGeneration] = useState(0);
+  const [templates, setTemplates] = useState<StampTemplate[]>([DEFAULT_STAMP_TEMPLATE]);
+  const [activeTemplateId, setActiveTemplateId] = useState(DEFAULT_TEMPLATE_ID);
+  const [templatePanelOpen, setTemplatePanelOpen] = useState(false);
   const [photos, setPhotos] = useState<PhotoItem[]>([]);
   const [isExporting, setIsExporting] = useState(false);
   const [exportDialog, setExportDialog] = useState<ExportDialogState | null>(null);
+  // 从失败列表跳到照片时暂时收起结果弹窗，可从状态栏重新打开
+  const [exportDialogHidden, setExportDialogHidden] = useState(false);
   const [helpDialog, setHelpDialog] = useState<HelpDialogState | null>(null);
+  const [exportReview, setExportReview] = useState<ExportReviewState | null>(null);
+  const [captionCheck, setCaptionCheck] = useState<CaptionCheckResult | null>(null);
+  const [resolutionChecks, setResolutionChecks] = useState<ResolutionChecks>({
+    context: '',
+    values: {},
+  });
   const [exportProgress, setExportProgress] = useState<{ current: number; total: number } | null>(
     null,
   );
+  const [exportRunState, setExportRunState] = useState<ExportRunState>('running');
+  const [indexProgress, setIndexProgress] = useState<{ done: number; total: number } | null>(null);
   const [currentPhotoId, setCurrentPhotoId] = useState<string | null>(null);
   const [multiSelectedIds, setMultiSelectedIds] = useState<string[]>([]);
   const [selectionAnchorIndex, setSelectionAnchorIndex] = useState<number | null>(null);
-  const [pageSize, setPageSize] = useState(1);
-  const [pageIndex, setPageIndex] = useState(0);
+  const [thumbSize, setThumbSize] = useState(THUMB_SIZE_DEFAULT);
+  const [gridViewport, setGridViewport] = useState({ width: 0, height: 0 });
+  const [gridScrollTop, setGridScrollTop] = useState(0);
   const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [previewUrlMode, setPreviewUrlMode] = useState<PreviewMode>('original');
+  const [previewNatural, setPreviewNatural] = useState<{ width: number; height: number } | null>(
+    null,
+  );
+  const previewImageRef = useRef<HTMLImageElement | null>(null);
+  // 非空表示正在编辑裁切，确认后才写回照片
+  const [cropDraft, setCropDraft] = useState<PhotoCrop | null>(null);
   const [previewMode, setPreviewMode] = useState<PreviewMode>('original');
   const [zoom, setZoom] = useState(1);
   const [columnSizes, setColumnSizes] = useState({ left: MIN_LEFT_WIDTH, right: MIN_RIGHT_WIDTH });
@@ -159,20 +449,32 @@ export function App() {
   const [flashIds, setFlashIds] = useState<Set<string>>(new Set());
   const dirtyRef = useRef(false);
   const suppressDirtyRef = useRef(false);
+  // 进度回调里读取，暂停/取消期间不覆盖状态栏提示
+  const exportRunStateRef = useRef<ExportRunState>('running');
   const autoSavingRef = useRef(false);
   const latestProjectRef = useRef<{
     baseDir: string | null;
-    exportSize: '5' | '5L' | '6' | '6L';
+    exportSize: string;
+    customSizes: ExportSizeSpec[];
+    exportSettings: ExportSettings;
+    templates: StampTemplate[];
+    activeTemplateId: string;
     photos: PhotoItem[];
-  }>({ baseDir: null, exportSize: '5L', photos: [] });
+  }>({
+    baseDir: null,
+    exportSize: DEFAULT_EXPORT_SIZE_ID,
+    customSizes: [],
+    exportSettings: DEFAULT_EXPORT_SETTINGS,
+    templates: [DEFAULT_STAMP_TEMPLATE],
+    activeTemplateId: DEFAULT_TEMPLATE_ID,
+    photos: [],
+  });
   const actionTimersRef = useRef<Partial<Record<ActionKey, number>>>({});
   const transientTimerRef = useRef<number | null>(null);
   const flashTimersRef = useRef<Map<string, { token: number; timeoutId: number }>>(new Map());
   const contentRef = useRef<HTMLDivElement | null>(null);
   const gridRef = useRef<HTMLDivElement | null>(null);
   const sizesInitialized = useRef(false);
-  const gridColumnsRef = useRef(2);
-  const [columns, setColumns] = useState(2);
   const dragRef = useRef<{
     side: 'left' | 'right';
     startX: number;
@@ -182,6 +484,12 @@ export function App() {
   const launchHandledRef = useRef(false);
 
   const apiAvailable = useMemo(() => Boolean(window.imgstamp), []);
+  const activeTemplate =
+    templates.find((item) => item.id === activeTemplateId) ?? templates[0] ?? DEFAULT_STAMP_TEMPLATE;
+  const activeSize = useMemo(
+    () => resolveExportSize(exportSize, customSizes),
+    [exportSize, customSizes],
+  );
   const statusText = apiAvailable ? (transientMessage ?? statusMessage) : '预加载未就绪';
 
   const pushTransientMessage = (message: string, duration = STATUS_FEEDBACK_DURATION) => {
@@ -240,9 +548,17 @@ export function App() {
   const getActionLabel = (key: ActionKey) => actionFeedback[key]?.label ?? ACTION_LABELS[key];
   const getActionClass = (key: ActionKey) =>
     actionFeedback[key]?.tone ? `btn--feedback-${actionFeedback[key]?.tone}` : '';
-  const handleExportSizeChange = (size: '5' | '5L' | '6' | '6L') => {
-    setExportSize(size);
-    const label = EXPORT_SIZE_META[size]?.label ?? size;
+  const handleActivateTemplate = (id: string) => {
+    setActiveTemplateId(id);
+    const name = templates.find((item) => item.id === id)?.name;
+    if (name) {
+      setStatusMessage(`已切换样式模板: ${name}`);
+    }
+  };
+
+  const handleExportSizeChange = (sizeId: string) => {
+    setExportSize(sizeId);
+    const label = resolveExportSize(sizeId, customSizes).label;
     setStatusMessage(`已切换导出尺寸: ${label}`);
   };
 
@@ -263,7 +579,7 @@ export function App() {
     };
   }, []);
 
-  const handleExport = async () => {
+  const handleExport = async (mode: ExportMode = 'new') => {
     if (!window.imgstamp) {
       return;
     }
@@ -275,7 +591,7 @@ export function App() {
       return;
     }
 
-    const candidates = photos.filter((photo) => photo.selected);
+    const candidates = photos.filter((photo) => photo.selected && !photo.missing);
     if (candidates.length === 0) {
       setStatusMessage('请先选择要导出的照片');
       return;
@@ -287,16 +603,79 @@ export function App() {
       return;
     }
 
-    const exportDir = await window.imgstamp.openExportDirectory();
+    // 导出前按导出尺寸检查文字是否放得下、照片是否够清晰，有需要处理的照片时先列出确认
+    const checkItems = readyItems.map((photo) => ({
+      relativePath: photo.relativePath,
+      meta: buildOutputMeta(photo.meta),
+    }));
+    const checkOptions = { size: activeSize, template: activeTemplate };
+    let checks: CaptionCheckResult[] = [];
+    let resolutions: ResolutionCheckResult[] = [];
+    try {
+      checks = await window.imgstamp.checkCaptions(baseDir, checkItems, checkOptions);
+      resolutions = await window.imgstamp.checkResolution(baseDir, checkItems, checkOptions);
+    } catch (error) {
+      console.error(error);
+    }
+    const captionItems = readyItems.flatMap((photo) => {
+      const check = checks.find((item) => item.relativePath === photo.relativePath);
+      return check && (check.status !== 'fit' || check.missingGlyphs.length > 0)
+        ? [{ filename: photo.filename, status: check.status, missingGlyphs: check.missingGlyphs }]
+        : [];
+    });
+    const softItems = readyItems
+      .flatMap((photo) => {
+        const check = resolutions.find((item) => item.relativePath === photo.relativePath);
+        return check?.effectiveDpi != null && check.effectiveDpi < exportSettings.resolution.minDpi
+          ? [{ filename: photo.filename, effectiveDpi: check.effectiveDpi }]
+          : [];
+      })
+      .sort((a, b) => a.effectiveDpi - b.effectiveDpi);
+    if (captionItems.length > 0 || softItems.length > 0) {
+      setExportReview({ captionItems, softItems, readyItems, mode });
+      return;
+    }
+    await runExport(readyItems, mode);
+  };
+
+  // target 由“重试失败项”传入，跳过目录选择
+  const runExport = async (
+    readyItems: PhotoItem[],
+    mode: ExportMode,
+    target?: { exportDir: string; retry: boolean },
+  ) => {
+    if (!window.imgstamp || !baseDir) {
+      return;
+    }
+
+    const exportDir = target?.exportDir ?? (await window.imgstamp.openExportDirectory());
     if (!exportDir) {
       return;
     }
+    if (
+      !target &&
+      mode === 'update' &&
+      !(await window.imgstamp.hasExportManifest(exportDir))
+    ) {
+      setStatusMessage('所选目录不是导出目录');
+      setExportDialog({
+        title: '无法更新导出',
+        exported: 0,
+        failed: 0,
+        total: 0,
+        note: `请选择之前导出生成的目录（其中包含 ${EXPORT_MANIFEST_FILE}）`,
+      });
+      return;
+    }
 
     setExportDialog(null);
+    setExportDialogHidden(false);
     setExportProgress({ current: 0, total: readyItems.length });
+    updateExportRunState('running');
     setIsExporting(true);
     setStatusMessage(`开始导出 0/${readyItems.length}`);
     try {
+      const settings = normalizeExportSettings(exportSettings);
       const result = await window.imgstamp.startExport(
         baseDir,
         exportDir,
@@ -305,17 +684,68 @@ export function App() {
           filename: photo.filename,
           meta: buildOutputMeta(photo.meta),
         })),
-        exportSize,
+        activeSize,
+        activeTemplate,
+        settings,
+        settings.layout === 'sheet'
+          ? resolveExportSize(settings.sheet.sizeId, customSizes)
+          : settings.layout === 'photobook'
+            ? resolveExportSize(settings.photobook.sizeId, customSizes)
+            : undefined,
+        { update: mode === 'update', retry: target?.retry, title: projectName },
       );
 
       const hasFailure = result.failed > 0;
-      const title = hasFailure ? '导出完成（部分失败）' : '导出完成';
+      // 拼版、相册与压缩包每次都是完整的新输出，无法在原处更新
+      const appendOnly = settings.layout !== 'single' || settings.target === 'zip';
+      const failureDetails = {
+        failures: result.failures,
+        retryTarget: appendOnly
+          ? { exportDir, update: false }
+          : { exportDir: result.outputDir, update: true },
+      };
+      if (result.cancelled) {
+        setExportDialog({
+          title: '导出已取消',
+          exported: result.exported,
+          failed: result.failed,
+          total: result.total,
+          outputDir: result.outputDir,
+          archivePath: result.archivePath,
+          sheets: result.sheets,
+          documentPath: result.documentPath,
+          pages: result.pages,
+          update: result.update,
+          ...failureDetails,
+          note: appendOnly
+            ? `未处理 ${result.skipped ?? 0} 张`
+            : `未处理 ${result.skipped ?? 0} 张，可用“更新导出”选择该目录继续`,
+        });
+        setStatusMessage(`导出已取消: 完成 ${result.exported} 张`);
+        return;
+      }
+      const title = result.update
+        ? hasFailure
+          ? '更新完成（部分失败）'
+          : '更新完成'
+        : hasFailure
+          ? '导出完成（部分失败）'
+          : '导出完成';
       setExportDialog({
         title,
         exported: result.exported,
         failed: result.failed,
         total: result.total,
         outputDir: result.outputDir,
+        archivePath: result.archivePath,
+        sheets: result.sheets,
+        documentPath: result.documentPath,
+        pages: result.pages,
+        update: result.update,
+        ...failureDetails,
+        note: hasFailure
+          ? `每张照片的结果已写入${result.archivePath ? '压缩包' : '输出目录'}内的 ${EXPORT_REPORT_BASENAME}.csv / .json`
+          : undefined,
       });
       setStatusMessage(
         hasFailure
@@ -335,9 +765,67 @@ export function App() {
     } finally {
       setIsExporting(false);
       setExportProgress(null);
+      updateExportRunState('running');
     }
   };
 
+  const handleRetryFailed = () => {
+    if (!exportDialog?.failures?.length || !exportDialog.retryTarget) {
+      return;
+    }
+    const failedPaths = new Set(exportDialog.failures.map((failure) => failure.relativePath));
+    const retryItems = photos.filter(
+      (photo) =>
+        failedPaths.has(photo.relativePath) && !photo.missing && isMetaComplete(photo.meta),
+    );
+    if (retryItems.length === 0) {
+      setStatusMessage('失败的照片已不在列表中或信息未完善');
+      return;
+    }
+    const { exportDir, update } = exportDialog.retryTarget;
+    void runExport(retryItems, update ? 'update' : 'new', { exportDir, retry: update });
+  };
+
+  const handleJumpToFailure = (relativePath: string) => {
+    const index = photos.findIndex((photo) => photo.relativePath === relativePath);
+    if (index < 0) {
+      setStatusMessage('该照片已不在列表中');
+      return;
+    }
+    selectPhotoAtIndex(index);
+    setExportDialogHidden(true);
+  };
+
+  const updateExportRunState = (state: ExportRunState) => {
+    exportRunStateRef.current = state;
+    setExportRunState(state);
+  };
+
+  // 暂停与取消都只影响尚未开始的照片，正在渲染的会先完成
+  const handleToggleExportPause = async () => {
+    if (!window.imgstamp || !isExporting || exportRunState === 'cancelling') {
+      return;
+    }
+    if (exportRunState === 'paused') {
+      await window.imgstamp.resumeExport();
+      updateExportRunState('running');
+      setStatusMessage('继续导出');
+    } else {
+      await window.imgstamp.pauseExport();
+      updateExportRunState('paused');
+      setStatusMessage('已暂停导出');
+    }
+  };
+
+  const handleCancelExport = async () => {
+    if (!window.imgstamp || !isExporting || exportRunState === 'cancelling') {
+      return;
+    }
+    updateExportRunState('cancelling');
+    setStatusMessage('正在取消导出，等待处理中的照片完成');
+    await window.imgstamp.cancelExport();
+  };
+
   const beginProjectLoad = () => {
     suppressDirtyRef.current = true;
   };
@@ -350,27 +838,55 @@ export function App() {
   };
 
   useEffect(() => {
-    latestProjectRef.current = { baseDir, exportSize, photos };
-  }, [baseDir, exportSize, photos]);
+    latestProjectRef.current = {
+      baseDir,
+      exportSize,
+      customSizes,
+      exportSettings,
+      templates,
+      activeTemplateId,
+      photos,
+    };
+  }, [baseDir, exportSize, customSizes, exportSettings, templates, activeTemplateId, photos]);
+
+  // 打开项目期间监视照片目录，新拷入或删除的照片实时反映到列表
+  useEffect(() => {
+    if (!window.imgstamp || !baseDir) {
+      return;
+    }
+    // 照片在同一次渲染中与 baseDir 一起设置，此时 latestProjectRef 已是载入后的列表
+    const known = latestProjectRef.current.photos
+      .filter((photo) => !photo.missing)
+      .map((photo) => ({ relativePath: photo.relativePath, fingerprint: photo.fingerprint }));
+    window.imgstamp.watchFolder(baseDir, known).catch((error) => console.error(error));
+    return () => {
+      window.imgstamp.unwatchFolder().catch((error) => console.error(error));
+    };
+  }, [baseDir]);
 
   useEffect(() => {
     if (!projectPath || suppressDirtyRef.current) {
       return;
     }
     dirtyRef.current = true;
-  }, [projectPath, projectName, baseDir, exportSize, photos]);
+  }, [
+    projectPath,
+    projectName,
+    baseDir,
+    exportSize,
+    customSizes,
+    exportSettings,
+    templates,
+    activeTemplateId,
+    photos,
+  ]);
 
   useEffect(() => {
     if (!window.imgstamp) {
       return;
     }
 
-    const toPhotoItem = (item: {
-      id: string;
-      filename: string;
-      relativePath: string;
-      fileUrl: string;
-    }): PhotoItem => ({
+    const toPhotoItem = (item: ScannedPhoto): PhotoItem => ({
       ...item,
       selected: false,
       meta: normalizeMeta(),
@@ -389,6 +905,24 @@ export function App() {
       }
     };
 
+    // 打开项目后在后台为全部照片生成缩略图、读取 EXIF 日期，结果由 onIndexerProgress 合并
+    const startIndexing = (dir: string, photoList: PhotoItem[]) => {
+      const list = photoList.filter((photo) => !photo.missing);
+      setIndexProgress(list.length > 0 ? { done: 0, total: list.length } : null);
+      window.imgstamp
+        .startIndexing(
+          dir,
+          list.map((photo) => ({
+            relativePath: photo.relativePath,
+            rotation: photo.meta.rotation,
+            mirrored: photo.meta.mirrored,
+            exif: photo.meta.exifDate === null,
+          })),
+          THUMBNAIL_SIZE,
+        )
+        .catch((error) => console.error(error));
+    };
+
     const loadDirectory = async (
       dir: string,
       options?: { projectName?: string; projectPath?: string },
@@ -396,12 +930,15 @@ export function App() {
       beginProjectLoad();
       try {
         const scanned = await window.imgstamp.scanImages(dir);
-        const nextPhotos = scanned.map(toPhotoItem);
+        const nextPhotos = scanned.photos.map(toPhotoItem);
+        setSkippedFiles(scanned.skipped);
+        setRescanReport(null);
         const firstId = nextPhotos[0]?.id ?? null;
         const fallbackName = getNameFromPath(options?.projectPath || dir) || '未命名项目';
         const nextName = options?.projectName || fallbackName || '未命名项目';
         const recentName = options?.projectName || fallbackName || '未命名项目';
         setPhotos(nextPhotos);
+        startIndexing(dir, nextPhotos);
         setCurrentPhotoId(firstId);
         setMultiSelectedIds(firstId ? [firstId] : []);
         setSelectionAnchorIndex(firstId ? 0 : null);
@@ -416,13 +953,11 @@ export function App() {
             name: nextName,
             baseDir: dir,
             exportSize,
-            photos: nextPhotos.map((photo) => ({
-              id: photo.id,
-              filename: photo.filename,
-              relativePath: photo.relativePath,
-              selected: photo.selected,
-              meta: photo.meta,
-            })),
+            customSizes,
+            exportSettings,
+            templates,
+            activeTemplateId,
+            photos: nextPhotos.map(toSavedPhoto),
           };
           await window.imgstamp.saveProject(options.projectPath, projectToSave);
           await recordRecent({
@@ -454,17 +989,25 @@ export function App() {
         const project = data as ProjectData;
         if (project?.baseDir) {
           const scanned = await window.imgstamp.scanImages(project.baseDir);
-          const metaMap = new Map(project.photos.map((photo) => [photo.relativePath, photo]));
-          const merged = scanned.map((item) => {
-            const saved = metaMap.get(item.relativePath);
-            return {
-              ...item,
-              selected: saved?.selected ?? false,
-              meta: normalizeMeta(saved?.meta),
-            };
-          });
+          setSkippedFiles(scanned.skipped);
+          const saved = (project.photos ?? []).map(
+            (photo): PhotoItem => ({
+              ...photo,
+              fileUrl: '',
+              fingerprint: photo.fingerprint ?? null,
+              selected: photo.selected ?? false,
+              meta: normalizeMeta(photo.meta),
+            }),
+          );
+          const { photos: merged, ...changes } = mergeScannedPhotos(saved, scanned.photos);
+          // 新项目保存前就打开的情况下所有照片都是新增，不提示
+          const hasChanges =
+            saved.length > 0 &&
+            changes.added.length + changes.moved.length + changes.missing.length > 0;
+          setRescanReport(hasChanges ? { source: 'open', ...changes } : null);
           const firstId = merged[0]?.id ?? null;
           setPhotos(merged);
+          startIndexing(project.baseDir, merged);
           setCurrentPhotoId(firstId);
           setMultiSelectedIds(firstId ? [firstId] : []);
           setSelectionAnchorIndex(firstId ? 0 : null);
@@ -472,7 +1015,19 @@ export function App() {
           const fallbackName = getNameFromPath(projectPath);
           const nextName = project.name || fallbackName || '未命名项目';
           setProjectName(nextName);
-          setExportSize(project.exportSize ?? '5L');
+          const nextCustomSizes = normalizeCustomSizes(project.customSizes);
+          setCustomSizes(nextCustomSizes);
+          setExportSettings(normalizeExportSettings(project.exportSettings));
+          setExportSize(
+            resolveExportSize(project.exportSize ?? DEFAULT_EXPORT_SIZE_ID, nextCustomSizes).id,
+          );
+          const nextTemplates = normalizeTemplates(project.templates);
+          setTemplates(nextTemplates);
+          setActiveTemplateId(
+            nextTemplates.some((item) => item.id === project.activeTemplateId)
+              ? (project.activeTemplateId as string)
+              : nextTemplates[0].id,
+          );
           setProjectPath(projectPath);
           setStatusMessage(`已打开项目: ${projectPath}`);
           await window.imgstamp.setWindowTitle(nextName);
@@ -553,13 +1108,11 @@ export function App() {
           name: nameFromPath,
           baseDir,
           exportSize,
-          photos: photos.map((photo) => ({
-            id: photo.id,
-            filename: photo.filename,
-            relativePath: photo.relativePath,
-            selected: photo.selected,
-            meta: photo.meta,
-          })),
+          customSizes,
+          exportSettings,
+          templates,
+          activeTemplateId,
+          photos: photos.map(toSavedPhoto),
         };
         await window.imgstamp.saveProject(targetPath, projectToSave);
         setProjectPath(targetPath);
@@ -585,11 +1138,44 @@ export function App() {
       }
     };
 
+    // 重新扫描当前目录，列出新增、移动与缺失的照片
+    const handleRescan = async () => {
+      if (!baseDir) {
+        setStatusMessage('请先导入照片');
+        return;
+      }
+      if (isExporting) {
+        setStatusMessage('导出进行中，请稍后再扫描');
+        return;
+      }
+      try {
+        const scanned = await window.imgstamp.scanImages(baseDir);
+        const latest = latestProjectRef.current;
+        if (latest.baseDir !== baseDir) {
+          return;
+        }
+        const { photos: merged, ...changes } = mergeScannedPhotos(latest.photos, scanned.photos);
+        setSkippedFiles(scanned.skipped);
+        setPhotos(merged);
+        startIndexing(baseDir, merged);
+        if (changes.added.length + changes.moved.length + changes.missing.length === 0) {
+          setStatusMessage('文件夹没有变化');
+          return;
+        }
+        setRescanReport({ source: 'rescan', ...changes });
+      } catch (error) {
+        setStatusMessage('重新扫描失败');
+        console.error(error);
+      }
+    };
+
     const unsubOpenDirectory = window.imgstamp.onMenuOpenDirectory(handleOpenDirectory);
     const unsubOpenProject = window.imgstamp.onMenuOpenProject(handleOpenProject);
     const unsubSaveProject = window.imgstamp.onMenuSaveProject(handleSaveProject);
     const unsubExport = window.imgstamp.onMenuExport(handleExport);
     const unsubSetSize = window.imgstamp.onMenuSetSize(handleExportSizeChange);
+    const unsubRescan = window.imgstamp.onMenuRescan(handleRescan);
+    const unsubCache = window.imgstamp.onMenuCache(() => setCachePanelOpen(true));
     const unsubAbout = window.imgstamp.onMenuAbout((payload) => {
       setHelpDialog(payload);
     });
@@ -614,10 +1200,80 @@ export function App() {
       await handleLaunchPayload({ type: 'open-project', projectPath });
     });
     const unsubExportProgress = window.imgstamp.onExportProgress((payload) => {
-      setStatusMessage(`正在导出 ${payload.current}/${payload.total}`);
+      const state = exportRunStateRef.current;
+      setStatusMessage(
+        state === 'paused'
+          ? `已暂停 ${payload.current}/${payload.total}`
+          : state === 'cancelling'
+            ? `正在取消 ${payload.current}/${payload.total}`
+            : `正在导出 ${payload.current}/${payload.total}`,
+      );
       setExportProgress({ current: payload.current, total: payload.total });
     });
 
+    const unsubFolderChange = window.imgstamp.onFolderChange((payload) => {
+      const latest = latestProjectRef.current;
+      if (payload.baseDir !== latest.baseDir) {
+        return;
+      }
+      const { photos: next, ...changes } = applyFolderChange(latest.photos, payload);
+      setSkippedFiles(payload.skipped);
+      setPhotos(next);
+      const parts = [
+        changes.added.length > 0 ? `新增 ${changes.added.length} 张` : '',
+        changes.moved.length > 0 ? `移动 ${changes.moved.length} 张` : '',
+        changes.changed > 0 ? `更新 ${changes.changed} 张` : '',
+        changes.missing.length > 0 ? `缺失 ${changes.missing.length} 张` : '',
+      ].filter(Boolean);
+      if (parts.length === 0) {
+        return;
+      }
+      setStatusMessage(`文件夹有变化：${parts.join('，')}`);
+      // 只为新出现与内容变化的照片补缩略图和 EXIF 日期
+      const pending = next.filter((photo) => !photo.thumbnailUrl || photo.meta.exifDate === null);
+      if (changes.added.length + changes.moved.length + changes.changed > 0 && pending.length > 0) {
+        startIndexing(payload.baseDir, pending);
+      }
+    });
+
+    const unsubIndexer = window.imgstamp.onIndexerProgress((payload) => {
+      if (payload.baseDir !== latestProjectRef.current.baseDir) {
+        return;
+      }
+      setIndexProgress(payload.done < payload.total ? { done: payload.done, total: payload.total } : null);
+      if (payload.results.length === 0) {
+        return;
+      }
+      const resultMap = new Map(payload.results.map((item) => [item.relativePath, item]));
+      setPhotos((prev) =>
+        prev.map((photo) => {
+          const result = resultMap.get(photo.relativePath);
+          if (!result) {
+            return photo;
+          }
+          let next = photo;
+          // 方向在索引期间被修改过的照片，缩略图交给按需加载
+          const sameOrientation =
+            (result.rotation ?? 0) === photo.meta.rotation &&
+            Boolean(result.mirrored) === photo.meta.mirrored;
+          if (!photo.thumbnailUrl && result.thumbnailUrl && sameOrientation) {
+            next = { ...next, thumbnailUrl: result.thumbnailUrl };
+          }
+          if (result.exifDate !== undefined && photo.meta.exifDate === null) {
+            next = {
+              ...next,
+              meta: {
+                ...next.meta,
+                exifDate: result.exifDate,
+                date: next.meta.date ?? result.exifDate,
+              },
+            };
+          }
+          return next;
+        }),
+      );
+    });
+
     window.imgstamp
       .getLaunchPayload()
       .then(handleLaunchPayload)
@@ -629,13 +1285,28 @@ export function App() {
       unsubSaveProject();
       unsubExport();
       unsubSetSize();
+      unsubRescan();
+      unsubCache();
+      unsubFolderChange();
+      unsubIndexer();
       unsubAbout();
       unsubShortcuts();
       unsubLauncherCreate();
       unsubLauncherOpen();
       unsubExportProgress();
     };
-  }, [projectPath, projectName, baseDir, photos, exportSize, isExporting]);
+  }, [
+    projectPath,
+    projectName,
+    baseDir,
+    photos,
+    exportSize,
+    customSizes,
+    exportSettings,
+    templates,
+    activeTemplateId,
+    isExporting,
+  ]);
 
   useEffect(() => {
     if (!window.imgstamp || !projectPath || isExporting) {
@@ -646,8 +1317,15 @@ export function App() {
       if (autoSavingRef.current || !dirtyRef.current) {
         return;
       }
-      const { baseDir: latestBaseDir, exportSize: latestSize, photos: latestPhotos } =
-        latestProjectRef.current;
+      const {
+        baseDir: latestBaseDir,
+        exportSize: latestSize,
+        customSizes: latestCustomSizes,
+        exportSettings: latestExportSettings,
+        templates: latestTemplates,
+        activeTemplateId: latestTemplateId,
+        photos: latestPhotos,
+      } = latestProjectRef.current;
       if (!latestBaseDir) {
         return;
       }
@@ -657,13 +1335,11 @@ export function App() {
         name: nameFromPath,
         baseDir: latestBaseDir,
         exportSize: latestSize,
-        photos: latestPhotos.map((photo) => ({
-          id: photo.id,
-          filename: photo.filename,
-          relativePath: photo.relativePath,
-          selected: photo.selected,
-          meta: photo.meta,
-        })),
+        customSizes: latestCustomSizes,
+        exportSettings: latestExportSettings,
+        templates: latestTemplates,
+        activeTemplateId: latestTemplateId,
+        photos: latestPhotos.map(toSavedPhoto),
       };
 
       autoSavingRef.current = true;
@@ -693,23 +1369,11 @@ export function App() {
     }
 
     const updateLayout = () => {
-      const styles = getComputedStyle(grid);
-      const rowHeight = parseFloat(styles.getPropertyValue('--thumb-row-height')) || 120;
-      const gap = parseFloat(styles.getPropertyValue('--thumb-gap')) || 8;
-      const minColWidth = parseFloat(styles.getPropertyValue('--thumb-min-width')) || 180;
-      const paddingTop = parseFloat(styles.paddingTop) || 0;
-      const paddingBottom = parseFloat(styles.paddingBottom) || 0;
-      const availableWidth = grid.clientWidth;
-      const rawColumns = Math.floor((availableWidth + gap) / (minColWidth + gap));
-      const columnsCount = Math.min(4, Math.max(2, rawColumns));
-      if (gridColumnsRef.current !== columnsCount) {
-        gridColumnsRef.current = columnsCount;
-        setColumns(columnsCount);
-      }
-      const availableHeight = Math.max(0, grid.clientHeight - paddingTop - paddingBottom);
-      const rows = Math.max(1, Math.floor((availableHeight + gap) / (rowHeight + gap)));
-      const nextPageSize = Math.max(1, rows * columnsCount);
-      setPageSize(nextPageSize);
+      setGridViewport((prev) =>
+        prev.width === grid.clientWidth && prev.height === grid.clientHeight
+          ? prev
+          : { width: grid.clientWidth, height: grid.clientHeight },
+      );
     };
 
     const observer = new ResizeObserver(() => updateLayout());
@@ -721,11 +1385,6 @@ export function App() {
     };
   }, []);
 
-  useEffect(() => {
-    const totalPages = Math.max(1, Math.ceil(photos.length / pageSize));
-    setPageIndex((prev) => Math.min(prev, totalPages - 1));
-  }, [photos.length, pageSize]);
-
   const getContentMetrics = () => {
     const container = contentRef.current;
     if (!container) {
@@ -845,21 +1504,31 @@ export function App() {
   };
 
   useEffect(() => {
-    const start = pageIndex * pageSize;
-    const end = start + pageSize;
-    const visibleIds = new Set(photos.slice(start, end).map((photo) => photo.id));
-    if (currentPhotoId && visibleIds.has(currentPhotoId)) {
+    if (currentPhotoId && photos.some((photo) => photo.id === currentPhotoId)) {
       return;
     }
-    const nextId = photos[start]?.id ?? null;
-    setCurrentPhotoId(nextId);
-  }, [pageIndex, pageSize, photos, currentPhotoId]);
+    setCurrentPhotoId(photos[0]?.id ?? null);
+  }, [photos, currentPhotoId]);
 
-  const selectedPhotos = photos.filter((photo) => photo.selected);
+  // 缺失原图的照片不参与导出
+  const selectedPhotos = photos.filter((photo) => photo.selected && !photo.missing);
   const incompleteCount = selectedPhotos.filter((photo) => !isMetaComplete(photo.meta)).length;
-  const allSelected = photos.length > 0 && selectedPhotos.length === photos.length;
+  const allSelected = photos.length > 0 && photos.every((photo) => photo.selected);
+  const missingPhotos = photos.filter((photo) => photo.missing);
   const canExport = Boolean(baseDir && selectedPhotos.length > 0 && incompleteCount === 0);
   const currentPhoto = photos.find((photo) => photo.id === currentPhotoId) ?? null;
+  const isCropEditing = cropDraft !== null;
+  const effectivePreviewMode: PreviewMode = isCropEditing ? 'original' : previewMode;
+  // 锁定比例跟随照片方向：横图用导出尺寸的横向比例，竖图对调
+  const cropRatio = useMemo(() => {
+    if (!cropDraft?.locked || !previewNatural) {
+      return null;
+    }
+    const pixels = getExportSizePixels(activeSize);
+    const portrait = previewNatural.height > previewNatural.width;
+    const aspect = portrait ? pixels.height / pixels.width : pixels.width / pixels.height;
+    return (aspect * previewNatural.height) / previewNatural.width;
+  }, [cropDraft?.locked, previewNatural, activeSize]);
   const locationSkipped = Boolean(currentPhoto?.meta.locationSkipped);
   const descriptionSkipped = Boolean(currentPhoto?.meta.descriptionSkipped);
   const currentIndex = currentPhotoId
@@ -869,10 +1538,34 @@ export function App() {
   const canGoPrev = currentIndex > 0;
   const canGoNext = currentIndex >= 0 && currentIndex < photos.length - 1;
   const canApplyToSelected = Boolean(currentPhoto && multiSelectedCount >= 2);
-  const totalPages = Math.max(1, Math.ceil(photos.length / pageSize));
-  const pageStart = pageIndex * pageSize;
-  const visiblePhotos = photos.slice(pageStart, pageStart + pageSize);
-  const pageItems = buildPageItems(totalPages, pageIndex);
+  const gridContentWidth = Math.max(0, gridViewport.width - THUMB_GRID_PADDING * 2);
+  const columns = Math.max(
+    1,
+    Math.floor((gridContentWidth + THUMB_GAP) / (Math.min(thumbSize, gridContentWidth) + THUMB_GAP)),
+  );
+  const cellWidth = (gridContentWidth - THUMB_GAP * (columns - 1)) / columns;
+  const thumbRowHeight = Math.max(64, Math.round(cellWidth * 0.9));
+  const thumbLayout = useMemo(
+    () => buildThumbLayout(photos, columns, thumbRowHeight),
+    [photos, columns, thumbRowHeight],
+  );
+  // 只渲染可见区域附近的行，缩略图、EXIF 与清晰度检查也只针对这些照片
+  const firstRenderedRow = findThumbRow(thumbLayout.rows, gridScrollTop - THUMB_OVERSCAN);
+  let lastRenderedRow = firstRenderedRow;
+  while (
+    lastRenderedRow < thumbLayout.rows.length &&
+    thumbLayout.rows[lastRenderedRow].top <= gridScrollTop + gridViewport.height + THUMB_OVERSCAN
+  ) {
+    lastRenderedRow += 1;
+  }
+  const renderedRows = thumbLayout.rows.slice(firstRenderedRow, lastRenderedRow);
+  const visibleStart = renderedRows[0]?.start ?? 0;
+  const lastRow = renderedRows[renderedRows.length - 1];
+  const visibleEnd = lastRow ? (lastRow.kind === 'photos' ? lastRow.end : lastRow.start) : 0;
+  const visiblePhotos = useMemo(
+    () => photos.slice(visibleStart, visibleEnd),
+    [photos, visibleStart, visibleEnd],
+  );
   const multiSelectedSet = useMemo(() => new Set(multiSelectedIds), [multiSelectedIds]);
 
   useEffect(() => {
@@ -883,7 +1576,7 @@ export function App() {
     let cancelled = false;
 
     const loadThumbnails = async () => {
-      const pending = visiblePhotos.filter((photo) => !photo.thumbnailUrl);
+      const pending = visiblePhotos.filter((photo) => !photo.thumbnailUrl && !photo.missing);
       if (pending.length === 0) {
         return;
       }
@@ -892,7 +1585,10 @@ export function App() {
         const results = await Promise.all(
           pending.map(async (photo) => ({
             id: photo.id,
-            url: await window.imgstamp.getThumbnail(baseDir, photo.relativePath, 256),
+            url: await window.imgstamp.getThumbnail(baseDir, photo.relativePath, THUMBNAIL_SIZE, {
+              rotation: photo.meta.rotation,
+              mirrored: photo.meta.mirrored,
+            }),
           })),
         );
 
@@ -927,7 +1623,9 @@ export function App() {
     let cancelled = false;
 
     const loadExifForVisible = async () => {
-      const pending = visiblePhotos.filter((photo) => photo.meta.exifDate === null);
+      const pending = visiblePhotos.filter(
+        (photo) => photo.meta.exifDate === null && !photo.missing,
+      );
       if (pending.length === 0) {
         return;
       }
@@ -968,7 +1666,20 @@ export function App() {
   }, [visiblePhotos, baseDir]);
 
   useEffect(() => {
-    if (!window.imgstamp || !baseDir || !currentPhoto) {
+    setCropDraft(null);
+  }, [currentPhotoId]);
+
+  useEffect(() => {
+    if (!cropDraft || cropRatio === null || previewUrlMode !== 'original') {
+      return;
+    }
+    if (Math.abs(cropDraft.width / cropDraft.height - cropRatio) > 0.001) {
+      setCropDraft(fitCropToRatio(cropDraft, cropRatio));
+    }
+  }, [cropDraft, cropRatio, previewUrlMode]);
+
+  useEffect(() => {
+    if (!window.imgstamp || !baseDir || !currentPhoto || currentPhoto.missing) {
       setPreviewUrl(null);
       return;
     }
@@ -980,10 +1691,17 @@ export function App() {
           baseDir,
           currentPhoto.relativePath,
           buildOutputMeta(currentPhoto.meta),
-          { size: exportSize, mode: previewMode },
+          {
+            size: activeSize,
+            mode: effectivePreviewMode,
+            template: activeTemplate,
+            settings: normalizeExportSettings(exportSettings),
+          },
         );
         if (!cancelled) {
+          setPreviewNatural(null);
           setPreviewUrl(url || null);
+          setPreviewUrlMode(effectivePreviewMode);
         }
       } catch (error) {
         console.error(error);
@@ -997,15 +1715,130 @@ export function App() {
   }, [
     baseDir,
     currentPhoto?.id,
+    currentPhoto?.missing,
+    currentPhoto?.fingerprint,
     currentPhoto?.meta.date,
     currentPhoto?.meta.location,
     currentPhoto?.meta.description,
     currentPhoto?.meta.locationSkipped,
     currentPhoto?.meta.descriptionSkipped,
-    exportSize,
-    previewMode,
+    currentPhoto?.meta.rotation,
+    currentPhoto?.meta.mirrored,
+    currentPhoto?.meta.crop,
+    activeSize,
+    activeTemplate,
+    exportSettings,
+    effectivePreviewMode,
+    cacheGeneration,
+  ]);
+
+  useEffect(() => {
+    if (!window.imgstamp || !baseDir || !currentPhoto || currentPhoto.missing) {
+      setCaptionCheck(null);
+      return;
+    }
+
+    let cancelled = false;
+    const handle = setTimeout(async () => {
+      try {
+        const [result] = await window.imgstamp.checkCaptions(
+          baseDir,
+          [{ relativePath: currentPhoto.relativePath, meta: buildOutputMeta(currentPhoto.meta) }],
+          { size: activeSize, template: activeTemplate },
+        );
+        if (!cancelled) {
+          setCaptionCheck(result ?? null);
+        }
+      } catch (error) {
+        console.error(error);
+      }
+    }, 300);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(handle);
+    };
+  }, [
+    baseDir,
+    currentPhoto?.id,
+    currentPhoto?.missing,
+    currentPhoto?.fingerprint,
+    currentPhoto?.meta.date,
+    currentPhoto?.meta.location,
+    currentPhoto?.meta.description,
+    currentPhoto?.meta.locationSkipped,
+    currentPhoto?.meta.descriptionSkipped,
+    currentPhoto?.meta.rotation,
+    currentPhoto?.meta.mirrored,
+    currentPhoto?.meta.crop,
+    activeSize,
+    activeTemplate,
   ]);
 
+  const resolutionContext = useMemo(
+    () => JSON.stringify([baseDir, activeSize, activeTemplate]),
+    [baseDir, activeSize, activeTemplate],
+  );
+
+  // 可见区域的照片与当前照片按需计算有效 DPI，尺寸或模板变化后重新计算
+  useEffect(() => {
+    if (!window.imgstamp || !baseDir) {
+      return;
+    }
+    const known = resolutionChecks.context === resolutionContext ? resolutionChecks.values : {};
+    const pending = [...visiblePhotos, ...(currentPhoto ? [currentPhoto] : [])].filter(
+      (photo, index, list) =>
+        !photo.missing &&
+        !(getResolutionKey(photo) in known) &&
+        list.findIndex((item) => item.id === photo.id) === index,
+    );
+    if (pending.length === 0) {
+      return;
+    }
+
+    let cancelled = false;
+    const handle = setTimeout(async () => {
+      try {
+        const results = await window.imgstamp.checkResolution(
+          baseDir,
+          pending.map((photo) => ({
+            relativePath: photo.relativePath,
+            meta: buildOutputMeta(photo.meta),
+          })),
+          { size: activeSize, template: activeTemplate },
+        );
+        if (cancelled) {
+          return;
+        }
+        const values: Record<string, number | null> = {};
+        pending.forEach((photo, index) => {
+          values[getResolutionKey(photo)] = results[index]?.effectiveDpi ?? null;
+        });
+        setResolutionChecks((prev) => ({
+          context: resolutionContext,
+          values: { ...(prev.context === resolutionContext ? prev.values : {}), ...values },
+        }));
+      } catch (error) {
+        console.error(error);
+      }
+    }, 300);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(handle);
+    };
+  }, [visiblePhotos, currentPhoto, baseDir, resolutionContext, resolutionChecks]);
+
+  // 低于阈值时返回有效 DPI，否则为 null
+  const getSoftDpi = (photo: PhotoItem) => {
+    if (resolutionChecks.context !== resolutionContext) {
+      return null;
+    }
+    const dpi = resolutionChecks.values[getResolutionKey(photo)];
+    return dpi != null && dpi < exportSettings.resolution.minDpi ? dpi : null;
+  };
+  const currentSoftDpi = currentPhoto ? getSoftDpi(currentPhoto) : null;
+
   const updateCurrentMeta = (partial: Partial<PhotoMeta>) => {
     if (!currentPhoto) {
       return;
@@ -1032,12 +1865,32 @@ export function App() {
     setCurrentPhotoId(target.id);
     setMultiSelectedIds([target.id]);
     setSelectionAnchorIndex(targetIndex);
-    const nextPage = Math.floor(targetIndex / pageSize);
-    if (nextPage !== pageIndex) {
-      setPageIndex(nextPage);
+  };
+
+  // 当前照片不在可见区域时滚动到该行（所在节的第一行连同日期标题一起露出）
+  const scrollPhotoIntoView = (index: number) => {
+    const grid = gridRef.current;
+    const rowIndex = thumbLayout.rowOfPhoto[index];
+    const row = thumbLayout.rows[rowIndex];
+    if (!grid || !row) {
+      return;
+    }
+    const previous = thumbLayout.rows[rowIndex - 1];
+    const top = previous?.kind === 'header' ? previous.top : row.top;
+    const bottom = row.top + row.height + THUMB_GAP;
+    if (top < grid.scrollTop) {
+      grid.scrollTop = top;
+    } else if (bottom > grid.scrollTop + grid.clientHeight) {
+      grid.scrollTop = bottom - grid.clientHeight;
     }
   };
 
+  useEffect(() => {
+    if (currentIndex >= 0) {
+      scrollPhotoIntoView(currentIndex);
+    }
+  }, [currentPhotoId, columns, thumbRowHeight]);
+
   const handleSelectPrev = () => {
     const currentIndex = getCurrentIndex();
     if (currentIndex <= 0) {
@@ -1054,6 +1907,72 @@ export function App() {
     selectPhotoAtIndex(currentIndex + 1);
   };
 
+  const updateCurrentOrientation = (partial: Pick<Partial<PhotoMeta>, 'rotation' | 'mirrored'>) => {
+    if (!currentPhoto) {
+      return;
+    }
+    setPhotos((prev) =>
+      prev.map((photo) =>
+        photo.id === currentPhoto.id
+          ? { ...photo, thumbnailUrl: undefined, meta: { ...photo.meta, ...partial, crop: null } }
+          : photo,
+      ),
+    );
+    // 裁切框基于摆正后的图，方向变化后失效
+    setCropDraft(null);
+  };
+
+  const handleRotateLeft = () => {
+    if (!currentPhoto) {
+      return;
+    }
+    updateCurrentOrientation({ rotation: rotateBy(currentPhoto.meta.rotation, -90) });
+  };
+
+  const handleRotateRight = () => {
+    if (!currentPhoto) {
+      return;
+    }
+    updateCurrentOrientation({ rotation: rotateBy(currentPhoto.meta.rotation, 90) });
+  };
+
+  const handleToggleMirror = () => {
+    if (!currentPhoto) {
+      return;
+    }
+    updateCurrentOrientation({ mirrored: !currentPhoto.meta.mirrored });
+  };
+
+  const handleResetOrientation = () => {
+    updateCurrentOrientation({ rotation: 0, mirrored: false });
+  };
+
+  const handleStartCrop = () => {
+    if (!currentPhoto) {
+      return;
+    }
+    setCropDraft(
+      currentPhoto.meta.crop ?? { x: 0, y: 0, width: 1, height: 1, locked: true },
+    );
+  };
+
+  const handleApplyCrop = () => {
+    if (!cropDraft) {
+      return;
+    }
+    updateCurrentMeta({ crop: normalizePhotoCrop(cropDraft) });
+    setCropDraft(null);
+  };
+
+  const handleClearCrop = () => {
+    updateCurrentMeta({ crop: null });
+    setCropDraft(null);
+  };
+
+  const handleToggleCropLock = () => {
+    setCropDraft((prev) => (prev ? { ...prev, locked: !prev.locked } : prev));
+  };
+
   const handleResetExif = () => {
     if (!currentPhoto) {
       return;
@@ -1287,6 +2206,77 @@ export function App() {
     setSelectionAnchorIndex(index);
   };
 
+  const renderThumbnail = (item: PhotoItem, index: number) => {
+    const isComplete = isMetaComplete(item.meta);
+    const selectClass = item.selected
+      ? isComplete
+        ? 'thumb-select thumb-select--ok'
+        : 'thumb-select thumb-select--warn'
+      : 'thumb-select';
+    const isMultiSelected = multiSelectedSet.has(item.id);
+    const isActive = item.id === currentPhotoId;
+    const isFlashing = flashIds.has(item.id);
+    const softDpi = getSoftDpi(item);
+    return (
+      <button
+        type="button"
+        className={`thumb-cell ${isActive ? 'thumb-cell--active' : ''} ${
+          isMultiSelected ? 'thumb-cell--multi' : ''
+        } ${isFlashing ? 'thumb-cell--flash' : ''} ${item.missing ? 'thumb-cell--missing' : ''}`}
+        key={item.id}
+        onClick={(event) => handleThumbnailClick(event, index, item.id)}
+      >
+        <div className="thumb-frame">
+          <button
+            type="button"
+            className={selectClass}
+            aria-label={
+              item.selected
+                ? isComplete
+                  ? '已选中，信息完整'
+                  : '已选中，信息不完整'
+                : '未选中'
+            }
+            aria-pressed={item.selected}
+            onClick={(event) => {
+              event.stopPropagation();
+              setPhotos((prev) =>
+                prev.map((photo) =>
+                  photo.id === item.id ? { ...photo, selected: !photo.selected } : photo,
+                ),
+              );
+            }}
+          />
+          {item.missing ? (
+            <span className="thumb-missing" title={`原图已缺失：${item.relativePath}`}>
+              缺失
+            </span>
+          ) : (
+            <img src={item.thumbnailUrl ?? item.fileUrl} alt={item.filename} loading="lazy" />
+          )}
+          {softDpi !== null ? (
+            <span
+              className="thumb-dpi"
+              title={`按当前尺寸打印约 ${softDpi} DPI，可能发虚`}
+            >
+              {softDpi} DPI
+            </span>
+          ) : null}
+        </div>
+      </button>
+    );
+  };
+
+  // 用户确认后才丢弃缺失照片的信息
+  const handleRemoveMissing = () => {
+    const removedIds = new Set(missingPhotos.map((photo) => photo.id));
+    setPhotos((prev) => prev.filter((photo) => !removedIds.has(photo.id)));
+    setMultiSelectedIds((prev) => prev.filter((id) => !removedIds.has(id)));
+    setSelectionAnchorIndex(null);
+    setRescanReport(null);
+    setStatusMessage(`已移除 ${removedIds.size} 张缺失照片的信息`);
+  };
+
   const handleZoomIn = () => {
     setZoom((prev) => Math.min(2.5, Number((prev + 0.1).toFixed(2))));
   };
@@ -1339,91 +2329,55 @@ export function App() {
           <div
             className="thumb-grid"
             ref={gridRef}
-            style={{ gridTemplateColumns: `repeat(${columns}, minmax(0, 1fr))` }}
+            onScroll={(event) => setGridScrollTop(event.currentTarget.scrollTop)}
           >
-            {visiblePhotos.map((item, index) => {
-              const isComplete = isMetaComplete(item.meta);
-              const selectClass = item.selected
-                ? isComplete
-                  ? 'thumb-select thumb-select--ok'
-                  : 'thumb-select thumb-select--warn'
-                : 'thumb-select';
-              const isMultiSelected = multiSelectedSet.has(item.id);
-              const isActive = item.id === currentPhotoId;
-              const isFlashing = flashIds.has(item.id);
-              return (
-                <button
-                  type="button"
-                  className={`thumb-cell ${isActive ? 'thumb-cell--active' : ''} ${
-                    isMultiSelected ? 'thumb-cell--multi' : ''
-                  } ${isFlashing ? 'thumb-cell--flash' : ''}`}
-                  key={item.id}
-                  onClick={(event) => handleThumbnailClick(event, pageStart + index, item.id)}
-                >
-                  <div className="thumb-frame">
-                    <button
-                      type="button"
-                      className={selectClass}
-                      aria-label={
-                        item.selected
-                          ? isComplete
-                            ? '已选中，信息完整'
-                            : '已选中，信息不完整'
-                          : '未选中'
-                      }
-                      aria-pressed={item.selected}
-                      onClick={(event) => {
-                        event.stopPropagation();
-                        setPhotos((prev) =>
-                          prev.map((photo) =>
-                            photo.id === item.id ? { ...photo, selected: !photo.selected } : photo,
-                          ),
-                        );
-                      }}
-                    />
-                    <img src={item.thumbnailUrl ?? item.fileUrl} alt={item.filename} loading="lazy" />
+            <div className="thumb-grid__canvas" style={{ height: thumbLayout.height }}>
+              {renderedRows.map((row) =>
+                row.kind === 'header' ? (
+                  <div
+                    className="thumb-section"
+                    key={`section-${row.start}`}
+                    style={{ top: row.top, height: row.height }}
+                  >
+                    <span className="thumb-section__label">{row.label}</span>
+                    <span className="thumb-section__count">{row.count} 张</span>
                   </div>
-                </button>
-              );
-            })}
+                ) : (
+                  <div
+                    className="thumb-row"
+                    key={`row-${row.start}`}
+                    style={
+                      {
+                        top: row.top,
+                        height: row.height,
+                        gridTemplateColumns: `repeat(${columns}, minmax(0, 1fr))`,
+                        '--thumb-row-height': `${row.height}px`,
+                      } as React.CSSProperties
+                    }
+                  >
+                    {photos.slice(row.start, row.end).map((item, offset) =>
+                      renderThumbnail(item, row.start + offset),
+                    )}
+                  </div>
+                ),
+              )}
+            </div>
           </div>
 
-          <div className="pager">
-            <div className="pager__group">
-              <button
-                className="btn btn--ghost"
-                onClick={() => setPageIndex((prev) => Math.max(0, prev - 1))}
-                disabled={pageIndex === 0}
-                aria-label="上一页"
-              >
-                &lt;
-              </button>
-              <div className="pager__list">
-                {pageItems.map((item, index) =>
-                  item === 'ellipsis' ? (
-                    <span className="pager__ellipsis" key={`ellipsis-${index}`}>
-                      ...
-                    </span>
-                  ) : (
-                    <button
-                      key={item}
-                      className={`pager__item ${item === pageIndex + 1 ? 'pager__item--active' : ''}`}
-                      onClick={() => setPageIndex(item - 1)}
-                    >
-                      {item}
-                    </button>
-                  ),
-                )}
-              </div>
-              <button
-                className="btn btn--ghost"
-                onClick={() => setPageIndex((prev) => Math.min(totalPages - 1, prev + 1))}
-                disabled={pageIndex >= totalPages - 1}
-                aria-label="下一页"
-              >
-                &gt;
-              </button>
-            </div>
+          <div className="thumb-toolbar">
+            <span>{photos.length} 张</span>
+            <label className="thumb-toolbar__size">
+              <span>缩略图</span>
+              <input
+                type="range"
+                min={THUMB_SIZE_MIN}
+                max={THUMB_SIZE_MAX}
+                step={4}
+                value={thumbSize}
+                onChange={(event) => setThumbSize(Number(event.target.value))}
+                aria-label="缩略图大小"
+              />
+            </label>
           </div>
         </aside>
 
@@ -1435,21 +2389,85 @@ export function App() {
                 <span className="size-select__label">尺寸</span>
                 <select
                   className="size-select__control"
-                  value={exportSize}
-                  onChange={(event) =>
-                    handleExportSizeChange(event.target.value as '5' | '5L' | '6' | '6L')
-                  }
+                  value={activeSize.id}
+                  title={describeExportSize(activeSize)}
+                  onChange={(event) => handleExportSizeChange(event.target.value)}
                 >
-                  {Object.entries(EXPORT_SIZE_META).map(([value, meta]) => (
-                    <option key={value} value={value}>
-                      {meta.label}
+                  <optgroup label="常用尺寸">
+                    {BUILT_IN_EXPORT_SIZES.map((item) => (
+                      <option key={item.id} value={item.id}>
+                        {item.label}
+                      </option>
+                    ))}
+                  </optgroup>
+                  {customSizes.length > 0 ? (
+                    <optgroup label="自定义尺寸">
+                      {customSizes.map((item) => (
+                        <option key={item.id} value={item.id}>
+                          {item.label}
+                        </option>
+                      ))}
+                    </optgroup>
+                  ) : null}
+                </select>
+              </label>
+              <button
+                className="btn btn--ghost btn--compact"
+                onClick={() => setSizePanelOpen(true)}
+              >
+                尺寸
+              </button>
+              <label className="size-select">
+                <span className="size-select__label">样式</span>
+                <select
+                  className="size-select__control"
+                  value={activeTemplate.id}
+                  onChange={(event) => handleActivateTemplate(event.target.value)}
+                >
+                  {templates.map((item) => (
+                    <option key={item.id} value={item.id}>
+                      {item.name || '未命名模板'}
                     </option>
                   ))}
                 </select>
               </label>
+              <button
+                className="btn btn--ghost btn--compact"
+                onClick={() => setTemplatePanelOpen(true)}
+              >
+                模板
+              </button>
+              <button
+                className="icon-control"
+                aria-label="导出设置"
+                title="导出设置"
+                onClick={() => setSettingsPanelOpen(true)}
+              >
+                <svg viewBox="0 0 24 24" aria-hidden="true">
+                  <line x1="4" y1="6" x2="20" y2="6" />
+                  <line x1="4" y1="12" x2="20" y2="12" />
+                  <line x1="4" y1="18" x2="20" y2="18" />
+                  <circle cx="9" cy="6" r="2" />
+                  <circle cx="15" cy="12" r="2" />
+                  <circle cx="8" cy="18" r="2" />
+                </svg>
+              </button>
+              <button
+                className="btn btn--ghost btn--compact"
+                title="选择之前的导出目录，只重新导出新增或修改过的照片"
+                onClick={() => void handleExport('update')}
+                disabled={
+                  !canExport ||
+                  isExporting ||
+                  exportSettings.layout !== 'single' ||
+                  exportSettings.target === 'zip'
+                }
+              >
+                更新导出
+              </button>
               <button
                 className="btn btn--primary btn--compact"
-                onClick={handleExport}
+                onClick={() => void handleExport()}
                 disabled={!canExport || isExporting}
               >
                 {isExporting ? '导出中...' : '导出成品'}
@@ -1497,10 +2515,30 @@ export function App() {
             <div className="preview-canvas">
               {previewUrl ? (
                 <div className="preview-image" style={{ transform: `scale(${zoom})` }}>
-                  <img src={previewUrl} alt="预览" />
+                  <img
+                    ref={previewImageRef}
+                    src={previewUrl}
+                    alt="预览"
+                    onLoad={(event) =>
+                      setPreviewNatural({
+                        width: event.currentTarget.naturalWidth,
+                        height: event.currentTarget.naturalHeight,
+                      })
+                    }
+                  />
+                  {cropDraft && previewUrlMode === 'original' && previewNatural ? (
+                    <CropOverlay
+                      image={previewImageRef.current}
+                      crop={cropDraft}
+                      ratio={cropRatio}
+                      onChange={setCropDraft}
+                    />
+                  ) : null}
                 </div>
               ) : (
-                <div className="preview-placeholder">预览生成中...</div>
+                <div className="preview-placeholder">
+                  {currentPhoto?.missing ? '原图已缺失' : '预览生成中...'}
+                </div>
               )}
             </div>
           </div>
@@ -1614,6 +2652,136 @@ export function App() {
                 </button>
               </div>
             </label>
+            {captionCheck && captionCheck.status !== 'fit' ? (
+              <div
+                className={`field-warning ${
+                  captionCheck.status === 'truncated' ? 'field-warning--error' : ''
+                }`}
+                role="status"
+              >
+                {CAPTION_FIT_HINTS[captionCheck.status]}
+                {captionCheck.status === 'shrunk'
+                  ? `（约 ${Math.round(captionCheck.fontScale * 100)}%）`
+                  : ''}
+              </div>
+            ) : null}
+            {captionCheck && captionCheck.missingGlyphs.length > 0 ? (
+              <div className="field-warning field-warning--error" role="status">
+                {describeMissingGlyphs(captionCheck.missingGlyphs)}，请换用其他写法
+              </div>
+            ) : null}
+            {currentSoftDpi !== null ? (
+              <div className="field-warning" role="status">
+                分辨率偏低：按 {activeSize.label} 打印约 {currentSoftDpi} DPI，低于{' '}
+                {exportSettings.resolution.minDpi} DPI，成品可能发虚
+              </div>
+            ) : null}
+            <div className="field">
+              <span>方向修正</span>
+              <div className="field-row">
+                <button
+                  type="button"
+                  className="icon-button"
+                  aria-label="向左旋转"
+                  title="向左旋转 90°"
+                  onClick={handleRotateLeft}
+                  disabled={!currentPhoto}
+                >
+                  <svg viewBox="0 0 24 24" aria-hidden="true">
+                    <polyline points="2 4 2 10 8 10" />
+                    <path d="M4.5 15.5a8 8 0 1 0 1.9-8.3L2 10" />
+                  </svg>
+                </button>
+                <button
+                  type="button"
+                  className="icon-button"
+                  aria-label="向右旋转"
+                  title="向右旋转 90°"
+                  onClick={handleRotateRight}
+                  disabled={!currentPhoto}
+                >
+                  <svg viewBox="0 0 24 24" aria-hidden="true">
+                    <polyline points="22 4 22 10 16 10" />
+                    <path d="M19.5 15.5a8 8 0 1 1-1.9-8.3L22 10" />
+                  </svg>
+                </button>
+                <button
+                  type="button"
+                  className={`field-toggle ${currentPhoto?.meta.mirrored ? 'field-toggle--active' : ''}`}
+                  aria-pressed={Boolean(currentPhoto?.meta.mirrored)}
+                  onClick={handleToggleMirror}
+                  disabled={!currentPhoto}
+                  title="水平镜像"
+                >
+                  镜像
+                </button>
+                <button
+                  type="button"
+                  className="field-toggle"
+                  onClick={handleResetOrientation}
+                  disabled={
+                    !currentPhoto ||
+                    (currentPhoto.meta.rotation === 0 && !currentPhoto.meta.mirrored)
+                  }
+                  title="恢复为 EXIF 方向"
+                >
+                  复位
+                </button>
+                <span className="field-hint">
+                  {currentPhoto && currentPhoto.meta.rotation
+                    ? `已旋转 ${currentPhoto.meta.rotation}°`
+                    : '按 EXIF 方向'}
+                </span>
+              </div>
+            </div>
+            <div className="field">
+              <span>裁切</span>
+              {isCropEditing ? (
+                <div className="field-row">
+                  <button
+                    type="button"
+                    className={`field-toggle ${cropDraft?.locked ? 'field-toggle--active' : ''}`}
+                    aria-pressed={Boolean(cropDraft?.locked)}
+                    onClick={handleToggleCropLock}
+                    title="锁定为当前导出尺寸的比例"
+                  >
+                    锁定比例
+                  </button>
+                  <button type="button" className="field-toggle" onClick={handleApplyCrop}>
+                    确定
+                  </button>
+                  <button type="button" className="field-toggle" onClick={() => setCropDraft(null)}>
+                    取消
+                  </button>
+                </div>
+              ) : (
+                <div className="field-row">
+                  <button
+                    type="button"
+                    className="field-toggle"
+                    onClick={handleStartCrop}
+                    disabled={!currentPhoto}
+                  >
+                    {currentPhoto?.meta.crop ? '调整裁切' : '裁切'}
+                  </button>
+                  <button
+                    type="button"
+                    className="field-toggle"
+                    onClick={handleClearCrop}
+                    disabled={!currentPhoto?.meta.crop}
+                  >
+                    清除
+                  </button>
+                  <span className="field-hint">
+                    {currentPhoto?.meta.crop
+                      ? currentPhoto.meta.crop.locked
+                        ? '已裁切（锁定比例）'
+                        : '已裁切（自由）'
+                      : '完整画面'}
+                  </span>
+                </div>
+              )}
+            </div>
           </div>
           <div className="form-actions">
             <div className="form-actions__row form-actions__row--top">
@@ -1669,6 +2837,33 @@ export function App() {
       <footer className="status-bar">
         <div>
           总计: {photos.length} 张 | 已选: {selectedPhotos.length} 张 | 待完善: {incompleteCount} 张
+          {indexProgress ? ` | 正在索引: ${indexProgress.done}/${indexProgress.total}` : ''}
+          {skippedFiles.length > 0 ? (
+            <>
+              {' | '}
+              <button className="status-bar__action" onClick={() => setSkippedDialogOpen(true)}>
+                未导入: {skippedFiles.length} 个文件
+              </button>
+            </>
+          ) : null}
+          {missingPhotos.length > 0 ? (
+            <>
+              {' | '}
+              <button
+                className="status-bar__action"
+                onClick={() =>
+                  setRescanReport({
+                    source: 'missing',
+                    added: [],
+                    moved: [],
+                    missing: missingPhotos.map((photo) => photo.relativePath),
+                  })
+                }
+              >
+                缺失: {missingPhotos.length} 张
+              </button>
+            </>
+          ) : null}
         </div>
         <div className="status-bar__right">
           <div className="status-bar__text" aria-live="polite">
@@ -1696,19 +2891,70 @@ export function App() {
               />
             </div>
           ) : null}
+          {exportDialog && exportDialogHidden && !isExporting ? (
+            <button className="status-bar__action" onClick={() => setExportDialogHidden(false)}>
+              查看导出结果
+            </button>
+          ) : null}
+          {exportProgress && isExporting ? (
+            <>
+              <button
+                className="status-bar__action"
+                onClick={() => void handleToggleExportPause()}
+                disabled={exportRunState === 'cancelling'}
+              >
+                {exportRunState === 'paused' ? '继续' : '暂停'}
+              </button>
+              <button
+                className="status-bar__action"
+                onClick={() => void handleCancelExport()}
+                disabled={exportRunState === 'cancelling'}
+              >
+                取消
+              </button>
+            </>
+          ) : null}
         </div>
       </footer>
-      {exportDialog ? (
+      {exportDialog && !exportDialogHidden ? (
         <div className="modal-backdrop" role="presentation">
           <div className="modal" role="dialog" aria-modal="true" aria-label={exportDialog.title}>
             <div className="modal__title">{exportDialog.title}</div>
             <div className="modal__stats">
               成功 {exportDialog.exported} 张 · 失败 {exportDialog.failed} 张 · 总计{' '}
               {exportDialog.total} 张
+              {exportDialog.sheets !== undefined ? ` · 拼版 ${exportDialog.sheets} 页` : ''}
+              {exportDialog.pages !== undefined ? ` · 相册 ${exportDialog.pages} 页` : ''}
             </div>
-            {exportDialog.outputDir ? (
+            {exportDialog.update ? (
+              <div className="modal__stats">
+                新增 {exportDialog.update.added} · 更新 {exportDialog.update.updated} · 重命名{' '}
+                {exportDialog.update.renamed} · 未变 {exportDialog.update.unchanged} · 删除{' '}
+                {exportDialog.update.removed}
+              </div>
+            ) : null}
+            {exportDialog.archivePath ? (
+              <div className="modal__path">压缩包：{exportDialog.archivePath}</div>
+            ) : exportDialog.documentPath ? (
+              <div className="modal__path">相册：{exportDialog.documentPath}</div>
+            ) : exportDialog.outputDir ? (
               <div className="modal__path">输出目录：{exportDialog.outputDir}</div>
             ) : null}
+            {exportDialog.failures && exportDialog.failures.length > 0 ? (
+              <ul className="modal__list modal__list--scroll">
+                {exportDialog.failures.map((failure) => (
+                  <li key={failure.relativePath} title={failure.message}>
+                    <button
+                      className="modal__link"
+                      onClick={() => handleJumpToFailure(failure.relativePath)}
+                    >
+                      {failure.filename}
+                    </button>
+                    ：{EXPORT_FAILURE_LABELS[failure.reason]}
+                  </li>
+                ))}
+              </ul>
+            ) : null}
             {exportDialog.note ? <div className="modal__note">{exportDialog.note}</div> : null}
             <div className="modal__actions">
               <button
@@ -1717,6 +2963,13 @@ export function App() {
               >
                 知道了
               </button>
+              {exportDialog.failures &&
+              exportDialog.failures.length > 0 &&
+              exportDialog.retryTarget ? (
+                <button className="btn btn--ghost" onClick={handleRetryFailed}>
+                  只重试失败的照片
+                </button>
+              ) : null}
               {exportDialog.outputDir ? (
                 <button
                   className="btn btn--primary"
@@ -1740,6 +2993,203 @@ export function App() {
           </div>
         </div>
       ) : null}
+      {exportReview ? (
+        <div className="modal-backdrop" role="presentation">
+          <div className="modal" role="dialog" aria-modal="true" aria-label="导出前确认">
+            <div className="modal__title">
+              {exportReview.softItems.length === 0
+                ? '部分照片文字需要处理'
+                : exportReview.captionItems.length === 0
+                  ? '部分照片分辨率不足'
+                  : '导出前请确认'}
+            </div>
+            {exportReview.captionItems.length > 0 ? (
+              <>
+                <div className="modal__note">
+                  以下 {exportReview.captionItems.length}{' '}
+                  张照片的文字在当前尺寸下放不下或含有字体中没有的字：
+                </div>
+                <ul className="modal__list modal__list--scroll">
+                  {exportReview.captionItems.map((item) => (
+                    <li key={item.filename}>
+                      {item.filename}：
+                      {[
+                        CAPTION_FIT_HINTS[item.status],
+                        item.missingGlyphs.length > 0
+                          ? describeMissingGlyphs(item.missingGlyphs)
+                          : '',
+                      ]
+                        .filter(Boolean)
+                        .join('；')}
+                    </li>
+                  ))}
+                </ul>
+              </>
+            ) : null}
+            {exportReview.softItems.length > 0 ? (
+              <>
+                <div className="modal__note">
+                  以下 {exportReview.softItems.length} 张照片按 {activeSize.label} 打印时低于{' '}
+                  {exportSettings.resolution.minDpi} DPI，成品可能发虚
+                  {exportSettings.resolution.upscale
+                    ? '：'
+                    : '；已设置不放大小图，将按原像素居中放置：'}
+                </div>
+                <ul className="modal__list modal__list--scroll">
+                  {exportReview.softItems.map((item) => (
+                    <li key={item.filename}>
+                      {item.filename}：约 {item.effectiveDpi} DPI
+                    </li>
+                  ))}
+                </ul>
+              </>
+            ) : null}
+            <div className="modal__actions">
+              <button className="btn btn--ghost" onClick={() => setExportReview(null)}>
+                返回修改
+              </button>
+              <button
+                className="btn btn--primary"
+                autoFocus
+                onClick={() => {
+                  const { readyItems } = exportReview;
+                  setExportReview(null);
+                  void runExport(readyItems, exportReview.mode);
+                }}
+              >
+                继续导出
+              </button>
+            </div>
+          </div>
+        </div>
+      ) : null}
+      {settingsPanelOpen ? (
+        <ExportSettingsPanel
+          settings={exportSettings}
+          activeSize={activeSize}
+          customSizes={customSizes}
+          namingItems={selectedPhotos.map((photo) => ({
+            relativePath: photo.relativePath,
+            meta: buildOutputMeta(photo.meta),
+          }))}
+          onChange={setExportSettings}
+          onClose={() => setSettingsPanelOpen(false)}
+        />
+      ) : null}
+      {skippedDialogOpen ? (
+        <div className="modal-backdrop" role="presentation">
+          <div className="modal" role="dialog" aria-modal="true" aria-label="未导入的文件">
+            <div className="modal__title">未导入的文件</div>
+            <div className="modal__note">
+              支持 JPG、PNG、HEIC/HEIF、WebP、AVIF、TIFF、GIF（第一帧）与常见 RAW（使用内嵌预览）。以下{' '}
+              {skippedFiles.length} 个文件没有导入：
+            </div>
+            <ul className="modal__list modal__list--scroll">
+              {skippedFiles.map((item) => (
+                <li key={item.relativePath}>
+                  {item.relativePath}：{SKIPPED_FILE_HINTS[item.reason]}
+                </li>
+              ))}
+            </ul>
+            <div className="modal__actions">
+              <button
+                className="btn btn--primary"
+                autoFocus
+                onClick={() => setSkippedDialogOpen(false)}
+              >
+                知道了
+              </button>
+            </div>
+          </div>
+        </div>
+      ) : null}
+      {rescanReport ? (
+        <div className="modal-backdrop" role="presentation">
+          <div className="modal" role="dialog" aria-modal="true" aria-label="文件夹变化">
+            <div className="modal__title">
+              {rescanReport.source === 'missing'
+                ? '缺失的照片'
+                : rescanReport.source === 'open'
+                  ? '文件夹内容有变化'
+                  : '重新扫描完成'}
+            </div>
+            {rescanReport.added.length > 0 ? (
+              <>
+                <div className="modal__note">新增 {rescanReport.added.length} 张照片：</div>
+                <ul className="modal__list modal__list--scroll">
+                  {rescanReport.added.map((item) => (
+                    <li key={item}>{item}</li>
+                  ))}
+                </ul>
+              </>
+            ) : null}
+            {rescanReport.moved.length > 0 ? (
+              <>
+                <div className="modal__note">
+                  {rescanReport.moved.length} 张照片被移动或重命名，日期、地点与描述已随照片保留：
+                </div>
+                <ul className="modal__list modal__list--scroll">
+                  {rescanReport.moved.map((item) => (
+                    <li key={item.to}>
+                      {item.from} → {item.to}
+                    </li>
+                  ))}
+                </ul>
+              </>
+            ) : null}
+            {rescanReport.missing.length > 0 ? (
+              <>
+                <div className="modal__note">
+                  {rescanReport.missing.length}{' '}
+                  张照片的原图已不在文件夹中。它们的信息仍保留在项目里，原图放回或找到后重新扫描即可恢复；确认不再需要时可以移除：
+                </div>
+                <ul className="modal__list modal__list--scroll">
+                  {rescanReport.missing.map((item) => (
+                    <li key={item}>{item}</li>
+                  ))}
+                </ul>
+              </>
+            ) : null}
+            <div className="modal__actions">
+              {missingPhotos.length > 0 && rescanReport.missing.length > 0 ? (
+                <button className="btn btn--ghost" onClick={handleRemoveMissing}>
+                  移除缺失照片的信息
+                </button>
+              ) : null}
+              <button className="btn btn--primary" autoFocus onClick={() => setRescanReport(null)}>
+                {rescanReport.missing.length > 0 ? '暂时保留' : '知道了'}
+              </button>
+            </div>
+          </div>
+        </div>
+      ) : null}
+      {cachePanelOpen ? (
+        <CachePanel
+          onCleared={() => {
+            setPhotos((prev) => prev.map((photo) => ({ ...photo, thumbnailUrl: undefined })));
+            setCacheGeneration((prev) => prev + 1);
+          }}
+          onClose={() => setCachePanelOpen(false)}
+        />
+      ) : null}
+      {sizePanelOpen ? (
+        <SizePanel
+          customSizes={customSizes}
+          activeSizeId={activeSize.id}
+          onChange={setCustomSizes}
+          onActivate={handleExportSizeChange}
+          onClose={() => setSizePanelOpen(false)}
+        />
+      ) : null}
+      {templatePanelOpen ? (
+        <TemplatePanel
+          templates={templates}
+          activeTemplateId={activeTemplate.id}
+          onChange={setTemplates}
+          onActivate={handleActivateTemplate}
+          onClose={() => setTemplatePanelOpen(false)}
+        />
+      ) : null}
       {helpDialog ? (
         <div className="modal-backdrop" role="presentation">
           <div
@@ -0,0 +1,182 @@
+import { useEffect, useState } from 'react';
+import type { ImageCacheUsage } from '../types/project';
+
+type CachePanelProps = {
+  // 缓存文件被删除后通知重新加载缩略图与预览
+  onCleared: () => void;
+  onClose: () => void;
+};
+
+const MB = 1024 * 1024;
+
+const LIMIT_OPTIONS = [256, 512, 1024, 2048, 5120].map((value) => value * MB);
+
+const formatBytes = (value: number) =>
+  value >= 1024 * MB ? `${(value / 1024 / MB).toFixed(1)} GB` : `${(value / MB).toFixed(1)} MB`;
+
+export function CachePanel({ onCleared, onClose }: CachePanelProps) {
+  const [usage, setUsage] = useState<ImageCacheUsage | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  // 清理失效项目前先确认：暂时访问不到的照片目录也会被当作失效
+  const [confirmingStale, setConfirmingStale] = useState(false);
+
+  useEffect(() => {
+    if (!window.imgstamp) {
+      return;
+    }
+    window.imgstamp
+      .getCacheUsage()
+      .then(setUsage)
+      .catch((error) => console.error(error));
+  }, []);
+
+  const run = async (task: () => Promise<string>) => {
+    if (!window.imgstamp || busy) {
+      return;
+    }
+    setBusy(true);
+    try {
+      setMessage(await task());
+      setUsage(await window.imgstamp.getCacheUsage());
+    } catch (error) {
+      console.error(error);
+      setMessage('操作失败');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleLimitChange = (limitBytes: number) =>
+    run(async () => {
+      await window.imgstamp.setCacheLimit(limitBytes);
+      onCleared();
+      return `缓存上限已设为 ${formatBytes(limitBytes)}`;
+    });
+
+  const handleRemoveStale = () =>
+    run(async () => {
+      setConfirmingStale(false);
+      const freed = await window.imgstamp.removeStaleCache();
+      return freed > 0 ? `已清理 ${formatBytes(freed)}` : '没有失效的缓存';
+    });
+
+  const handleClear = () =>
+    run(async () => {
+      const freed = await window.imgstamp.clearCache();
+      onCleared();
+      return `已清空 ${formatBytes(freed)}`;
+    });
+
+  const limitOptions =
+    usage && !LIMIT_OPTIONS.includes(usage.limitBytes)
+      ? [...LIMIT_OPTIONS, usage.limitBytes].sort((a, b) => a - b)
+      : LIMIT_OPTIONS;
+
+  return (
+    <div className="modal-backdrop" role="presentation">
+      <div className="modal" role="dialog" aria-modal="true" aria-label="缓存管理">
+        <div className="modal__title">缓存管理</div>
+        <div className="settings-panel">
+          <section className="settings-section">
+            <div className="settings-section__title">占用空间</div>
+            {usage ? (
+              <>
+                <div className="cache-usage">
+                  <div className="cache-usage__bar">
+                    <span
+                      className="cache-usage__fill"
+                      style={{
+                        width: `${Math.min(100, (usage.totalBytes / usage.limitBytes) * 100)}%`,
+                      }}
+                    />
+                  </div>
+                  <div className="cache-usage__text">
+                    {formatBytes(usage.totalBytes)} / {formatBytes(usage.limitBytes)}
+                  </div>
+                </div>
+                <div className="modal__note">
+                  缩略图 {usage.thumbnails} 张，预览 {usage.previews} 张，来自 {usage.folders}{' '}
+                  个照片目录。
+                </div>
+              </>
+            ) : (
+              <div className="modal__note">正在统计…</div>
+            )}
+            <label className="field">
+              <span>容量上限</span>
+              <select
+                value={usage?.limitBytes ?? ''}
+                disabled={!usage || busy}
+                onChange={(event) => void handleLimitChange(Number(event.target.value))}
+              >
+                {limitOptions.map((value) => (
+                  <option key={value} value={value}>
+                    {formatBytes(value)}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <div className="modal__note">
+              超出上限时自动删除最久未使用的缩略图与预览；原图被替换后会重新生成缩略图，旧的随之淘汰。
+            </div>
+          </section>
+          <section className="settings-section">
+            <div className="settings-section__title">清理</div>
+            <div className="field-row">
+              <button
+                type="button"
+                className="field-toggle"
+                onClick={() => setConfirmingStale(true)}
+                disabled={busy || confirmingStale}
+              >
+                清理失效项目
+              </button>
+              <button type="button" className="field-toggle" onClick={handleClear} disabled={busy}>
+                清空缓存
+              </button>
+            </div>
+            <div className="modal__note">
+              “清理失效项目”删除照片目录已不存在的缓存；清空后缩略图会按需重新生成。
+            </div>
+            {confirmingStale ? (
+              <>
+                <div className="modal__note" role="alert">
+                  外接硬盘或网络位置未连接时，其中照片的缓存也会被删除，下次打开需要重新生成。确定清理吗？
+                </div>
+                <div className="field-row">
+                  <button
+                    type="button"
+                    className="field-toggle"
+                    onClick={handleRemoveStale}
+                    disabled={busy}
+                  >
+                    确定清理
+                  </button>
+                  <button
+                    type="button"
+                    className="field-toggle"
+                    onClick={() => setConfirmingStale(false)}
+                    disabled={busy}
+                  >
+                    取消
+                  </button>
+                </div>
+              </>
+            ) : null}
+            {message ? (
+              <div className="modal__note" role="status">
+                {message}
+              </div>
+            ) : null}
+          </section>
+        </div>
+        <div className="modal__actions">
+          <button className="btn btn--primary" onClick={onClose} autoFocus>
+            完成
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,156 @@
+import { useLayoutEffect, useRef, useState } from 'react';
+import type { PointerEvent as ReactPointerEvent } from 'react';
+import { MIN_CROP_SIZE } from '../shared/photo-crop';
+import type { PhotoCrop } from '../types/project';
+
+type CropHandle = 'move' | 'nw' | 'ne' | 'sw' | 'se';
+
+type CropOverlayProps = {
+  // 覆盖在该图片的显示区域上
+  image: HTMLImageElement | null;
+  crop: PhotoCrop;
+  // 锁定比例时为归一化坐标下的宽高比，自由裁切时为 null
+  ratio: number | null;
+  onChange: (crop: PhotoCrop) => void;
+};
+
+type DragState = {
+  handle: CropHandle;
+  startX: number;
+  startY: number;
+  origin: PhotoCrop;
+};
+
+const CORNER_HANDLES: Array<Exclude<CropHandle, 'move'>> = ['nw', 'ne', 'sw', 'se'];
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+
+// 拖动角点时固定对角，在对角到图片边缘的范围内求新的宽高
+function resizeCrop(
+  origin: PhotoCrop,
+  handle: Exclude<CropHandle, 'move'>,
+  pointX: number,
+  pointY: number,
+  ratio: number | null,
+): PhotoCrop {
+  const fromLeft = handle === 'nw' || handle === 'sw';
+  const fromTop = handle === 'nw' || handle === 'ne';
+  const anchorX = fromLeft ? origin.x + origin.width : origin.x;
+  const anchorY = fromTop ? origin.y + origin.height : origin.y;
+  const maxWidth = fromLeft ? anchorX : 1 - anchorX;
+  const maxHeight = fromTop ? anchorY : 1 - anchorY;
+  let width = clamp(fromLeft ? anchorX - pointX : pointX - anchorX, MIN_CROP_SIZE, maxWidth);
+  let height = clamp(fromTop ? anchorY - pointY : pointY - anchorY, MIN_CROP_SIZE, maxHeight);
+  if (ratio) {
+    height = width / ratio;
+    if (height > maxHeight) {
+      height = maxHeight;
+      width = height * ratio;
+    }
+  }
+  return {
+    ...origin,
+    x: fromLeft ? anchorX - width : anchorX,
+    y: fromTop ? anchorY - height : anchorY,
+    width,
+    height,
+  };
+}
+
+export function CropOverlay({ image, crop, ratio, onChange }: CropOverlayProps) {
+  const containerRef = useRef<HTMLDivElement | null>(null);
+  const dragRef = useRef<DragState | null>(null);
+  const [frame, setFrame] = useState({ left: 0, top: 0, width: 0, height: 0 });
+
+  useLayoutEffect(() => {
+    if (!image) {
+      return;
+    }
+    const measure = () =>
+      setFrame({
+        left: image.offsetLeft,
+        top: image.offsetTop,
+        width: image.offsetWidth,
+        height: image.offsetHeight,
+      });
+    measure();
+    const observer = new ResizeObserver(measure);
+    observer.observe(image);
+    return () => observer.disconnect();
+  }, [image]);
+
+  const handlePointerDown = (handle: CropHandle) => (event: ReactPointerEvent<HTMLElement>) => {
+    if (event.button !== 0 || !containerRef.current) {
+      return;
+    }
+    event.preventDefault();
+    event.stopPropagation();
+    containerRef.current.setPointerCapture(event.pointerId);
+    dragRef.current = { handle, startX: event.clientX, startY: event.clientY, origin: crop };
+  };
+
+  const handlePointerMove = (event: ReactPointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    const container = containerRef.current;
+    if (!drag || !container) {
+      return;
+    }
+    // 预览区有缩放，按实际显示尺寸换算
+    const rect = container.getBoundingClientRect();
+    if (rect.width === 0 || rect.height === 0) {
+      return;
+    }
+    const { origin } = drag;
+    if (drag.handle === 'move') {
+      const dx = (event.clientX - drag.startX) / rect.width;
+      const dy = (event.clientY - drag.startY) / rect.height;
+      onChange({
+        ...origin,
+        x: clamp(origin.x + dx, 0, 1 - origin.width),
+        y: clamp(origin.y + dy, 0, 1 - origin.height),
+      });
+      return;
+    }
+    const pointX = clamp((event.clientX - rect.left) / rect.width, 0, 1);
+    const pointY = clamp((event.clientY - rect.top) / rect.height, 0, 1);
+    onChange(resizeCrop(origin, drag.handle, pointX, pointY, ratio));
+  };
+
+  const handlePointerUp = (event: ReactPointerEvent<HTMLDivElement>) => {
+    if (!dragRef.current) {
+      return;
+    }
+    dragRef.current = null;
+    containerRef.current?.releasePointerCapture(event.pointerId);
+  };
+
+  return (
+    <div
+      ref={containerRef}
+      className="crop-overlay"
+      style={frame}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+    >
+      <div
+        className="crop-overlay__box"
+        style={{
+          left: `${crop.x * 100}%`,
+          top: `${crop.y * 100}%`,
+          width: `${crop.width * 100}%`,
+          height: `${crop.height * 100}%`,
+        }}
+        onPointerDown={handlePointerDown('move')}
+      >
+        {CORNER_HANDLES.map((handle) => (
+          <span
+            key={handle}
+            className={`crop-overlay__handle crop-overlay__handle--${handle}`}
+            onPointerDown={handlePointerDown(handle)}
+          />
+        ))}
+      </div>
+    </div>
+  );
+}
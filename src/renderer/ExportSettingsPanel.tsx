@@ -0,0 +1,743 @@
+import {
+  EXPORT_GROUPING_LABELS,
+  FILE_NAME_TOKENS,
+  planExportFiles,
+  type ExportNamingItem,
+} from '../shared/export-naming';
+import {
+  COLOR_PROFILE_LABELS,
+  EXPORT_LAYOUT_LABELS,
+  EXPORT_TARGET_LABELS,
+  OUTPUT_FORMAT_LABELS,
+  PHOTOBOOK_ORDER_LABELS,
+  TIFF_COMPRESSION_LABELS,
+  normalizePhotobookSettings,
+  normalizeSheetSettings,
+} from '../shared/export-settings';
+import {
+  BUILT_IN_EXPORT_SIZES,
+  describeExportSize,
+  resolveExportSize,
+} from '../shared/export-sizes';
+import {
+  computePhotobookLayout,
+  computeSheetLayout,
+  type PhotobookLayout,
+  type SheetLayout,
+} from '../shared/print-sheet';
+import type {
+  ColorProfileMode,
+  ExportGrouping,
+  ExportLayoutMode,
+  ExportSettings,
+  ExportSizeSpec,
+  ExportTarget,
+  OutputFormat,
+  OutputFormatSettings,
+  PhotobookOrder,
+  PhotobookSettings,
+  PrintResolutionSettings,
+  SheetSettings,
+  TiffCompression,
+} from '../types/project';
+
+type ExportSettingsPanelProps = {
+  settings: ExportSettings;
+  activeSize: ExportSizeSpec;
+  customSizes: ExportSizeSpec[];
+  // 当前选中的照片，用于预览导出文件名
+  namingItems: ExportNamingItem[];
+  onChange: (settings: ExportSettings) => void;
+  onClose: () => void;
+};
+
+const COLOR_PROFILE_KEYS = Object.keys(COLOR_PROFILE_LABELS) as ColorProfileMode[];
+const LAYOUT_KEYS = Object.keys(EXPORT_LAYOUT_LABELS) as ExportLayoutMode[];
+const PHOTOBOOK_ORDER_KEYS = Object.keys(PHOTOBOOK_ORDER_LABELS) as PhotobookOrder[];
+const OUTPUT_FORMAT_KEYS = Object.keys(OUTPUT_FORMAT_LABELS) as OutputFormat[];
+const TIFF_COMPRESSION_KEYS = Object.keys(TIFF_COMPRESSION_LABELS) as TiffCompression[];
+const CHROMA_OPTIONS: Array<{ value: OutputFormatSettings['chromaSubsampling']; label: string }> = [
+  { value: '4:2:0', label: '4:2:0（文件更小）' },
+  { value: '4:4:4', label: '4:4:4（色彩更细）' },
+];
+const OUTPUT_FORMAT_NOTES: Record<OutputFormat, string> = {
+  jpeg: '照片与拼版均输出 JPEG，兼容性最好。',
+  png: 'PNG 为无损输出，文件较大。',
+  webp: 'WebP 体积比 JPEG 小，部分冲印店不支持。',
+  avif: 'AVIF 体积最小但编码较慢；元数据只写入 XMP。',
+  tiff: 'TIFF 为 16 位无损输出，文件较大，适合冲印店；元数据只写入 XMP。',
+};
+const TARGET_KEYS = Object.keys(EXPORT_TARGET_LABELS) as ExportTarget[];
+const GROUPING_KEYS = Object.keys(EXPORT_GROUPING_LABELS) as ExportGrouping[];
+const NAMING_PREVIEW_LIMIT = 6;
+const SHEET_PREVIEW_WIDTH = 180;
+
+function SheetPreview({ layout }: { layout: SheetLayout }) {
+  const scale = SHEET_PREVIEW_WIDTH / Math.max(layout.canvas.width, layout.canvas.height);
+  const width = layout.canvas.width * scale;
+  const height = layout.canvas.height * scale;
+  return (
+    <svg className="sheet-preview" width={width} height={height} aria-hidden="true">
+      <rect x={0} y={0} width={width} height={height} className="sheet-preview__paper" />
+      {layout.slots.map((slot, index) => (
+        <rect
+          key={index}
+          x={slot.left * scale}
+          y={slot.top * scale}
+          width={layout.box.width * scale}
+          height={layout.box.height * scale}
+          className="sheet-preview__photo"
+        />
+      ))}
+    </svg>
+  );
+}
+
+function PhotobookPreview({ layout }: { layout: PhotobookLayout }) {
+  const scale = SHEET_PREVIEW_WIDTH / Math.max(layout.canvas.width, layout.canvas.height);
+  const width = layout.canvas.width * scale;
+  const height = layout.canvas.height * scale;
+  return (
+    <svg className="sheet-preview" width={width} height={height} aria-hidden="true">
+      <rect x={0} y={0} width={width} height={height} className="sheet-preview__paper" />
+      {layout.cells.map((cell, index) => (
+        <rect
+          key={index}
+          x={cell.left * scale}
+          y={cell.top * scale}
+          width={cell.width * scale}
+          height={cell.height * scale}
+          className="sheet-preview__photo"
+        />
+      ))}
+    </svg>
+  );
+}
+
+export function ExportSettingsPanel({
+  settings,
+  activeSize,
+  customSizes,
+  namingItems,
+  onChange,
+  onClose,
+}: ExportSettingsPanelProps) {
+  const update = (partial: Partial<ExportSettings>) => onChange({ ...settings, ...partial });
+  const updateSheet = (partial: Partial<SheetSettings>) =>
+    update({ sheet: { ...settings.sheet, ...partial } });
+  const updateSheetNumber = (
+    key: 'columns' | 'rows' | 'gutterMm' | 'marginMm',
+    value: string,
+  ) => {
+    const numeric = Number(value);
+    updateSheet({ [key]: Number.isFinite(numeric) ? numeric : 0 });
+  };
+
+  const updatePhotobook = (partial: Partial<PhotobookSettings>) =>
+    update({ photobook: { ...settings.photobook, ...partial } });
+  const updatePhotobookNumber = (
+    key: 'columns' | 'rows' | 'gutterMm' | 'marginMm',
+    value: string,
+  ) => {
+    const numeric = Number(value);
+    updatePhotobook({ [key]: Number.isFinite(numeric) ? numeric : 0 });
+  };
+
+  const updateResolution = (partial: Partial<PrintResolutionSettings>) =>
+    update({ resolution: { ...settings.resolution, ...partial } });
+
+  const updateOutput = (partial: Partial<OutputFormatSettings>) =>
+    update({ output: { ...settings.output, ...partial } });
+  // 可能输出的格式：相册固定为 JPEG；按原图格式时以 JPEG 为主
+  const outputFormat: OutputFormat =
+    settings.layout === 'photobook' || settings.output.mode === 'source'
+      ? 'jpeg'
+      : settings.output.format;
+  const hasQuality = outputFormat === 'jpeg' || outputFormat === 'webp' || outputFormat === 'avif';
+  const hasChroma = outputFormat === 'jpeg' || outputFormat === 'avif';
+
+  const sheetSize = resolveExportSize(settings.sheet.sizeId, customSizes);
+  let sheetLayout: SheetLayout | null = null;
+  try {
+    sheetLayout = computeSheetLayout(sheetSize, activeSize, normalizeSheetSettings(settings.sheet));
+  } catch {
+    sheetLayout = null;
+  }
+
+  const photobookSize = resolveExportSize(settings.photobook.sizeId, customSizes);
+  let photobookLayout: PhotobookLayout | null = null;
+  try {
+    photobookLayout = computePhotobookLayout(
+      photobookSize,
+      activeSize,
+      normalizePhotobookSettings(settings.photobook),
+    );
+  } catch {
+    photobookLayout = null;
+  }
+
+  const sizeOptions = (
+    <>
+      <optgroup label="常用尺寸">
+        {BUILT_IN_EXPORT_SIZES.map((item) => (
+          <option key={item.id} value={item.id}>
+            {item.label}
+          </option>
+        ))}
+      </optgroup>
+      {customSizes.length > 0 ? (
+        <optgroup label="自定义尺寸">
+          {customSizes.map((item) => (
+            <option key={item.id} value={item.id}>
+              {item.label}
+            </option>
+          ))}
+        </optgroup>
+      ) : null}
+    </>
+  );
+
+  const namingPlans = planExportFiles(namingItems, {
+    template: settings.fileNameTemplate,
+    grouping: settings.grouping,
+    sizeLabel: activeSize.label,
+    output: settings.output,
+  }).slice(0, NAMING_PREVIEW_LIMIT);
+
+  const handlePickIcc = async () => {
+    if (!window.imgstamp) {
+      return;
+    }
+    const filePath = await window.imgstamp.openIccProfile();
+    if (!filePath) {
+      return;
+    }
+    update({ colorProfile: 'custom', iccProfilePath: filePath });
+  };
+
+  return (
+    <div className="modal-backdrop" role="presentation">
+      <div className="modal modal--wide" role="dialog" aria-modal="true" aria-label="导出设置">
+        <div className="modal__title">导出设置</div>
+        <div className="settings-panel">
+          <section className="settings-section">
+            <div className="settings-section__title">打印分辨率</div>
+            <div className="modal__note">
+              当前尺寸 {activeSize.label}：{describeExportSize(activeSize)}。导出文件会写入该
+              DPI，冲印店可直接按物理尺寸输出。
+            </div>
+            <div className="template-form">
+              <div className="template-form__row">
+                <label className="field">
+                  <span>清晰度提醒阈值（DPI）</span>
+                  <input
+                    type="number"
+                    min={50}
+                    max={600}
+                    step={10}
+                    value={settings.resolution.minDpi}
+                    onChange={(event) => {
+                      const numeric = Number(event.target.value);
+                      updateResolution({ minDpi: Number.isFinite(numeric) ? numeric : 0 });
+                    }}
+                  />
+                </label>
+              </div>
+            </div>
+            <label className="field-check">
+              <input
+                type="checkbox"
+                checked={!settings.resolution.upscale}
+                onChange={(event) => updateResolution({ upscale: !event.target.checked })}
+              />
+              <span>不放大小图</span>
+            </label>
+            <div className="modal__note">
+              原图像素按照片区域打印低于阈值的，缩略图上会标出实际 DPI，导出前列出确认。勾选不放大后，
+              这些照片按原像素居中放置、四周留白，不再插值放大。
+            </div>
+          </section>
+          <section className="settings-section">
+            <div className="settings-section__title">导出方式</div>
+            <div className="field-row">
+              {LAYOUT_KEYS.map((key) => (
+                <button
+                  type="button"
+                  key={key}
+                  className={`field-toggle ${
+                    settings.layout === key ? 'field-toggle--active' : ''
+                  }`}
+                  aria-pressed={settings.layout === key}
+                  onClick={() => update({ layout: key })}
+                >
+                  {EXPORT_LAYOUT_LABELS[key]}
+                </button>
+              ))}
+            </div>
+            {settings.layout === 'sheet' ? (
+              <div className="sheet-settings">
+                <div className="template-form">
+                  <label className="field">
+                    <span>纸张</span>
+                    <select
+                      value={settings.sheet.sizeId}
+                      onChange={(event) => updateSheet({ sizeId: event.target.value })}
+                    >
+                      {sizeOptions}
+                    </select>
+                  </label>
+                  <div className="template-form__row">
+                    <label className="field">
+                      <span>列数</span>
+                      <input
+                        type="number"
+                        min={1}
+                        max={10}
+                        step={1}
+                        value={settings.sheet.columns}
+                        onChange={(event) => updateSheetNumber('columns', event.target.value)}
+                      />
+                    </label>
+                    <label className="field">
+                      <span>行数</span>
+                      <input
+                        type="number"
+                        min={1}
+                        max={10}
+                        step={1}
+                        value={settings.sheet.rows}
+                        onChange={(event) => updateSheetNumber('rows', event.target.value)}
+                      />
+                    </label>
+                  </div>
+                  <div className="template-form__row">
+                    <label className="field">
+                      <span>照片间距（毫米）</span>
+                      <input
+                        type="number"
+                        min={0}
+                        max={50}
+                        step={0.5}
+                        value={settings.sheet.gutterMm}
+                        onChange={(event) => updateSheetNumber('gutterMm', event.target.value)}
+                      />
+                    </label>
+                    <label className="field">
+                      <span>纸张边距（毫米）</span>
+                      <input
+                        type="number"
+                        min={0}
+                        max={50}
+                        step={0.5}
+                        value={settings.sheet.marginMm}
+                        onChange={(event) => updateSheetNumber('marginMm', event.target.value)}
+                      />
+                    </label>
+                  </div>
+                  <label className="field-check">
+                    <input
+                      type="checkbox"
+                      checked={settings.sheet.cutLines}
+                      onChange={(event) => updateSheet({ cutLines: event.target.checked })}
+                    />
+                    <span>绘制裁切线</span>
+                  </label>
+                </div>
+                <div className="sheet-settings__summary">
+                  {sheetLayout ? (
+                    <>
+                      <SheetPreview layout={sheetLayout} />
+                      <div className="modal__note">
+                        每页 {sheetLayout.slots.length} 张 {activeSize.label}，按纸张 {sheetSize.dpi}{' '}
+                        DPI 输出。
+                        {sheetLayout.scale < 0.999
+                          ? ` 格子放不下原尺寸，照片将缩小至 ${Math.round(sheetLayout.scale * 100)}%。`
+                          : ''}
+                      </div>
+                    </>
+                  ) : (
+                    <div className="modal__note">当前边距与间距过大，纸张放不下照片。</div>
+                  )}
+                </div>
+              </div>
+            ) : null}
+            {settings.layout === 'photobook' ? (
+              <div className="sheet-settings">
+                <div className="template-form">
+                  <div className="template-form__row">
+                    <label className="field">
+                      <span>页面</span>
+                      <select
+                        value={settings.photobook.sizeId}
+                        onChange={(event) => updatePhotobook({ sizeId: event.target.value })}
+                      >
+                        {sizeOptions}
+                      </select>
+                    </label>
+                    <label className="field-check">
+                      <input
+                        type="checkbox"
+                        checked={settings.photobook.landscape}
+                        onChange={(event) => updatePhotobook({ landscape: event.target.checked })}
+                      />
+                      <span>横向页面</span>
+                    </label>
+                  </div>
+                  <div className="template-form__row">
+                    <label className="field">
+                      <span>每页列数</span>
+                      <input
+                        type="number"
+                        min={1}
+                        max={6}
+                        step={1}
+                        value={settings.photobook.columns}
+                        onChange={(event) => updatePhotobookNumber('columns', event.target.value)}
+                      />
+                    </label>
+                    <label className="field">
+                      <span>每页行数</span>
+                      <input
+                        type="number"
+                        min={1}
+                        max={6}
+                        step={1}
+                        value={settings.photobook.rows}
+                        onChange={(event) => updatePhotobookNumber('rows', event.target.value)}
+                      />
+                    </label>
+                  </div>
+                  <div className="template-form__row">
+                    <label className="field">
+                      <span>照片间距（毫米）</span>
+                      <input
+                        type="number"
+                        min={0}
+                        max={50}
+                        step={0.5}
+                        value={settings.photobook.gutterMm}
+                        onChange={(event) => updatePhotobookNumber('gutterMm', event.target.value)}
+                      />
+                    </label>
+                    <label className="field">
+                      <span>页面边距（毫米）</span>
+                      <input
+                        type="number"
+                        min={0}
+                        max={50}
+                        step={0.5}
+                        value={settings.photobook.marginMm}
+                        onChange={(event) => updatePhotobookNumber('marginMm', event.target.value)}
+                      />
+                    </label>
+                  </div>
+                  <div className="field-row">
+                    {PHOTOBOOK_ORDER_KEYS.map((key) => (
+                      <button
+                        type="button"
+                        key={key}
+                        className={`field-toggle ${
+                          settings.photobook.order === key ? 'field-toggle--active' : ''
+                        }`}
+                        aria-pressed={settings.photobook.order === key}
+                        onClick={() => updatePhotobook({ order: key })}
+                      >
+                        {PHOTOBOOK_ORDER_LABELS[key]}
+                      </button>
+                    ))}
+                  </div>
+                  <label className="field-check">
+                    <input
+                      type="checkbox"
+                      checked={settings.photobook.cover}
+                      onChange={(event) => updatePhotobook({ cover: event.target.checked })}
+                    />
+                    <span>封面（项目名称与日期范围）</span>
+                  </label>
+                  <label className="field-check">
+                    <input
+                      type="checkbox"
+                      checked={settings.photobook.pageNumbers}
+                      onChange={(event) => updatePhotobook({ pageNumbers: event.target.checked })}
+                    />
+                    <span>页码</span>
+                  </label>
+                </div>
+                <div className="sheet-settings__summary">
+                  {photobookLayout ? (
+                    <>
+                      <PhotobookPreview layout={photobookLayout} />
+                      <div className="modal__note">
+                        每页 {photobookLayout.cells.length} 张，照片等比缩放放入格子，按页面{' '}
+                        {photobookSize.dpi} DPI 渲染后生成一个 PDF 文件。
+                      </div>
+                    </>
+                  ) : (
+                    <div className="modal__note">当前边距与间距过大，页面放不下照片。</div>
+                  )}
+                </div>
+              </div>
+            ) : null}
+          </section>
+          {settings.layout !== 'photobook' ? (
+            <section className="settings-section">
+              <div className="settings-section__title">输出位置</div>
+              <div className="field-row">
+                {TARGET_KEYS.map((key) => (
+                  <button
+                    type="button"
+                    key={key}
+                    className={`field-toggle ${
+                      settings.target === key ? 'field-toggle--active' : ''
+                    }`}
+                    aria-pressed={settings.target === key}
+                    onClick={() => update({ target: key })}
+                  >
+                    {EXPORT_TARGET_LABELS[key]}
+                  </button>
+                ))}
+              </div>
+              {settings.target === 'zip' ? (
+                <div className="modal__note">
+                  成品边导出边写入一个 .zip 文件，包内的子目录、导出清单与报告与文件夹导出相同；压缩包不支持“更新导出”。
+                </div>
+              ) : null}
+            </section>
+          ) : null}
+          {settings.layout === 'single' ? (
+            <section className="settings-section">
+              <div className="settings-section__title">文件命名</div>
+              <div className="template-form">
+                <label className="field">
+                  <span>文件名模板</span>
+                  <input
+                    type="text"
+                    value={settings.fileNameTemplate}
+                    placeholder="{name}"
+                    onChange={(event) => update({ fileNameTemplate: event.target.value })}
+                  />
+                </label>
+                <div className="field-row field-row--wrap">
+                  {FILE_NAME_TOKENS.map((item) => (
+                    <button
+                      type="button"
+                      key={item.token}
+                      className="field-toggle"
+                      title={`插入 ${item.token}`}
+                      onClick={() =>
+                        update({ fileNameTemplate: `${settings.fileNameTemplate}${item.token}` })
+                      }
+                    >
+                      {item.label}
+                    </button>
+                  ))}
+                </div>
+                <label className="field">
+                  <span>子目录</span>
+                  <select
+                    value={settings.grouping}
+                    onChange={(event) =>
+                      update({ grouping: event.target.value as ExportGrouping })
+                    }
+                  >
+                    {GROUPING_KEYS.map((key) => (
+                      <option key={key} value={key}>
+                        {EXPORT_GROUPING_LABELS[key]}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              </div>
+              {namingPlans.length > 0 ? (
+                <ul className="naming-preview">
+                  {namingPlans.map((plan, index) => (
+                    <li key={index}>{plan.dir ? `${plan.dir}/${plan.fileName}` : plan.fileName}</li>
+                  ))}
+                  {namingItems.length > namingPlans.length ? (
+                    <li>… 共 {namingItems.length} 张</li>
+                  ) : null}
+                </ul>
+              ) : (
+                <div className="modal__note">选中照片后可在此预览导出文件名。</div>
+              )}
+              <div className="modal__note">
+                序号按导出顺序补零；同一目录下重名时自动追加 -2、-3，不会覆盖。
+              </div>
+            </section>
+          ) : null}
+          <section className="settings-section">
+            <div className="settings-section__title">输出格式</div>
+            {settings.layout !== 'photobook' ? (
+              <>
+                <div className="field-row">
+                  {(['source', 'fixed'] as const).map((mode) => (
+                    <button
+                      type="button"
+                      key={mode}
+                      className={`field-toggle ${
+                        settings.output.mode === mode ? 'field-toggle--active' : ''
+                      }`}
+                      aria-pressed={settings.output.mode === mode}
+                      onClick={() => updateOutput({ mode })}
+                    >
+                      {mode === 'source' ? '按原图格式' : '统一格式'}
+                    </button>
+                  ))}
+                </div>
+                {settings.output.mode === 'fixed' ? (
+                  <div className="field-row field-row--wrap">
+                    {OUTPUT_FORMAT_KEYS.map((key) => (
+                      <button
+                        type="button"
+                        key={key}
+                        className={`field-toggle ${
+                          settings.output.format === key ? 'field-toggle--active' : ''
+                        }`}
+                        aria-pressed={settings.output.format === key}
+                        onClick={() => updateOutput({ format: key })}
+                      >
+                        {OUTPUT_FORMAT_LABELS[key]}
+                      </button>
+                    ))}
+                  </div>
+                ) : null}
+              </>
+            ) : null}
+            <div className="template-form">
+              <div className="template-form__row">
+                {hasQuality ? (
+                  <label className="field">
+                    <span>画质（1–100）</span>
+                    <input
+                      type="number"
+                      min={1}
+                      max={100}
+                      step={1}
+                      value={settings.output.quality}
+                      onChange={(event) => {
+                        const numeric = Number(event.target.value);
+                        updateOutput({ quality: Number.isFinite(numeric) ? numeric : 0 });
+                      }}
+                    />
+                  </label>
+                ) : null}
+                {hasChroma ? (
+                  <label className="field">
+                    <span>色度抽样</span>
+                    <select
+                      value={settings.output.chromaSubsampling}
+                      onChange={(event) =>
+                        updateOutput({
+                          chromaSubsampling: event.target
+                            .value as OutputFormatSettings['chromaSubsampling'],
+                        })
+                      }
+                    >
+                      {CHROMA_OPTIONS.map((item) => (
+                        <option key={item.value} value={item.value}>
+                          {item.label}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                ) : null}
+                {outputFormat === 'tiff' ? (
+                  <label className="field">
+                    <span>压缩方式</span>
+                    <select
+                      value={settings.output.tiffCompression}
+                      onChange={(event) =>
+                        updateOutput({ tiffCompression: event.target.value as TiffCompression })
+                      }
+                    >
+                      {TIFF_COMPRESSION_KEYS.map((key) => (
+                        <option key={key} value={key}>
+                          {TIFF_COMPRESSION_LABELS[key]}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                ) : null}
+              </div>
+            </div>
+            <div className="modal__note">
+              {settings.layout === 'photobook'
+                ? '相册中的照片以 JPEG 嵌入 PDF。'
+                : settings.output.mode === 'source'
+                  ? 'PNG、WebP、AVIF、TIFF 原图保持原格式，其余输出 JPEG；拼版输出 JPEG。画质同样作用于 WebP 与 AVIF。'
+                  : OUTPUT_FORMAT_NOTES[outputFormat]}
+            </div>
+          </section>
+          <section className="settings-section">
+            <div className="settings-section__title">色彩管理</div>
+            <label className="field">
+              <span>输出配置文件</span>
+              <select
+                value={settings.colorProfile}
+                onChange={(event) =>
+                  update({ colorProfile: event.target.value as ColorProfileMode })
+                }
+              >
+                {COLOR_PROFILE_KEYS.map((key) => (
+                  <option key={key} value={key}>
+                    {COLOR_PROFILE_LABELS[key]}
+                  </option>
+                ))}
+              </select>
+            </label>
+            {settings.colorProfile === 'custom' ? (
+              <div className="field">
+                <span>ICC 文件</span>
+                <div className="field-row">
+                  <input
+                    type="text"
+                    readOnly
+                    value={settings.iccProfilePath ?? ''}
+                    placeholder="请选择 .icc / .icm 文件"
+                  />
+                  <button type="button" className="field-toggle" onClick={handlePickIcc}>
+                    选择
+                  </button>
+                </div>
+              </div>
+            ) : null}
+            <div className="modal__note">
+              Adobe RGB、Display P3 与 CMYK 原图会先转换为 sRGB 再合成，输出时转换到所选配置文件并嵌入；
+              预览使用同一转换。
+            </div>
+          </section>
+          <section className="settings-section">
+            <div className="settings-section__title">照片信息</div>
+            <label className="field-check">
+              <input
+                type="checkbox"
+                checked={settings.embedMetadata}
+                onChange={(event) => update({ embedMetadata: event.target.checked })}
+              />
+              <span>写入元数据（EXIF / XMP / IPTC）</span>
+            </label>
+            <label className="field-check">
+              <input
+                type="checkbox"
+                checked={settings.embedLocation}
+                disabled={!settings.embedMetadata}
+                onChange={(event) => update({ embedLocation: event.target.checked })}
+              />
+              <span>保留原图的 GPS 位置</span>
+            </label>
+            <div className="modal__note">
+              默认不写入。开启后复制原图的相机、镜头与曝光信息，并把日期写入拍摄时间、地点与描述写入图片说明，
+              便于相册软件检索与排序；GPS 位置只在勾选“保留原图的 GPS 位置”时写入，成品发给冲印店前请留意。
+              拼版导出不写入。
+            </div>
+          </section>
+        </div>
+        <div className="modal__actions">
+          <button className="btn btn--primary" onClick={onClose} autoFocus>
+            完成
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,202 @@
+import { useState } from 'react';
+import {
+  BUILT_IN_EXPORT_SIZES,
+  DEFAULT_EXPORT_SIZE_ID,
+  MAX_EXPORT_PIXELS,
+  SIZE_UNIT_LABELS,
+  describeExportSize,
+  normalizeExportSize,
+} from '../shared/export-sizes';
+import type { ExportSizeSpec, SizeUnit } from '../types/project';
+
+type SizePanelProps = {
+  customSizes: ExportSizeSpec[];
+  activeSizeId: string;
+  onChange: (sizes: ExportSizeSpec[]) => void;
+  onActivate: (id: string) => void;
+  onClose: () => void;
+};
+
+const UNIT_KEYS = Object.keys(SIZE_UNIT_LABELS) as SizeUnit[];
+
+const createSizeId = () =>
+  `size-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+export function SizePanel({
+  customSizes,
+  activeSizeId,
+  onChange,
+  onActivate,
+  onClose,
+}: SizePanelProps) {
+  const [editingId, setEditingId] = useState<string | null>(
+    customSizes.some((item) => item.id === activeSizeId) ? activeSizeId : customSizes[0]?.id ?? null,
+  );
+  const editing = customSizes.find((item) => item.id === editingId) ?? null;
+  const normalized = editing ? normalizeExportSize(editing) : null;
+  // 尺寸过大时按像素上限降低 DPI，提示实际导出的 DPI
+  const dpiLimited =
+    normalized !== null && Math.round(Math.min(editing?.dpi ?? 0, 1200)) > normalized.dpi;
+
+  const updateEditing = (partial: Partial<ExportSizeSpec>) => {
+    if (!editing) {
+      return;
+    }
+    onChange(customSizes.map((item) => (item.id === editing.id ? { ...item, ...partial } : item)));
+  };
+
+  const handleCreate = () => {
+    const base =
+      BUILT_IN_EXPORT_SIZES.find((item) => item.id === activeSizeId) ??
+      customSizes.find((item) => item.id === activeSizeId) ??
+      BUILT_IN_EXPORT_SIZES[0];
+    const id = createSizeId();
+    onChange([...customSizes, { ...base, id, label: `${base.label} 自定义` }]);
+    setEditingId(id);
+  };
+
+  const handleDelete = () => {
+    if (!editing) {
+      return;
+    }
+    const next = customSizes.filter((item) => item.id !== editing.id);
+    onChange(next);
+    setEditingId(next[0]?.id ?? null);
+    if (editing.id === activeSizeId) {
+      onActivate(DEFAULT_EXPORT_SIZE_ID);
+    }
+  };
+
+  const updateNumber = (key: 'width' | 'height' | 'dpi', value: string) => {
+    const numeric = Number(value);
+    updateEditing({ [key]: Number.isFinite(numeric) ? numeric : 0 });
+  };
+
+  return (
+    <div className="modal-backdrop" role="presentation">
+      <div className="modal modal--wide" role="dialog" aria-modal="true" aria-label="导出尺寸">
+        <div className="modal__title">导出尺寸</div>
+        <div className="template-panel">
+          <div className="template-list">
+            {customSizes.length === 0 ? (
+              <div className="modal__note">暂无自定义尺寸</div>
+            ) : (
+              customSizes.map((item) => (
+                <button
+                  type="button"
+                  key={item.id}
+                  className={`template-list__item ${
+                    item.id === editing?.id ? 'template-list__item--active' : ''
+                  }`}
+                  onClick={() => setEditingId(item.id)}
+                >
+                  <span className="template-list__name">{item.label || '未命名尺寸'}</span>
+                  {item.id === activeSizeId ? (
+                    <span className="template-list__badge">使用中</span>
+                  ) : null}
+                </button>
+              ))
+            )}
+            <div className="template-list__actions">
+              <button type="button" className="btn btn--ghost btn--xs" onClick={handleCreate}>
+                新建
+              </button>
+              <button
+                type="button"
+                className="btn btn--ghost btn--xs"
+                onClick={handleDelete}
+                disabled={!editing}
+              >
+                删除
+              </button>
+            </div>
+          </div>
+          {editing ? (
+            <div className="template-form">
+              <label className="field">
+                <span>名称</span>
+                <input
+                  type="text"
+                  value={editing.label}
+                  onChange={(event) => updateEditing({ label: event.target.value })}
+                />
+              </label>
+              <div className="template-form__row">
+                <label className="field">
+                  <span>长边</span>
+                  <input
+                    type="number"
+                    min={0}
+                    step={0.1}
+                    value={editing.width}
+                    onChange={(event) => updateNumber('width', event.target.value)}
+                  />
+                </label>
+                <label className="field">
+                  <span>短边</span>
+                  <input
+                    type="number"
+                    min={0}
+                    step={0.1}
+                    value={editing.height}
+                    onChange={(event) => updateNumber('height', event.target.value)}
+                  />
+                </label>
+              </div>
+              <div className="template-form__row">
+                <label className="field">
+                  <span>单位</span>
+                  <select
+                    value={editing.unit}
+                    onChange={(event) => updateEditing({ unit: event.target.value as SizeUnit })}
+                  >
+                    {UNIT_KEYS.map((unit) => (
+                      <option key={unit} value={unit}>
+                        {SIZE_UNIT_LABELS[unit]}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                <label className="field">
+                  <span>目标 DPI</span>
+                  <input
+                    type="number"
+                    min={72}
+                    max={1200}
+                    step={1}
+                    value={editing.dpi}
+                    onChange={(event) => updateNumber('dpi', event.target.value)}
+                  />
+                </label>
+              </div>
+              <div className="modal__note">{describeExportSize(normalized ?? editing)}</div>
+              {dpiLimited && normalized ? (
+                <div className="modal__note" role="alert">
+                  长边超过 {MAX_EXPORT_PIXELS} 像素上限，将按 {normalized.dpi} DPI 导出（长宽比不变）。
+                </div>
+              ) : null}
+            </div>
+          ) : (
+            <div className="template-form">
+              <div className="modal__note">
+                点击“新建”基于当前尺寸创建自定义尺寸，可设置毫米/厘米/英寸与目标 DPI。
+              </div>
+            </div>
+          )}
+        </div>
+        <div className="modal__actions">
+          <button
+            className="btn btn--ghost"
+            onClick={() => editing && onActivate(editing.id)}
+            disabled={!editing || editing.id === activeSizeId}
+          >
+            使用此尺寸
+          </button>
+          <button className="btn btn--primary" onClick={onClose} autoFocus>
+            完成
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
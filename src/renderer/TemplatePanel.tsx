@@ -0,0 +1,317 @@
+import { useState } from 'react';
+import { DATE_FORMAT_LABELS } from '../shared/date-format';
+import { getStampFontOptions } from '../shared/stamp-fonts';
+import {
+  DEFAULT_STAMP_TEMPLATE,
+  STAMP_FIELD_LABELS,
+  normalizeStampTemplate,
+} from '../shared/stamp-template';
+import type { DateDisplayFormat, StampField, StampTemplate } from '../types/project';
+
+type TemplatePanelProps = {
+  templates: StampTemplate[];
+  activeTemplateId: string;
+  onChange: (templates: StampTemplate[]) => void;
+  onActivate: (id: string) => void;
+  onClose: () => void;
+};
+
+type BorderSide = keyof StampTemplate['border'];
+
+const BORDER_SIDES: Array<{ key: BorderSide; label: string }> = [
+  { key: 'top', label: '上' },
+  { key: 'right', label: '右' },
+  { key: 'bottom', label: '下' },
+  { key: 'left', label: '左' },
+];
+
+const FIELD_KEYS = Object.keys(STAMP_FIELD_LABELS) as StampField[];
+const DATE_FORMAT_KEYS = Object.keys(DATE_FORMAT_LABELS) as DateDisplayFormat[];
+
+const FONT_SCRIPTS: Array<{ key: keyof StampTemplate['fontFamily']; label: string }> = [
+  { key: 'cjk', label: '中文字体' },
+  { key: 'latin', label: '英文/数字字体' },
+];
+
+const createTemplateId = () =>
+  `tpl-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+const toPercent = (ratio: number) => Number((ratio * 100).toFixed(2));
+
+const fromPercent = (value: string) => {
+  const numeric = Number(value);
+  return Number.isFinite(numeric) ? numeric / 100 : 0;
+};
+
+export function TemplatePanel({
+  templates,
+  activeTemplateId,
+  onChange,
+  onActivate,
+  onClose,
+}: TemplatePanelProps) {
+  const [editingId, setEditingId] = useState(activeTemplateId);
+  const editing = templates.find((item) => item.id === editingId) ?? templates[0];
+
+  const updateEditing = (partial: Partial<StampTemplate>) => {
+    if (!editing) {
+      return;
+    }
+    onChange(templates.map((item) => (item.id === editing.id ? { ...item, ...partial } : item)));
+  };
+
+  const handleCreate = (source: StampTemplate) => {
+    const id = createTemplateId();
+    const name = source === DEFAULT_STAMP_TEMPLATE ? '新模板' : `${source.name} 副本`;
+    onChange([...templates, normalizeStampTemplate({ ...source, id, name })]);
+    setEditingId(id);
+  };
+
+  const handleDelete = () => {
+    if (!editing || templates.length <= 1) {
+      return;
+    }
+    const next = templates.filter((item) => item.id !== editing.id);
+    onChange(next);
+    setEditingId(next[0].id);
+    if (editing.id === activeTemplateId) {
+      onActivate(next[0].id);
+    }
+  };
+
+  const toggleField = (side: 'leftFields' | 'rightFields', field: StampField) => {
+    if (!editing) {
+      return;
+    }
+    const other = side === 'leftFields' ? 'rightFields' : 'leftFields';
+    const current = editing[side];
+    const enabled = current.includes(field);
+    const nextSide = enabled
+      ? current.filter((item) => item !== field)
+      : FIELD_KEYS.filter((item) => item === field || current.includes(item));
+    updateEditing({
+      [side]: nextSide,
+      [other]: editing[other].filter((item) => item !== field),
+    });
+  };
+
+  return (
+    <div className="modal-backdrop" role="presentation">
+      <div className="modal modal--wide" role="dialog" aria-modal="true" aria-label="样式模板">
+        <div className="modal__title">样式模板</div>
+        <div className="template-panel">
+          <div className="template-list">
+            {templates.map((item) => (
+              <button
+                type="button"
+                key={item.id}
+                className={`template-list__item ${
+                  item.id === editing?.id ? 'template-list__item--active' : ''
+                }`}
+                onClick={() => setEditingId(item.id)}
+              >
+                <span className="template-list__name">{item.name || '未命名模板'}</span>
+                {item.id === activeTemplateId ? (
+                  <span className="template-list__badge">使用中</span>
+                ) : null}
+              </button>
+            ))}
+            <div className="template-list__actions">
+              <button
+                type="button"
+                className="btn btn--ghost btn--xs"
+                onClick={() => handleCreate(DEFAULT_STAMP_TEMPLATE)}
+              >
+                新建
+              </button>
+              <button
+                type="button"
+                className="btn btn--ghost btn--xs"
+                onClick={() => editing && handleCreate(editing)}
+                disabled={!editing}
+              >
+                复制
+              </button>
+              <button
+                type="button"
+                className="btn btn--ghost btn--xs"
+                onClick={handleDelete}
+                disabled={!editing || templates.length <= 1}
+              >
+                删除
+              </button>
+            </div>
+          </div>
+          {editing ? (
+            <div className="template-form">
+              <label className="field">
+                <span>模板名称</span>
+                <input
+                  type="text"
+                  value={editing.name}
+                  onChange={(event) => updateEditing({ name: event.target.value })}
+                />
+              </label>
+              <div className="template-form__row">
+                <label className="field">
+                  <span>字号（画布高度 %）</span>
+                  <input
+                    type="number"
+                    min={0.5}
+                    max={10}
+                    step={0.05}
+                    value={toPercent(editing.fontSizeRatio)}
+                    onChange={(event) =>
+                      updateEditing({ fontSizeRatio: fromPercent(event.target.value) })
+                    }
+                  />
+                </label>
+                <label className="field">
+                  <span>文字颜色</span>
+                  <input
+                    type="color"
+                    value={editing.textColor}
+                    onChange={(event) => updateEditing({ textColor: event.target.value })}
+                  />
+                </label>
+              </div>
+              <div className="template-form__row">
+                {FONT_SCRIPTS.map((script) => (
+                  <label className="field" key={script.key}>
+                    <span>{script.label}</span>
+                    <select
+                      value={editing.fontFamily[script.key]}
+                      onChange={(event) =>
+                        updateEditing({
+                          fontFamily: { ...editing.fontFamily, [script.key]: event.target.value },
+                        })
+                      }
+                    >
+                      {getStampFontOptions(script.key).map((font) => (
+                        <option key={font.id} value={font.id}>
+                          {font.label}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                ))}
+              </div>
+              {(['leftFields', 'rightFields'] as const).map((side) => (
+                <div className="field" key={side}>
+                  <span>
+                    {side === 'leftFields' ? '左侧字段（竖排时在下方）' : '右侧字段（竖排时在上方）'}
+                  </span>
+                  <div className="field-row">
+                    {FIELD_KEYS.map((field) => (
+                      <button
+                        type="button"
+                        key={field}
+                        className={`field-toggle ${
+                          editing[side].includes(field) ? 'field-toggle--active' : ''
+                        }`}
+                        aria-pressed={editing[side].includes(field)}
+                        onClick={() => toggleField(side, field)}
+                      >
+                        {STAMP_FIELD_LABELS[field]}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              ))}
+              <div className="template-form__row">
+                <label className="field">
+                  <span>日期格式</span>
+                  <select
+                    value={editing.dateFormat}
+                    onChange={(event) =>
+                      updateEditing({ dateFormat: event.target.value as DateDisplayFormat })
+                    }
+                  >
+                    {DATE_FORMAT_KEYS.map((key) => (
+                      <option key={key} value={key}>
+                        {DATE_FORMAT_LABELS[key]}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                <label className="field">
+                  <span>分隔符</span>
+                  <input
+                    type="text"
+                    value={editing.separator}
+                    onChange={(event) => updateEditing({ separator: event.target.value })}
+                  />
+                </label>
+              </div>
+              <div className="field">
+                <span>额外白边（画布短边 %）</span>
+                <div className="template-form__row template-form__row--quad">
+                  {BORDER_SIDES.map((side) => (
+                    <label className="field" key={side.key}>
+                      <span>{side.label}</span>
+                      <input
+                        type="number"
+                        min={0}
+                        max={30}
+                        step={0.5}
+                        value={toPercent(editing.border[side.key])}
+                        onChange={(event) =>
+                          updateEditing({
+                            border: {
+                              ...editing.border,
+                              [side.key]: fromPercent(event.target.value),
+                            },
+                          })
+                        }
+                      />
+                    </label>
+                  ))}
+                </div>
+              </div>
+              <div className="template-form__row">
+                <label className="field">
+                  <span>文字侧白边（× 字号）</span>
+                  <input
+                    type="number"
+                    min={1}
+                    max={8}
+                    step={0.1}
+                    value={editing.textBorderRatio}
+                    onChange={(event) =>
+                      updateEditing({ textBorderRatio: Number(event.target.value) })
+                    }
+                  />
+                </label>
+                <label className="field">
+                  <span>边缘安全距离（× 字号）</span>
+                  <input
+                    type="number"
+                    min={0}
+                    max={5}
+                    step={0.1}
+                    value={editing.edgeSafeRatio}
+                    onChange={(event) =>
+                      updateEditing({ edgeSafeRatio: Number(event.target.value) })
+                    }
+                  />
+                </label>
+              </div>
+            </div>
+          ) : null}
+        </div>
+        <div className="modal__actions">
+          <button
+            className="btn btn--ghost"
+            onClick={() => editing && onActivate(editing.id)}
+            disabled={!editing || editing.id === activeTemplateId}
+          >
+            使用此模板
+          </button>
+          <button className="btn btn--primary" onClick={onClose} autoFocus>
+            完成
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
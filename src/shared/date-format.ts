@@ -0,0 +1,20 @@
+import type { DateDisplayFormat } from '../types/project';
+
+export const DATE_FORMAT_LABELS: Record<DateDisplayFormat, string> = {
+  iso: '2024-05-01',
+  dot: '2024.05.01',
+  cjk: '2024年5月1日',
+  en: 'May 1, 2024',
+  month: '2024年5月（仅年月）',
+  lunar: '甲辰年三月廿三（农历，含节气与节日）',
+};
+
+export const DEFAULT_DATE_FORMAT: DateDisplayFormat = 'iso';
+
+const DATE_FORMATS = Object.keys(DATE_FORMAT_LABELS) as DateDisplayFormat[];
+
+export function resolveDateFormat(value: unknown): DateDisplayFormat {
+  return DATE_FORMATS.includes(value as DateDisplayFormat)
+    ? (value as DateDisplayFormat)
+    : DEFAULT_DATE_FORMAT;
+}
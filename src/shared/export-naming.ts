@@ -0,0 +1,156 @@
+import type {
+  ExportGrouping,
+  OutputFormat,
+  OutputFormatSettings,
+  StampMeta,
+} from '../types/project';
+
+export const EXPORT_GROUPING_LABELS: Record<ExportGrouping, string> = {
+  source: '保持原目录结构',
+  flat: '全部放在同一目录',
+  month: '按月份分组',
+  location: '按地点分组',
+};
+
+export const FILE_NAME_TOKENS: Array<{ token: string; label: string }> = [
+  { token: '{name}', label: '原文件名' },
+  { token: '{seq}', label: '序号' },
+  { token: '{date}', label: '日期' },
+  { token: '{location}', label: '地点' },
+  { token: '{description}', label: '描述' },
+  { token: '{size}', label: '尺寸' },
+];
+
+export const DEFAULT_FILE_NAME_TEMPLATE = '{name}';
+
+// 单张导出时写在输出目录下的清单，"更新导出"据此只重做有变化的照片
+export const EXPORT_MANIFEST_FILE = 'imgstamp-manifest.json';
+
+export type ExportNamingItem = {
+  relativePath: string;
+  meta: Pick<StampMeta, 'date' | 'location' | 'description'>;
+};
+
+// dir 为输出目录下的相对目录（以 / 分隔，可为空），fileName 含扩展名
+export type ExportFilePlan = { dir: string; fileName: string };
+
+const MAX_NAME_LENGTH = 100;
+const WINDOWS_RESERVED = /^(con|prn|aux|nul|com[1-9]|lpt[1-9])$/i;
+
+// 单个路径片段：去掉各平台不允许的字符、结尾的点与空格，避开 Windows 保留名
+export function sanitizePathSegment(value: string): string {
+  const cleaned = value
+    .replace(/[<>:"/\\|?*]/g, '-')
+    .replace(/[\u0000-\u001f]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+  const limited = Array.from(cleaned).slice(0, MAX_NAME_LENGTH).join('');
+  const trimmed = limited.replace(/[. ]+$/, '');
+  return WINDOWS_RESERVED.test(trimmed) ? `${trimmed}_` : trimmed;
+}
+
+const splitRelativePath = (relativePath: string) => {
+  const parts = relativePath.split(/[\\/]/).filter(Boolean);
+  const fileName = parts.pop() ?? '';
+  const dot = fileName.lastIndexOf('.');
+  return {
+    dirs: parts,
+    name: dot > 0 ? fileName.slice(0, dot) : fileName,
+    ext: dot > 0 ? fileName.slice(dot).toLowerCase() : '',
+  };
+};
+
+export const OUTPUT_FORMAT_EXTENSIONS: Record<OutputFormat, string> = {
+  jpeg: '.jpg',
+  png: '.png',
+  webp: '.webp',
+  avif: '.avif',
+  tiff: '.tif',
+};
+
+// 按原图格式输出时，能原样输出的格式保持不变，其余（含 JPEG、HEIC 等）输出 JPEG
+const SOURCE_OUTPUT_FORMATS: Record<string, OutputFormat> = {
+  '.png': 'png',
+  '.webp': 'webp',
+  '.avif': 'avif',
+  '.tif': 'tiff',
+  '.tiff': 'tiff',
+};
+
+export function resolveOutputFormat(
+  relativePath: string,
+  output: Pick<OutputFormatSettings, 'mode' | 'format'>,
+): OutputFormat {
+  if (output.mode === 'fixed') {
+    return output.format;
+  }
+  return SOURCE_OUTPUT_FORMATS[splitRelativePath(relativePath).ext] ?? 'jpeg';
+}
+
+export function getExportExtension(
+  relativePath: string,
+  output: Pick<OutputFormatSettings, 'mode' | 'format'>,
+): string {
+  return OUTPUT_FORMAT_EXTENSIONS[resolveOutputFormat(relativePath, output)];
+}
+
+function resolveGroupDirs(
+  item: ExportNamingItem,
+  grouping: ExportGrouping,
+  sourceDirs: string[],
+): string[] {
+  switch (grouping) {
+    case 'flat':
+      return [];
+    case 'month': {
+      const month = item.meta.date?.match(/^(\d{4})-(\d{2})/);
+      return [month ? `${month[1]}-${month[2]}` : '未知日期'];
+    }
+    case 'location':
+      return [sanitizePathSegment(item.meta.location) || '未填写地点'];
+    default:
+      return sourceDirs.map(sanitizePathSegment).filter(Boolean);
+  }
+}
+
+// 未知的占位符原样保留
+function renderFileName(template: string, values: Record<string, string>): string {
+  return template.replace(/\{(\w+)\}/g, (token, key: string) =>
+    key in values ? values[key] : token,
+  );
+}
+
+// 按模板生成每张照片的输出位置；同一目录下重名时追加 -2、-3（不区分大小写）
+export function planExportFiles(
+  items: ExportNamingItem[],
+  options: {
+    template: string;
+    grouping: ExportGrouping;
+    sizeLabel: string;
+    output: Pick<OutputFormatSettings, 'mode' | 'format'>;
+  },
+): ExportFilePlan[] {
+  const template = options.template.trim() || DEFAULT_FILE_NAME_TEMPLATE;
+  const seqWidth = Math.max(3, String(items.length).length);
+  const used = new Set<string>();
+  return items.map((item, index) => {
+    const source = splitRelativePath(item.relativePath);
+    const ext = getExportExtension(item.relativePath, options.output);
+    const dir = resolveGroupDirs(item, options.grouping, source.dirs).join('/');
+    const rendered = renderFileName(template, {
+      name: source.name,
+      seq: String(index + 1).padStart(seqWidth, '0'),
+      date: item.meta.date ?? '',
+      location: item.meta.location,
+      description: item.meta.description,
+      size: options.sizeLabel,
+    });
+    const base = sanitizePathSegment(rendered) || sanitizePathSegment(source.name) || 'photo';
+    let fileName = `${base}${ext}`;
+    for (let suffix = 2; used.has(`${dir}/${fileName}`.toLowerCase()); suffix += 1) {
+      fileName = `${base}-${suffix}${ext}`;
+    }
+    used.add(`${dir}/${fileName}`.toLowerCase());
+    return { dir, fileName };
+  });
+}
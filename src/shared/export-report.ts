@@ -0,0 +1,11 @@
+import type { ExportFailureReason } from '../types/project';
+
+// 每次导出都在输出目录写入报告（同名 .json 与 .csv），记录每张照片的结果
+export const EXPORT_REPORT_BASENAME = 'imgstamp-report';
+
+export const EXPORT_FAILURE_LABELS: Record<ExportFailureReason, string> = {
+  unreadable: '原图无法读取',
+  'disk-full': '磁盘空间不足',
+  permission: '没有访问权限',
+  unknown: '其他错误',
+};
@@ -0,0 +1,204 @@
+import { DEFAULT_FILE_NAME_TEMPLATE, EXPORT_GROUPING_LABELS } from './export-naming';
+import type {
+  ColorProfileMode,
+  ExportLayoutMode,
+  ExportSettings,
+  ExportTarget,
+  OutputFormat,
+  OutputFormatSettings,
+  PhotobookOrder,
+  PhotobookSettings,
+  PrintResolutionSettings,
+  SheetSettings,
+  TiffCompression,
+} from '../types/project';
+
+export const COLOR_PROFILE_LABELS: Record<ColorProfileMode, string> = {
+  srgb: 'sRGB（冲印店通用）',
+  p3: 'Display P3',
+  custom: '自定义 ICC 配置文件',
+};
+
+export const EXPORT_LAYOUT_LABELS: Record<ExportLayoutMode, string> = {
+  single: '单张导出',
+  sheet: '拼版导出',
+  photobook: '相册 PDF',
+};
+
+export const PHOTOBOOK_ORDER_LABELS: Record<PhotobookOrder, string> = {
+  project: '项目顺序',
+  date: '拍摄日期',
+};
+
+export const EXPORT_TARGET_LABELS: Record<ExportTarget, string> = {
+  folder: '文件夹',
+  zip: 'ZIP 压缩包',
+};
+
+export const OUTPUT_FORMAT_LABELS: Record<OutputFormat, string> = {
+  jpeg: 'JPEG',
+  png: 'PNG',
+  webp: 'WebP',
+  avif: 'AVIF',
+  tiff: 'TIFF（16 位）',
+};
+
+export const TIFF_COMPRESSION_LABELS: Record<TiffCompression, string> = {
+  lzw: 'LZW',
+  deflate: 'Deflate',
+  none: '不压缩',
+};
+
+// 与加入格式选项之前的输出一致：按原图格式，JPEG 画质 90
+export const DEFAULT_OUTPUT_FORMAT_SETTINGS: OutputFormatSettings = {
+  mode: 'source',
+  format: 'jpeg',
+  quality: 90,
+  chromaSubsampling: '4:2:0',
+  tiffCompression: 'lzw',
+};
+
+// 冲印一般要求 300 DPI，低于 200 时肉眼可见发虚
+export const DEFAULT_PRINT_RESOLUTION_SETTINGS: PrintResolutionSettings = {
+  minDpi: 200,
+  upscale: true,
+};
+
+export const DEFAULT_SHEET_SETTINGS: SheetSettings = {
+  sizeId: 'A4',
+  columns: 1,
+  rows: 2,
+  gutterMm: 0,
+  marginMm: 5,
+  cutLines: true,
+};
+
+export const DEFAULT_PHOTOBOOK_SETTINGS: PhotobookSettings = {
+  sizeId: 'A4',
+  landscape: false,
+  columns: 1,
+  rows: 2,
+  gutterMm: 8,
+  marginMm: 15,
+  cover: true,
+  pageNumbers: true,
+  order: 'project',
+};
+
+export const DEFAULT_EXPORT_SETTINGS: ExportSettings = {
+  colorProfile: 'srgb',
+  iccProfilePath: null,
+  layout: 'single',
+  sheet: DEFAULT_SHEET_SETTINGS,
+  photobook: DEFAULT_PHOTOBOOK_SETTINGS,
+  // 成品常发给网上冲印店，默认不携带拍摄信息与位置
+  embedMetadata: false,
+  embedLocation: false,
+  fileNameTemplate: DEFAULT_FILE_NAME_TEMPLATE,
+  grouping: 'source',
+  target: 'folder',
+  output: DEFAULT_OUTPUT_FORMAT_SETTINGS,
+  resolution: DEFAULT_PRINT_RESOLUTION_SETTINGS,
+};
+
+const clampNumber = (value: unknown, min: number, max: number, fallback: number) => {
+  const numeric = Number(value);
+  if (!Number.isFinite(numeric)) {
+    return fallback;
+  }
+  return Math.min(Math.max(numeric, min), max);
+};
+
+export function normalizeSheetSettings(input?: Partial<SheetSettings> | null): SheetSettings {
+  const base = DEFAULT_SHEET_SETTINGS;
+  return {
+    sizeId: typeof input?.sizeId === 'string' && input.sizeId ? input.sizeId : base.sizeId,
+    columns: Math.round(clampNumber(input?.columns, 1, 10, base.columns)),
+    rows: Math.round(clampNumber(input?.rows, 1, 10, base.rows)),
+    gutterMm: clampNumber(input?.gutterMm, 0, 50, base.gutterMm),
+    marginMm: clampNumber(input?.marginMm, 0, 50, base.marginMm),
+    cutLines: typeof input?.cutLines === 'boolean' ? input.cutLines : base.cutLines,
+  };
+}
+
+export function normalizePhotobookSettings(
+  input?: Partial<PhotobookSettings> | null,
+): PhotobookSettings {
+  const base = DEFAULT_PHOTOBOOK_SETTINGS;
+  const readBoolean = (value: unknown, fallback: boolean) =>
+    typeof value === 'boolean' ? value : fallback;
+  return {
+    sizeId: typeof input?.sizeId === 'string' && input.sizeId ? input.sizeId : base.sizeId,
+    landscape: readBoolean(input?.landscape, base.landscape),
+    columns: Math.round(clampNumber(input?.columns, 1, 6, base.columns)),
+    rows: Math.round(clampNumber(input?.rows, 1, 6, base.rows)),
+    gutterMm: clampNumber(input?.gutterMm, 0, 50, base.gutterMm),
+    marginMm: clampNumber(input?.marginMm, 0, 50, base.marginMm),
+    cover: readBoolean(input?.cover, base.cover),
+    pageNumbers: readBoolean(input?.pageNumbers, base.pageNumbers),
+    order: input?.order && input.order in PHOTOBOOK_ORDER_LABELS ? input.order : base.order,
+  };
+}
+
+export function normalizeOutputFormatSettings(
+  input?: Partial<OutputFormatSettings> | null,
+): OutputFormatSettings {
+  const base = DEFAULT_OUTPUT_FORMAT_SETTINGS;
+  return {
+    mode: input?.mode === 'fixed' ? 'fixed' : base.mode,
+    format: input?.format && input.format in OUTPUT_FORMAT_LABELS ? input.format : base.format,
+    quality: Math.round(clampNumber(input?.quality, 1, 100, base.quality)),
+    chromaSubsampling:
+      input?.chromaSubsampling === '4:4:4' || input?.chromaSubsampling === '4:2:0'
+        ? input.chromaSubsampling
+        : base.chromaSubsampling,
+    tiffCompression:
+      input?.tiffCompression && input.tiffCompression in TIFF_COMPRESSION_LABELS
+        ? input.tiffCompression
+        : base.tiffCompression,
+  };
+}
+
+export function normalizePrintResolutionSettings(
+  input?: Partial<PrintResolutionSettings> | null,
+): PrintResolutionSettings {
+  const base = DEFAULT_PRINT_RESOLUTION_SETTINGS;
+  return {
+    minDpi: Math.round(clampNumber(input?.minDpi, 50, 600, base.minDpi)),
+    upscale: typeof input?.upscale === 'boolean' ? input.upscale : base.upscale,
+  };
+}
+
+export function normalizeExportSettings(input?: Partial<ExportSettings> | null): ExportSettings {
+  const base = DEFAULT_EXPORT_SETTINGS;
+  const colorProfile =
+    input?.colorProfile && input.colorProfile in COLOR_PROFILE_LABELS
+      ? input.colorProfile
+      : base.colorProfile;
+  const iccProfilePath =
+    typeof input?.iccProfilePath === 'string' && input.iccProfilePath.trim()
+      ? input.iccProfilePath
+      : null;
+  return {
+    colorProfile: colorProfile === 'custom' && !iccProfilePath ? base.colorProfile : colorProfile,
+    iccProfilePath,
+    layout: input?.layout && input.layout in EXPORT_LAYOUT_LABELS ? input.layout : base.layout,
+    sheet: normalizeSheetSettings(input?.sheet),
+    photobook: normalizePhotobookSettings(input?.photobook),
+    embedMetadata:
+      typeof input?.embedMetadata === 'boolean' ? input.embedMetadata : base.embedMetadata,
+    embedLocation:
+      typeof input?.embedLocation === 'boolean' ? input.embedLocation : base.embedLocation,
+    fileNameTemplate:
+      typeof input?.fileNameTemplate === 'string' && input.fileNameTemplate.trim()
+        ? input.fileNameTemplate
+        : base.fileNameTemplate,
+    grouping:
+      input?.grouping && input.grouping in EXPORT_GROUPING_LABELS
+        ? input.grouping
+        : base.grouping,
+    target: input?.target && input.target in EXPORT_TARGET_LABELS ? input.target : base.target,
+    output: normalizeOutputFormatSettings(input?.output),
+    resolution: normalizePrintResolutionSettings(input?.resolution),
+  };
+}
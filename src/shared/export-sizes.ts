@@ -0,0 +1,97 @@
+import type { ExportSizeSpec, SizeUnit } from '../types/project';
+
+export const SIZE_UNIT_LABELS: Record<SizeUnit, string> = {
+  mm: '毫米',
+  cm: '厘米',
+  in: '英寸',
+};
+
+const MM_PER_UNIT: Record<SizeUnit, number> = {
+  mm: 1,
+  cm: 10,
+  in: 25.4,
+};
+
+export const MAX_EXPORT_PIXELS = 20000;
+
+export const DEFAULT_EXPORT_SIZE_ID = '5L';
+
+export const BUILT_IN_EXPORT_SIZES: ExportSizeSpec[] = [
+  { id: '5', label: '5寸', width: 5, height: 3.5, unit: 'in', dpi: 300 },
+  { id: '5L', label: '大5寸', width: 5, height: 3.75, unit: 'in', dpi: 300 },
+  { id: '6', label: '6寸', width: 6, height: 4, unit: 'in', dpi: 300 },
+  { id: '6L', label: '大6寸', width: 6, height: 4.5, unit: 'in', dpi: 300 },
+  { id: '7', label: '7寸', width: 7, height: 5, unit: 'in', dpi: 300 },
+  { id: '8', label: '8寸', width: 8, height: 6, unit: 'in', dpi: 300 },
+  { id: 'A4', label: 'A4', width: 297, height: 210, unit: 'mm', dpi: 300 },
+  { id: 'SQ4', label: '方形 4×4', width: 4, height: 4, unit: 'in', dpi: 300 },
+  { id: 'wallet', label: '钱包照', width: 3.5, height: 2.5, unit: 'in', dpi: 300 },
+];
+
+const BUILT_IN_IDS = new Set(BUILT_IN_EXPORT_SIZES.map((item) => item.id));
+
+export const isBuiltInExportSize = (id: string) => BUILT_IN_IDS.has(id);
+
+// 长边不超过 MAX_EXPORT_PIXELS 时允许的最高 DPI
+function getMaxExportDpi(spec: Pick<ExportSizeSpec, 'width' | 'height' | 'unit'>): number {
+  const longMm = Math.max(spec.width, spec.height) * MM_PER_UNIT[spec.unit];
+  return Math.max(1, Math.floor((MAX_EXPORT_PIXELS * 25.4) / longMm));
+}
+
+const toPositive = (value: unknown, fallback: number) => {
+  const numeric = Number(value);
+  return Number.isFinite(numeric) && numeric > 0 ? numeric : fallback;
+};
+
+// 统一为“长边 × 短边”，并对来自项目文件的数值做兜底
+export function normalizeExportSize(input?: Partial<ExportSizeSpec> | null): ExportSizeSpec {
+  const fallback =
+    BUILT_IN_EXPORT_SIZES.find((item) => item.id === DEFAULT_EXPORT_SIZE_ID) ??
+    BUILT_IN_EXPORT_SIZES[0];
+  const unit: SizeUnit =
+    input?.unit && input.unit in MM_PER_UNIT ? input.unit : fallback.unit;
+  const first = toPositive(input?.width, fallback.width);
+  const second = toPositive(input?.height, fallback.height);
+  const width = Math.max(first, second);
+  const height = Math.min(first, second);
+  const dpi = Math.round(Math.min(Math.max(toPositive(input?.dpi, fallback.dpi), 72), 1200));
+  return {
+    id: input?.id || fallback.id,
+    label: input?.label?.trim() || fallback.label,
+    width,
+    height,
+    unit,
+    // 超出像素上限时降低 DPI，两边按同一比例缩小，写入成品的 DPI 与实际一致
+    dpi: Math.min(dpi, getMaxExportDpi({ width, height, unit })),
+  };
+}
+
+export function resolveExportSize(
+  input: string | Partial<ExportSizeSpec> | null | undefined,
+  customSizes: ExportSizeSpec[] = [],
+): ExportSizeSpec {
+  if (typeof input === 'string') {
+    const found =
+      BUILT_IN_EXPORT_SIZES.find((item) => item.id === input) ??
+      customSizes.find((item) => item.id === input);
+    return normalizeExportSize(found);
+  }
+  return normalizeExportSize(input);
+}
+
+export const mmToPixels = (mm: number, dpi: number) => Math.max(0, Math.round((mm * dpi) / 25.4));
+
+// 拼版等场景会换用其他 DPI，超出上限时两边按同一比例缩小，保持长宽比
+export function getExportSizePixels(spec: ExportSizeSpec): { width: number; height: number } {
+  const scale = Math.min(1, spec.dpi > 0 ? getMaxExportDpi(spec) / spec.dpi : 1);
+  const toPixels = (value: number) =>
+    Math.max(1, Math.round((value * MM_PER_UNIT[spec.unit] * spec.dpi * scale) / 25.4));
+  return { width: toPixels(spec.width), height: toPixels(spec.height) };
+}
+
+export function describeExportSize(spec: ExportSizeSpec): string {
+  const format = (value: number) => Number(value.toFixed(2)).toString();
+  const cm = (value: number) => format((value * MM_PER_UNIT[spec.unit]) / 10);
+  const pixels = getExportSizePixels(spec);
+  return `${cm(spec.width)} × ${cm(spec.height)} cm · ${spec.dpi} DPI · ${pixels.width} × ${pixels.height} px`;
+}
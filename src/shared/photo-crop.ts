@@ -0,0 +1,43 @@
+import type { PhotoCrop } from '../types/project';
+
+export const MIN_CROP_SIZE = 0.02;
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+
+// 覆盖整张图的裁切等同于未裁切，统一记为 null
+export function normalizePhotoCrop(input?: Partial<PhotoCrop> | null): PhotoCrop | null {
+  if (!input) {
+    return null;
+  }
+  const values = [input.x, input.y, input.width, input.height].map(Number);
+  if (values.some((value) => !Number.isFinite(value))) {
+    return null;
+  }
+  const x = clamp(values[0], 0, 1 - MIN_CROP_SIZE);
+  const y = clamp(values[1], 0, 1 - MIN_CROP_SIZE);
+  const width = clamp(values[2], MIN_CROP_SIZE, 1 - x);
+  const height = clamp(values[3], MIN_CROP_SIZE, 1 - y);
+  if (x <= 0 && y <= 0 && width >= 1 && height >= 1) {
+    return null;
+  }
+  return { x, y, width, height, locked: Boolean(input.locked) };
+}
+
+// ratio 为归一化坐标下的宽高比（像素宽高比 × 原图高 / 原图宽），以原裁切框中心收缩到该比例内的最大框
+export function fitCropToRatio(crop: PhotoCrop, ratio: number): PhotoCrop {
+  const centerX = crop.x + crop.width / 2;
+  const centerY = crop.y + crop.height / 2;
+  const maxWidth = Math.min(centerX, 1 - centerX) * 2;
+  const maxHeight = Math.min(centerY, 1 - centerY) * 2;
+  let width = Math.max(crop.width, crop.height * ratio);
+  let height = width / ratio;
+  if (width > maxWidth) {
+    width = maxWidth;
+    height = width / ratio;
+  }
+  if (height > maxHeight) {
+    height = maxHeight;
+    width = height * ratio;
+  }
+  return { ...crop, x: centerX - width / 2, y: centerY - height / 2, width, height };
+}
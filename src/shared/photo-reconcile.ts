@@ -0,0 +1,56 @@
+// 重新扫描目录后，把项目中已有的照片与扫描结果对应起来
+// 先按相对路径匹配；剩下的按内容指纹一一匹配，视为被移动或重命名
+
+export type ReconcileEntry = {
+  relativePath: string;
+  fingerprint?: string | null;
+};
+
+export type PhotoReconcileResult<S, T> = {
+  // 路径未变
+  kept: Array<{ saved: S; scanned: T }>;
+  moved: Array<{ saved: S; scanned: T }>;
+  added: T[];
+  // 文件已不在目录中，项目里的信息保留到用户确认移除
+  missing: S[];
+};
+
+export function reconcilePhotos<S extends ReconcileEntry, T extends ReconcileEntry>(
+  saved: S[],
+  scanned: T[],
+): PhotoReconcileResult<S, T> {
+  const result: PhotoReconcileResult<S, T> = { kept: [], moved: [], added: [], missing: [] };
+  const savedByPath = new Map(saved.map((item) => [item.relativePath, item]));
+  const unmatchedScanned: T[] = [];
+  for (const item of scanned) {
+    const match = savedByPath.get(item.relativePath);
+    if (match) {
+      savedByPath.delete(item.relativePath);
+      result.kept.push({ saved: match, scanned: item });
+    } else {
+      unmatchedScanned.push(item);
+    }
+  }
+
+  // 内容相同的多张照片按出现顺序依次对应
+  const savedByFingerprint = new Map<string, S[]>();
+  for (const item of savedByPath.values()) {
+    if (!item.fingerprint) {
+      continue;
+    }
+    const list = savedByFingerprint.get(item.fingerprint) ?? [];
+    list.push(item);
+    savedByFingerprint.set(item.fingerprint, list);
+  }
+  for (const item of unmatchedScanned) {
+    const match = item.fingerprint ? savedByFingerprint.get(item.fingerprint)?.shift() : undefined;
+    if (match) {
+      savedByPath.delete(match.relativePath);
+      result.moved.push({ saved: match, scanned: item });
+    } else {
+      result.added.push(item);
+    }
+  }
+  result.missing = [...savedByPath.values()];
+  return result;
+}
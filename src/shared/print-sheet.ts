@@ -0,0 +1,139 @@
+import type { ExportSizeSpec, PhotobookSettings, SheetSettings } from '../types/project';
+import { getExportSizePixels, mmToPixels } from './export-sizes';
+
+export type SheetLayout = {
+  canvas: { width: number; height: number };
+  // 每个格子里照片的摆放尺寸（已换算到纸张 DPI，方向可能为竖向）
+  box: { width: number; height: number };
+  slots: Array<{ left: number; top: number }>;
+  // 照片相对原物理尺寸的缩放，1 表示按原尺寸输出
+  scale: number;
+};
+
+type Candidate = SheetLayout & { aspectGap: number };
+
+// 纸张横放/竖放、照片横放/竖放各试一次，优先原尺寸放得下的，其次格子比例最接近照片的
+export function computeSheetLayout(
+  sheetSpec: ExportSizeSpec,
+  photoSpec: ExportSizeSpec,
+  settings: SheetSettings,
+): SheetLayout {
+  const dpi = sheetSpec.dpi;
+  const sheet = getExportSizePixels(sheetSpec);
+  const photo = getExportSizePixels({ ...photoSpec, dpi });
+  const margin = mmToPixels(settings.marginMm, dpi);
+  const gutter = mmToPixels(settings.gutterMm, dpi);
+  const { columns, rows } = settings;
+
+  const candidates: Candidate[] = [];
+  [
+    { width: sheet.width, height: sheet.height },
+    { width: sheet.height, height: sheet.width },
+  ].forEach((canvas) => {
+    const cellWidth = (canvas.width - margin * 2 - gutter * (columns - 1)) / columns;
+    const cellHeight = (canvas.height - margin * 2 - gutter * (rows - 1)) / rows;
+    if (cellWidth <= 0 || cellHeight <= 0) {
+      return;
+    }
+    [
+      { width: photo.width, height: photo.height },
+      { width: photo.height, height: photo.width },
+    ].forEach((raw) => {
+      const scale = Math.min(1, cellWidth / raw.width, cellHeight / raw.height);
+      const box = {
+        width: Math.max(1, Math.floor(raw.width * scale)),
+        height: Math.max(1, Math.floor(raw.height * scale)),
+      };
+      const slots: SheetLayout['slots'] = [];
+      for (let row = 0; row < rows; row += 1) {
+        for (let column = 0; column < columns; column += 1) {
+          slots.push({
+            left: Math.round(margin + column * (cellWidth + gutter) + (cellWidth - box.width) / 2),
+            top: Math.round(margin + row * (cellHeight + gutter) + (cellHeight - box.height) / 2),
+          });
+        }
+      }
+      candidates.push({
+        canvas,
+        box,
+        slots,
+        scale,
+        aspectGap: Math.abs(Math.log(cellWidth / cellHeight / (raw.width / raw.height))),
+      });
+    });
+  });
+
+  if (candidates.length === 0) {
+    throw new Error('纸张放不下当前的边距与间距');
+  }
+
+  candidates.sort((a, b) => b.scale - a.scale || a.aspectGap - b.aspectGap);
+  const { aspectGap: _aspectGap, ...layout } = candidates[0];
+  return layout;
+}
+
+export type PhotobookLayout = {
+  // 页面像素尺寸（按页面 DPI）
+  canvas: { width: number; height: number };
+  cells: Array<{ left: number; top: number; width: number; height: number }>;
+  // 成品图的渲染尺寸（横向），竖向照片画布对调；放进格子时再等比缩放居中
+  photo: { width: number; height: number };
+  // 页码居中的基线位置，不显示页码时为 null
+  pageNumber: { x: number; y: number } | null;
+};
+
+// 页码占用页面底部的高度
+const PAGE_NUMBER_AREA_MM = 8;
+
+export function computePhotobookLayout(
+  pageSpec: ExportSizeSpec,
+  photoSpec: ExportSizeSpec,
+  settings: PhotobookSettings,
+): PhotobookLayout {
+  const dpi = pageSpec.dpi;
+  const page = getExportSizePixels(pageSpec);
+  const canvas = settings.landscape
+    ? { width: page.width, height: page.height }
+    : { width: page.height, height: page.width };
+  const margin = mmToPixels(settings.marginMm, dpi);
+  const gutter = mmToPixels(settings.gutterMm, dpi);
+  const footer = settings.pageNumbers ? mmToPixels(PAGE_NUMBER_AREA_MM, dpi) : 0;
+  const { columns, rows } = settings;
+  const cellWidth = Math.floor((canvas.width - margin * 2 - gutter * (columns - 1)) / columns);
+  const cellHeight = Math.floor(
+    (canvas.height - margin * 2 - footer - gutter * (rows - 1)) / rows,
+  );
+  if (cellWidth <= 0 || cellHeight <= 0) {
+    throw new Error('页面放不下当前的边距与间距');
+  }
+
+  const cells: PhotobookLayout['cells'] = [];
+  for (let row = 0; row < rows; row += 1) {
+    for (let column = 0; column < columns; column += 1) {
+      cells.push({
+        left: margin + column * (cellWidth + gutter),
+        top: margin + row * (cellHeight + gutter),
+        width: cellWidth,
+        height: cellHeight,
+      });
+    }
+  }
+
+  // 照片方向要到渲染后才知道，取横放、竖放两种中较大的缩放，保证任一方向都不糊
+  const raw = getExportSizePixels({ ...photoSpec, dpi });
+  const scale = Math.max(
+    Math.min(cellWidth / raw.width, cellHeight / raw.height),
+    Math.min(cellWidth / raw.height, cellHeight / raw.width),
+  );
+  return {
+    canvas,
+    cells,
+    photo: {
+      width: Math.max(1, Math.round(raw.width * scale)),
+      height: Math.max(1, Math.round(raw.height * scale)),
+    },
+    pageNumber: settings.pageNumbers
+      ? { x: canvas.width / 2, y: canvas.height - margin - footer / 3 }
+      : null,
+  };
+}
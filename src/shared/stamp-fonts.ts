@@ -0,0 +1,42 @@
+import type { StampTemplate } from '../types/project';
+
+export type StampFontScript = 'cjk' | 'latin';
+
+export type StampFont = {
+  id: string;
+  label: string;
+  // assets/fonts 下的字体文件
+  file: string;
+  scripts: StampFontScript[];
+};
+
+// 随应用打包的字体，渲染时转为路径，不依赖系统字体
+export const STAMP_FONTS: StampFont[] = [
+  {
+    id: 'noto-serif-sc',
+    label: '思源宋体（Noto Serif SC）',
+    // 子集（WOFF）：GBK 全部字符（含繁体）、农历用字、拉丁字母、假名与常用标点
+    file: 'NotoSerifSC-Regular-Subset.woff',
+    scripts: ['cjk', 'latin'],
+  },
+  {
+    id: 'tinos',
+    label: 'Tinos（与 Times New Roman 等宽）',
+    file: 'Tinos-Regular.ttf',
+    scripts: ['latin'],
+  },
+];
+
+export const DEFAULT_STAMP_FONTS: StampTemplate['fontFamily'] = {
+  cjk: 'noto-serif-sc',
+  latin: 'tinos',
+};
+
+export const getStampFontOptions = (script: StampFontScript) =>
+  STAMP_FONTS.filter((font) => font.scripts.includes(script));
+
+// 旧项目里保存的是 CSS 字体栈，无法匹配时回退到默认字体
+export function resolveStampFontId(value: unknown, script: StampFontScript): string {
+  const found = getStampFontOptions(script).find((font) => font.id === value);
+  return found ? found.id : DEFAULT_STAMP_FONTS[script];
+}
@@ -0,0 +1,75 @@
+import type { StampField, StampTemplate } from '../types/project';
+import { DEFAULT_DATE_FORMAT, resolveDateFormat } from './date-format';
+import { DEFAULT_STAMP_FONTS, resolveStampFontId } from './stamp-fonts';
+
+export const STAMP_FIELD_LABELS: Record<StampField, string> = {
+  date: '日期',
+  location: '地点',
+  description: '描述',
+};
+
+export const DEFAULT_TEMPLATE_ID = 'default';
+
+export const DEFAULT_STAMP_TEMPLATE: StampTemplate = {
+  id: DEFAULT_TEMPLATE_ID,
+  name: '默认样式',
+  border: { top: 0, right: 0, bottom: 0, left: 0 },
+  fontFamily: DEFAULT_STAMP_FONTS,
+  fontSizeRatio: 0.0225,
+  textBorderRatio: 2.5,
+  edgeSafeRatio: 1.5,
+  textColor: '#111827',
+  leftFields: ['location', 'description'],
+  rightFields: ['date'],
+  separator: ' · ',
+  dateFormat: DEFAULT_DATE_FORMAT,
+};
+
+const STAMP_FIELDS = Object.keys(STAMP_FIELD_LABELS) as StampField[];
+
+const clampNumber = (value: unknown, min: number, max: number, fallback: number) => {
+  const numeric = Number(value);
+  if (!Number.isFinite(numeric)) {
+    return fallback;
+  }
+  return Math.min(Math.max(numeric, min), max);
+};
+
+const normalizeFields = (value: unknown, fallback: StampField[]): StampField[] => {
+  if (!Array.isArray(value)) {
+    return fallback;
+  }
+  const fields = value.filter((field): field is StampField =>
+    STAMP_FIELDS.includes(field as StampField),
+  );
+  return Array.from(new Set(fields));
+};
+
+// 项目文件来自磁盘，字段可能缺失或被手改，统一在这里兜底
+export function normalizeStampTemplate(input?: Partial<StampTemplate> | null): StampTemplate {
+  const base = DEFAULT_STAMP_TEMPLATE;
+  const border = input?.border;
+  const color = typeof input?.textColor === 'string' ? input.textColor.trim() : '';
+  return {
+    id: input?.id || base.id,
+    name: input?.name?.trim() || base.name,
+    border: {
+      top: clampNumber(border?.top, 0, 0.3, base.border.top),
+      right: clampNumber(border?.right, 0, 0.3, base.border.right),
+      bottom: clampNumber(border?.bottom, 0, 0.3, base.border.bottom),
+      left: clampNumber(border?.left, 0, 0.3, base.border.left),
+    },
+    fontFamily: {
+      cjk: resolveStampFontId(input?.fontFamily?.cjk, 'cjk'),
+      latin: resolveStampFontId(input?.fontFamily?.latin, 'latin'),
+    },
+    fontSizeRatio: clampNumber(input?.fontSizeRatio, 0.005, 0.1, base.fontSizeRatio),
+    textBorderRatio: clampNumber(input?.textBorderRatio, 1, 8, base.textBorderRatio),
+    edgeSafeRatio: clampNumber(input?.edgeSafeRatio, 0, 5, base.edgeSafeRatio),
+    textColor: /^#[0-9a-f]{3}([0-9a-f]{3})?$/i.test(color) ? color : base.textColor,
+    leftFields: normalizeFields(input?.leftFields, base.leftFields),
+    rightFields: normalizeFields(input?.rightFields, base.rightFields),
+    separator: typeof input?.separator === 'string' ? input.separator : base.separator,
+    dateFormat: resolveDateFormat(input?.dateFormat),
+  };
+}
@@ -0,0 +1,9 @@
+// heic-decode 没有自带类型声明，这里只声明用到的单张解码
+declare module 'heic-decode' {
+  export default function decode(input: { buffer: Uint8Array }): Promise<{
+    width: number;
+    height: number;
+    // RGBA
+    data: Uint8ClampedArray;
+  }>;
+}
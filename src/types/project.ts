@@ -0,0 +1,258 @@
+// 主进程、预加载与渲染进程共享的项目数据类型
+
+export type PhotoRotation = 0 | 90 | 180 | 270;
+
+// 在 EXIF 方向之后额外叠加的手动修正（用于方向标签错误的照片）
+export type PhotoTransform = {
+  rotation: PhotoRotation;
+  mirrored: boolean;
+};
+
+// 裁切框，以摆正后（EXIF 方向 + 手动修正）的原图为基准，按宽高比例记录
+export type PhotoCrop = {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  // 是否锁定为导出尺寸的比例
+  locked: boolean;
+};
+
+export type StampMeta = {
+  date: string | null;
+  location: string;
+  description: string;
+  rotation?: PhotoRotation;
+  mirrored?: boolean;
+  crop?: PhotoCrop | null;
+};
+
+export type StampField = 'date' | 'location' | 'description';
+
+// 日期的显示格式，只在渲染文字时生效，项目中始终按 YYYY-MM-DD 存储
+export type DateDisplayFormat = 'iso' | 'dot' | 'cjk' | 'en' | 'month' | 'lunar';
+
+export type StampTemplate = {
+  id: string;
+  name: string;
+  // 四周额外白边，按画布短边的比例计
+  border: { top: number; right: number; bottom: number; left: number };
+  // 内置字体 id，见 src/shared/stamp-fonts.ts
+  fontFamily: { cjk: string; latin: string };
+  // 字号，按画布高度的比例计
+  fontSizeRatio: number;
+  // 文字侧白边与画布边缘安全距离，按字号的倍数计
+  textBorderRatio: number;
+  edgeSafeRatio: number;
+  textColor: string;
+  leftFields: StampField[];
+  rightFields: StampField[];
+  separator: string;
+  dateFormat: DateDisplayFormat;
+};
+
+export type SizeUnit = 'mm' | 'cm' | 'in';
+
+export type ExportSizeSpec = {
+  id: string;
+  label: string;
+  // 物理尺寸，按长边 × 短边记录；竖向照片导出时画布会自动对调
+  width: number;
+  height: number;
+  unit: SizeUnit;
+  dpi: number;
+};
+
+export type ColorProfileMode = 'srgb' | 'p3' | 'custom';
+
+export type ExportLayoutMode = 'single' | 'sheet' | 'photobook';
+
+// 拼版：把多张成品图按网格排到一张更大的纸上
+export type SheetSettings = {
+  // 纸张尺寸，取自尺寸注册表
+  sizeId: string;
+  columns: number;
+  rows: number;
+  // 照片间距与纸张边距，单位毫米
+  gutterMm: number;
+  marginMm: number;
+  cutLines: boolean;
+};
+
+// 相册中照片的先后：项目中的顺序 / 拍摄日期（无日期的排在最后）
+export type PhotobookOrder = 'project' | 'date';
+
+// 相册 PDF：每页按网格放若干张成品图，可加封面与页码
+export type PhotobookSettings = {
+  // 页面尺寸，取自尺寸注册表
+  sizeId: string;
+  landscape: boolean;
+  columns: number;
+  rows: number;
+  // 照片间距与页面边距，单位毫米
+  gutterMm: number;
+  marginMm: number;
+  cover: boolean;
+  pageNumbers: boolean;
+  order: PhotobookOrder;
+};
+
+export type OutputFormat = 'jpeg' | 'png' | 'webp' | 'avif' | 'tiff';
+
+export type ChromaSubsampling = '4:2:0' | '4:4:4';
+
+export type TiffCompression = 'lzw' | 'deflate' | 'none';
+
+// 成品图的编码：source 按原图格式（PNG 原图输出 PNG，其余输出 JPEG 等），fixed 统一为 format
+export type OutputFormatSettings = {
+  mode: 'source' | 'fixed';
+  format: OutputFormat;
+  // JPEG / WebP / AVIF 的画质，1–100
+  quality: number;
+  // JPEG / AVIF 的色度抽样，4:4:4 保留更多色彩细节
+  chromaSubsampling: ChromaSubsampling;
+  // TIFF 为 16 位无损输出，只选压缩方式
+  tiffCompression: TiffCompression;
+};
+
+// 打印清晰度：有效 DPI 低于 minDpi 的照片在缩略图上标出，导出前列出确认
+export type PrintResolutionSettings = {
+  minDpi: number;
+  // 关闭后原图小于成品中照片区域时不放大，按原像素居中放置
+  upscale: boolean;
+};
+
+// 成品写入文件夹，或直接打包为一个 ZIP 文件
+export type ExportTarget = 'folder' | 'zip';
+
+// 单张导出时的子目录划分方式
+export type ExportGrouping = 'source' | 'flat' | 'month' | 'location';
+
+export type ExportSettings = {
+  // 输出色彩：转换到该配置文件并嵌入成品图
+  colorProfile: ColorProfileMode;
+  iccProfilePath: string | null;
+  layout: ExportLayoutMode;
+  sheet: SheetSettings;
+  photobook: PhotobookSettings;
+  // 单张导出时复制原图拍摄信息，并写入日期、地点与描述（EXIF / XMP / IPTC）
+  embedMetadata: boolean;
+  // 元数据中是否保留原图的 GPS 位置；关闭时丢弃 GPS 条目
+  embedLocation: boolean;
+  // 文件名模板，占位符见 src/shared/export-naming.ts
+  fileNameTemplate: string;
+  grouping: ExportGrouping;
+  target: ExportTarget;
+  output: OutputFormatSettings;
+  resolution: PrintResolutionSettings;
+};
+
+// 文字过长时的处理结果：原样 / 缩小字号 / 换行 / 截断
+export type CaptionFitStatus = 'fit' | 'shrunk' | 'wrapped' | 'truncated';
+
+export type CaptionCheckResult = {
+  relativePath: string;
+  status: CaptionFitStatus;
+  // 实际字号相对模板字号的比例
+  fontScale: number;
+  // 字体中没有字形的字符，导出后会显示为方框
+  missingGlyphs: string[];
+};
+
+export type ResolutionCheckResult = {
+  relativePath: string;
+  // 照片区域按导出尺寸打印时的实际像素密度，原图无法读取时为 null
+  effectiveDpi: number | null;
+};
+
+// 更新已有导出时各类照片的数量
+export type ExportUpdateSummary = {
+  added: number;
+  updated: number;
+  // 内容未变、只是文件名或子目录变了，直接移动
+  renamed: number;
+  unchanged: number;
+  // 已取消勾选，成品被删除
+  removed: number;
+};
+
+// 导出失败的原因：原图无法读取 / 磁盘空间不足 / 没有访问权限 / 其他
+export type ExportFailureReason = 'unreadable' | 'disk-full' | 'permission' | 'unknown';
+
+export type ExportFailure = {
+  relativePath: string;
+  filename: string;
+  reason: ExportFailureReason;
+  // 原始错误信息，便于排查
+  message: string;
+};
+
+// 缩略图与预览缓存的占用情况
+export type ImageCacheUsage = {
+  totalBytes: number;
+  limitBytes: number;
+  thumbnails: number;
+  previews: number;
+  // 缓存涉及的照片目录数
+  folders: number;
+};
+
+// 扫描目录时未导入的文件：格式不支持 / 已有同名 JPEG 等的 RAW
+export type SkippedFileReason = 'unsupported' | 'raw-pair';
+
+export type SkippedFile = {
+  relativePath: string;
+  reason: SkippedFileReason;
+};
+
+// 扫描目录得到的照片
+export type ScannedPhoto = {
+  id: string;
+  filename: string;
+  relativePath: string;
+  fileUrl: string;
+  // 内容指纹，文件无法读取时为 null
+  fingerprint: string | null;
+};
+
+export type DirectoryScan = {
+  photos: ScannedPhoto[];
+  // 未导入的文件，在界面中列出
+  skipped: SkippedFile[];
+};
+
+// 实时监视照片目录时推送的变化，与上一次扫描比较得出
+export type FolderChange = {
+  baseDir: string;
+  added: ScannedPhoto[];
+  // 内容变化（指纹不同）的照片
+  changed: ScannedPhoto[];
+  removed: string[];
+  skipped: SkippedFile[];
+};
+
+// 后台索引的照片：方向用于生成对应的缩略图，exif 为 true 时读取拍摄日期
+export type PhotoIndexItem = {
+  relativePath: string;
+  rotation?: PhotoRotation;
+  mirrored?: boolean;
+  exif: boolean;
+};
+
+export type PhotoIndexResult = {
+  relativePath: string;
+  // 生成缩略图时的方向，渲染进程据此丢弃已过期的结果
+  rotation?: PhotoRotation;
+  mirrored?: boolean;
+  // 生成失败时为空字符串
+  thumbnailUrl: string;
+  // 未要求读取时不存在
+  exifDate?: string | null;
+};
+
+export type PhotoIndexProgress = {
+  baseDir: string;
+  done: number;
+  total: number;
+  results: PhotoIndexResult[];
+};
@@ -6,6 +6,21 @@ declare namespace NodeJS {
   }
 }
 
+type StampMeta = import('./project').StampMeta;
+type PhotoTransform = import('./project').PhotoTransform;
+type StampTemplate = import('./project').StampTemplate;
+type ExportSizeSpec = import('./project').ExportSizeSpec;
+type ExportSettings = import('./project').ExportSettings;
+type CaptionCheckResult = import('./project').CaptionCheckResult;
+type ResolutionCheckResult = import('./project').ResolutionCheckResult;
+type ExportUpdateSummary = import('./project').ExportUpdateSummary;
+type ExportFailure = import('./project').ExportFailure;
+type ImageCacheUsage = import('./project').ImageCacheUsage;
+type PhotoIndexItem = import('./project').PhotoIndexItem;
+type PhotoIndexProgress = import('./project').PhotoIndexProgress;
+type DirectoryScan = import('./project').DirectoryScan;
+type FolderChange = import('./project').FolderChange;
+
 type ImgStampApi = {
   getRecentProjects: () => Promise<
     Array<{
@@ -31,23 +46,37 @@ type ImgStampApi = {
   >;
   openDirectory: () => Promise<string | null>;
   openExportDirectory: () => Promise<string | null>;
+  openIccProfile: () => Promise<string | null>;
   openPath: (targetPath: string) => Promise<string>;
-  scanImages: (baseDir: string) => Promise<
-    Array<{
-      id: string;
-      filename: string;
-      relativePath: string;
-      fileUrl: string;
-    }>
-  >;
-  getThumbnail: (baseDir: string, relativePath: string, size: number) => Promise<string>;
+  scanImages: (baseDir: string) => Promise<DirectoryScan>;
+  getThumbnail: (
+    baseDir: string,
+    relativePath: string,
+    size: number,
+    orientation?: PhotoTransform,
+  ) => Promise<string>;
   readExifDate: (baseDir: string, relativePath: string) => Promise<string | null>;
   getPreview: (
     baseDir: string,
     relativePath: string,
-    meta: { date: string | null; location: string; description: string },
-    options: { size: '5' | '5L' | '6' | '6L'; mode: 'final' | 'original' },
+    meta: StampMeta,
+    options: {
+      size: ExportSizeSpec;
+      mode: 'final' | 'original';
+      template?: Partial<StampTemplate>;
+      settings?: ExportSettings;
+    },
   ) => Promise<string>;
+  checkCaptions: (
+    baseDir: string,
+    items: Array<{ relativePath: string; meta: StampMeta }>,
+    options: { size: ExportSizeSpec; template?: Partial<StampTemplate> },
+  ) => Promise<CaptionCheckResult[]>;
+  checkResolution: (
+    baseDir: string,
+    items: Array<{ relativePath: string; meta: StampMeta }>,
+    options: { size: ExportSizeSpec; template?: Partial<StampTemplate> },
+  ) => Promise<ResolutionCheckResult[]>;
   openProjectFile: () => Promise<string | null>;
   saveProjectFile: (defaultName?: string) => Promise<string | null>;
   saveProject: (projectPath: string, data: unknown) => Promise<boolean>;
@@ -58,15 +87,59 @@ type ImgStampApi = {
     items: Array<{
       relativePath: string;
       filename: string;
-      meta: { date: string | null; location: string; description: string };
+      meta: StampMeta;
     }>,
-    size: '5' | '5L' | '6' | '6L',
-  ) => Promise<{ exported: number; failed: number; total: number; outputDir: string }>;
+    size: ExportSizeSpec,
+    template?: StampTemplate,
+    settings?: ExportSettings,
+    sheetSize?: ExportSizeSpec,
+    // update：更新已有导出目录；retry：只重做传入的照片；title：相册标题
+    options?: { update?: boolean; retry?: boolean; title?: string },
+  ) => Promise<{
+    exported: number;
+    failed: number;
+    total: number;
+    outputDir: string;
+    // 导出为压缩包时的文件路径
+    archivePath?: string;
+    sheets?: number;
+    // 相册导出生成的 PDF 与其页数（含封面）
+    documentPath?: string;
+    pages?: number;
+    update?: ExportUpdateSummary;
+    cancelled?: boolean;
+    skipped?: number;
+    failures: ExportFailure[];
+  }>;
+  hasExportManifest: (outputDir: string) => Promise<boolean>;
+  pauseExport: () => Promise<void>;
+  resumeExport: () => Promise<void>;
+  cancelExport: () => Promise<void>;
+  startIndexing: (
+    baseDir: string,
+    items: PhotoIndexItem[],
+    thumbnailSize: number,
+  ) => Promise<boolean>;
+  stopIndexing: () => Promise<boolean>;
+  onIndexerProgress: (callback: (payload: PhotoIndexProgress) => void) => () => void;
+  // known 为已载入的照片，监视开始前发生的变化据此补报
+  watchFolder: (
+    baseDir: string,
+    known: Array<{ relativePath: string; fingerprint: string | null }>,
+  ) => Promise<boolean>;
+  unwatchFolder: () => Promise<boolean>;
+  onFolderChange: (callback: (payload: FolderChange) => void) => () => void;
+  getCacheUsage: () => Promise<ImageCacheUsage>;
+  setCacheLimit: (limitBytes: number) => Promise<ImageCacheUsage>;
+  clearCache: () => Promise<number>;
+  removeStaleCache: () => Promise<number>;
   onMenuOpenDirectory: (callback: () => void) => () => void;
   onMenuOpenProject: (callback: () => void) => () => void;
   onMenuSaveProject: (callback: () => void) => () => void;
   onMenuExport: (callback: () => void) => () => void;
-  onMenuSetSize: (callback: (size: '5' | '5L' | '6' | '6L') => void) => () => void;
+  onMenuRescan: (callback: () => void) => () => void;
+  onMenuCache: (callback: () => void) => () => void;
+  onMenuSetSize: (callback: (sizeId: string) => void) => () => void;
   onMenuAbout: (
     callback: (payload: { title: string; subtitle?: string; lines: string[] }) => void,
   ) => () => void;
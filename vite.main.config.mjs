@@ -6,12 +6,19 @@ export default defineConfig({
   build: {
     outDir: 'dist/main',
     emptyOutDir: true,
-    ssr: path.resolve('src/main/main.ts'),
+    ssr: true,
     rollupOptions: {
+      // 导出 worker 与 HEIC 解码 worker 单独成为入口，运行时按文件路径启动
+      input: {
+        main: path.resolve('src/main/main.ts'),
+        'export-worker': path.resolve('src/main/export-worker.ts'),
+        'heic-worker': path.resolve('src/main/heic-worker.ts'),
+      },
       external: ['electron', 'sharp'],
       output: {
         format: 'cjs',
-        entryFileNames: 'main.js',
+        entryFileNames: '[name].js',
+        chunkFileNames: '[name]-[hash].js',
       },
     },
   },